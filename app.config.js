@@ -8,7 +8,6 @@ export default ({ config }) => ({
     EXPO_PUBLIC_SUPABASE_CALL_OPENAI_URL: process.env.EXPO_PUBLIC_SUPABASE_CALL_OPENAI_URL || "YOUR_OPENAI_URL",
     EXPO_PUBLIC_SUPABASE_CONJUGATE_VERB_URL: process.env.EXPO_PUBLIC_SUPABASE_CONJUGATE_VERB_URL || "YOUR_CONJUGATE_VERB_URL",
     EXPO_PUBLIC_SUPABASE_CALL_DETECT_LANGUAGE_URL: process.env.EXPO_PUBLIC_SUPABASE_CALL_DETECT_LANGUAGE_URL || "YOUR_DETECT_LANGUAGE_URL",
-    EXPO_PUBLIC_DEEPL_API_KEY: process.env.EXPO_PUBLIC_DEEPL_API_KEY || "YOUR_DEEPL_API_KEY",
     // RevenueCat API keys for subscription management
     REVENUECAT_IOS_API_KEY: process.env.REVENUECAT_IOS_API_KEY || "",
     REVENUECAT_ANDROID_API_KEY: process.env.REVENUECAT_ANDROID_API_KEY || "",
@@ -2,17 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, StyleSheet, Keyboard, Pressable, TouchableOpacity } from 'react-native';
 import { fetchCEFRLevels, CEFRResponse } from '../../services/cefrService';
 import { getVerbData } from "@/services/getVerbData";
+import { detectLanguageFromEdge } from "@/services/detectLanguage";
+import type { VerbAnalysis } from '../../services/analyzeVerbs';
 import { useCEFRSettings } from '../store/useCEFRSettings';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
 import { MotiView } from 'moti';
+import { useRouter } from 'expo-router';
 import { CEFRInput } from '../../components/cefr/CEFRInput';
+import { VerbList } from '../../components/cefr/VerbList';
 import { useClipboardWatcher } from '../../hooks/useClipboardWatcher';
 
 // Usage tracking imports
-import { supabase } from '../../utils/supabase';
 import { useFeatureAccess } from '../../hooks/useFeatureAccess';
-import { checkAndLogUsage, UsageLimitExceededError } from '../../services/usageService';
+import { useGuestNudge } from '../../hooks/useGuestNudge';
+import { UsageLimitExceededError } from '../../services/usageService';
 import { UsageWarningBanner } from '../../components/subscription/UsageQuotaDisplay';
 import { Paywall } from '../../components/subscription/Paywall';
 
@@ -38,10 +42,17 @@ export default function CEFRChecker() {
   const [showAnalysis, setShowAnalysis] = useState(true);
   const [showResults, setShowResults] = useState(true);
   const [inputFocused, setInputFocused] = useState(false);
+  const [verbs, setVerbs] = useState<VerbAnalysis[]>([]);
+  // Language detected for the current check; null until detection finishes
+  const [checkLanguage, setCheckLanguage] = useState<string | null>(null);
+  const [verbsLoading, setVerbsLoading] = useState(false);
+  const [verbsError, setVerbsError] = useState<string | null>(null);
+  const router = useRouter();
 
   // Usage tracking
   const [paywallVisible, setPaywallVisible] = useState(false);
   const { canPerformAction, isPremium } = useFeatureAccess();
+  const nudgeGuest = useGuestNudge();
 
   const hasClipboardContent = useClipboardWatcher();
 
@@ -57,11 +68,35 @@ export default function CEFRChecker() {
     return [];
   };
 
+  const loadVerbs = async (text: string) => {
+    setVerbsLoading(true);
+    setVerbsError(null);
+    setVerbs([]);
+    try {
+      const language = await detectLanguageFromEdge(text);
+      setCheckLanguage(language);
+      const { results } = await getVerbData(text, language);
+      setVerbs(results);
+    } catch (e: any) {
+      setVerbsError(e.message || 'Could not analyze verbs');
+    } finally {
+      setVerbsLoading(false);
+    }
+  };
+
+  const handleVerbSelect = (verb: VerbAnalysis) => {
+    router.push({
+      pathname: '/verb-details',
+      params: { ...verb, language: checkLanguage ?? undefined },
+    });
+  };
+
   const handleCheck = async () => {
     if (!isPremium && !canPerformAction('cefr_analysis')) {
       setPaywallVisible(true);
       return;
     }
+    nudgeGuest();
 
     setShowAnalysis(true);
     setShowResults(true);
@@ -70,22 +105,18 @@ export default function CEFRChecker() {
     setResult(null);
     setAnalysis(null);
     setAnalyzedInput('');
+    setVerbs([]);
+    setVerbsError(null);
+    setCheckLanguage(null);
 
+    let succeeded = false;
     try {
-      if (!isPremium) {
-        const { data: userData } = await supabase.auth.getUser();
-        if (userData.user) {
-          await checkAndLogUsage(userData.user.id, 'cefr_analysis', {
-            textLength: input.length,
-            dynamicCheck,
-          });
-        }
-      }
-
+      // Usage is logged (and enforced) by the call-openai edge function
       const res = await fetchCEFRLevels(input, selectedLevels, dynamicCheck);
       setResult(res);
       setAnalysis(res.analysis);
       setAnalyzedInput(input);
+      succeeded = true;
     } catch (e: any) {
       if (e instanceof UsageLimitExceededError) {
         setPaywallVisible(true);
@@ -97,7 +128,9 @@ export default function CEFRChecker() {
       setLoading(false);
     }
 
-    console.log(await getVerbData(input));
+    if (succeeded) {
+      loadVerbs(input);
+    }
   };
 
   const scrollRef = React.useRef<ScrollView>(null);
@@ -234,12 +267,32 @@ export default function CEFRChecker() {
                         <Ionicons name="information-circle-outline" size={20} color="#1976FF" style={{ marginTop: 2 }} />
                         <Text style={styles.explanationText}>{r.explanation}</Text>
                     </View>
+
+                    <TouchableOpacity
+                        onPress={() => router.push({
+                          pathname: '/pronunciation',
+                          params: { text: r.sentence, language: checkLanguage ?? undefined },
+                        })}
+                        style={styles.practiceButton}
+                    >
+                        <Ionicons name="mic-outline" size={16} color="#1976FF" />
+                        <Text style={styles.practiceText}>Practice saying it</Text>
+                    </TouchableOpacity>
                 </View>
               </MotiView>
             ))}
           </View>
         )}
 
+        {result && (verbsLoading || verbsError || verbs.length > 0) && (
+          <VerbList
+            verbs={verbs}
+            loading={verbsLoading}
+            error={verbsError}
+            onSelect={handleVerbSelect}
+          />
+        )}
+
         {loading && (
           <View style={styles.loadingContainer}>
              {[1, 2, 3].map((i) => (
@@ -462,6 +515,18 @@ const styles = StyleSheet.create({
       lineHeight: 20,
       flex: 1,
   },
+  practiceButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      marginTop: 12,
+      gap: 6,
+  },
+  practiceText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: '#1976FF',
+  },
   loadingContainer: {
       marginTop: 20,
   },
@@ -2,6 +2,7 @@
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { TTS } from '@/services/ttsService';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, FlatList, Keyboard, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import Animated, { FadeIn, FadeInUp, Layout } from 'react-native-reanimated';
@@ -11,14 +12,40 @@ import { useFeatureAccess } from '../../hooks/useFeatureAccess';
 import { useLanguageStore } from '../store/useLanguageStore';
 
 import { ChatLanguageSettings } from '@/components/chat/ChatLanguageSettings';
+import { ConversationList } from '@/components/chat/ConversationList';
+import { ScenarioPicker } from '@/components/chat/ScenarioPicker';
+import { getLanguagesWithFeature, supportsFeature } from '@/constants/Languages';
+import { INPUT_LIMITS } from '@/constants/InputLimits';
+import { findMistakeCategory } from '@/constants/Mistakes';
+import { findScenario, isScenarioComplete, TutorScenario } from '@/constants/Scenarios';
 import { translateWithDeepL } from '@/services/deeplService';
 import { useAudioRecorder } from '../../hooks/useAudioRecorder';
-import { ChatMessage, sendMessageToTutor } from '../../services/chatService';
+import { useIsOnline } from '../../hooks/useIsOnline';
+import { OfflineError } from '../../services/network';
+import {
+  ChatMessage,
+  ChatResponse,
+  evaluateScenario,
+  requestSessionReport,
+  ScenarioEvaluation,
+  sendMessageToTutor,
+  streamMessageToTutor,
+  TutorInputError,
+  TutorScenarioState,
+  TutorStreamUnavailableError,
+} from '../../services/chatService';
+import { UsageLimitExceededError } from '../../services/usageService';
+import { Conversation, getPersistableMessages } from '../../services/conversationService';
+import { useChatStore } from '../store/useChatStore';
+import { useSessionReportStore } from '../store/useSessionReportStore';
+import { useVocabularyStore } from '../store/useVocabularyStore';
 
 export default function ChatScreen() {
   const [paywallVisible, setPaywallVisible] = useState(false);
   const { hasFeature, isPremium, isLoading: isFeatureLoading } = useFeatureAccess();
   const { bottom, top } = useSafeAreaInsets();
+  const isOnline = useIsOnline();
+  const router = useRouter();
 
   const backgroundColor = '#F6F7FB';
   const textColor = useThemeColor({}, 'text');
@@ -34,6 +61,97 @@ export default function ChatScreen() {
   const [userLevel, setUserLevel] = useState('intermediate');
   const [langModalVisible, setLangModalVisible] = useState(false);
 
+  // Role-play scenario of the current thread, if any
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const [goalsMet, setGoalsMet] = useState<string[]>([]);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [scenarioPickerVisible, setScenarioPickerVisible] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const addSessionReport = useSessionReportStore(state => state.addReport);
+  const scenario = findScenario(scenarioId);
+
+  // Saved conversations
+  const {
+    conversations,
+    activeConversationId,
+    isSyncing,
+    startConversation,
+    saveConversation,
+    renameConversation,
+    deleteConversation,
+    setActiveConversation,
+    syncConversations,
+  } = useChatStore();
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const { items: vocabularyItems, addItem: addVocabularyItem, hasItem: hasVocabularyItem } = useVocabularyStore();
+  const lastSavedRef = useRef('');
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  const applyConversation = useCallback((conversation: Conversation) => {
+    lastSavedRef.current = JSON.stringify(getPersistableMessages(conversation.messages));
+    setMessages(conversation.messages);
+    setSourceLang(conversation.sourceLang);
+    setTargetLang(conversation.targetLang);
+    setUserLevel(conversation.userLevel);
+    setScenarioId(conversation.scenarioId ?? null);
+    setGoalsMet(conversation.goalsMet ?? []);
+  }, [setSourceLang, setTargetLang]);
+
+  // Resume the last active thread once the local cache has been read
+  useEffect(() => {
+    const restore = () => {
+      const { conversations, activeConversationId } = useChatStore.getState();
+      const active = conversations.find(c => c.id === activeConversationId);
+      if (active) applyConversation(active);
+    };
+    if (useChatStore.persist.hasHydrated()) {
+      restore();
+    }
+    const unsubscribe = useChatStore.persist.onFinishHydration(restore);
+    syncConversations();
+    return unsubscribe;
+  }, [applyConversation, syncConversations]);
+
+  // Save the thread after each completed exchange
+  useEffect(() => {
+    if (isSending || messages.length === 0) return;
+    const signature = JSON.stringify(getPersistableMessages(messages));
+    if (signature === lastSavedRef.current) return;
+    lastSavedRef.current = signature;
+
+    const settings = { targetLang, sourceLang, userLevel, scenarioId, goalsMet };
+    const { activeConversationId, conversations } = useChatStore.getState();
+    const id = conversations.some(c => c.id === activeConversationId)
+      ? activeConversationId!
+      : startConversation(settings).id;
+    saveConversation(id, messages, settings);
+  }, [messages, isSending, targetLang, sourceLang, userLevel, scenarioId, goalsMet, startConversation, saveConversation]);
+
+  const handleNewConversation = () => {
+    TTS.stop();
+    setActiveConversation(null);
+    lastSavedRef.current = '';
+    setMessages([]);
+    setScenarioId(null);
+    setGoalsMet([]);
+    setHistoryVisible(false);
+  };
+
+  const handleSelectConversation = (conversation: Conversation) => {
+    TTS.stop();
+    setActiveConversation(conversation.id);
+    applyConversation(conversation);
+    setHistoryVisible(false);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    deleteConversation(id);
+    if (id === activeConversationId) {
+      lastSavedRef.current = '';
+      setMessages([]);
+    }
+  };
+
   // Audio State
   const { startRecording, stopRecording, isRecording } = useAudioRecorder();
 
@@ -86,9 +204,147 @@ export default function ChatScreen() {
     );
   }
 
+  // The language store is shared with the translator, which offers more languages than the tutor
+  const ensureTutorLanguage = () => {
+    if (supportsFeature(targetLang, 'tutor')) return true;
+    setLangModalVisible(true);
+    return false;
+  };
+
+  // Streams the reply into a placeholder bubble; the plain request is the fallback
+  const requestTutorReply = async (
+    history: ChatMessage[],
+    audioBase64?: string,
+    scenarioState: TutorScenarioState | undefined = scenarioId ? { id: scenarioId, goalsMet } : undefined
+  ): Promise<ChatResponse> => {
+    let receivedReply = false;
+    try {
+      return await streamMessageToTutor(history, targetLang, userLevel, {
+        onTranscript: (text) => {
+          setMessages(prev => prev.map(m => (m.isTranscribing ? { ...m, content: text, isTranscribing: false } : m)));
+        },
+        onReplyDelta: (_delta, replySoFar) => {
+          receivedReply = true;
+          setMessages(prev => {
+            const last = prev[prev.length - 1];
+            if (last?.isStreaming) {
+              return [...prev.slice(0, -1), { ...last, content: replySoFar }];
+            }
+            return [...prev, { role: 'assistant', content: replySoFar, isStreaming: true }];
+          });
+        },
+      }, audioBase64, sourceLang, scenarioState);
+    } catch (err) {
+      if (err instanceof TutorStreamUnavailableError && !receivedReply) {
+        console.warn('Tutor streaming unavailable, retrying without it:', err.message);
+        return sendMessageToTutor(history, targetLang, userLevel, audioBase64, sourceLang, scenarioState);
+      }
+      throw err;
+    }
+  };
+
+  // Ask for the end-of-scenario evaluation of `history` and add it to the thread
+  const endScenario = async (history: ChatMessage[], goals: string[]) => {
+    if (!scenarioId) return;
+    setIsEvaluating(true);
+    try {
+      const evaluation = await evaluateScenario(history, targetLang, userLevel, sourceLang, { id: scenarioId, goalsMet: goals });
+      setMessages(prev => [...prev, { role: 'system', content: evaluation.summary, evaluation }]);
+    } catch (err) {
+      if (err instanceof UsageLimitExceededError) {
+        setPaywallVisible(true);
+      } else if (!(err instanceof OfflineError)) {
+        Alert.alert('Error', 'Failed to evaluate the conversation.');
+        console.error(err);
+      }
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleStartScenario = async (picked: TutorScenario) => {
+    setScenarioPickerVisible(false);
+    if (!ensureTutorLanguage()) return;
+
+    TTS.stop();
+    startConversation({ targetLang, sourceLang, userLevel, scenarioId: picked.id, goalsMet: [] });
+    lastSavedRef.current = '';
+    setMessages([]);
+    setScenarioId(picked.id);
+    setGoalsMet([]);
+    setIsSending(true);
+
+    // The tutor opens the scene
+    try {
+      const response = await requestTutorReply([], undefined, { id: picked.id, goalsMet: [] });
+      showTutorResponse(response, []);
+    } catch (err) {
+      setMessages(prev => prev.filter(m => !m.isStreaming));
+      if (err instanceof UsageLimitExceededError) {
+        setPaywallVisible(true);
+      } else if (!(err instanceof OfflineError)) {
+        Alert.alert('Error', 'Failed to start the scenario.');
+        console.error(err);
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Report on the thread, keep it for later review and start a fresh session
+  const handleFinishSession = async () => {
+    setIsReporting(true);
+    try {
+      const report = await requestSessionReport(messages, targetLang, userLevel, sourceLang);
+      const saved = addSessionReport(report, {
+        conversationId: activeConversation?.id ?? null,
+        title: activeConversation?.title ?? 'Conversation',
+        targetLang,
+        sourceLang,
+      });
+      handleNewConversation();
+      router.push({ pathname: '/session-reports', params: { id: saved.id } });
+    } catch (err) {
+      if (err instanceof UsageLimitExceededError) {
+        setPaywallVisible(true);
+      } else if (!(err instanceof OfflineError)) {
+        Alert.alert('Error', 'Failed to write the session report.');
+        console.error(err);
+      }
+    } finally {
+      setIsReporting(false);
+    }
+  };
+
+  // Swap the streamed bubble for the final reply, then add the correction.
+  // `history` is what was sent, so the scenario can be evaluated as soon as its last goal is met.
+  const showTutorResponse = (response: ChatResponse, history: ChatMessage[]) => {
+    setMessages(prev => {
+      const next: ChatMessage[] = [
+        ...prev.filter(m => !m.isStreaming),
+        { role: 'assistant', content: response.reply },
+      ];
+      if (response.correction) {
+        next.push({ role: 'system', content: JSON.stringify(response.correction) });
+      }
+      return next;
+    });
+
+    TTS.stop();
+    TTS.speak(response.reply, { language: targetLang, isPremium });
+
+    if (scenario && response.scenario) {
+      const wasComplete = isScenarioComplete(scenario, goalsMet);
+      setGoalsMet(response.scenario.goals_met);
+      if (response.scenario.complete && !wasComplete) {
+        endScenario([...history, { role: 'assistant', content: response.reply }], response.scenario.goals_met);
+      }
+    }
+  };
+
   const handleSend = async () => {
     const textToSend = inputText.trim();
-    if (!textToSend) return;
+    if (!textToSend || !ensureTutorLanguage()) return;
 
     const newUserMsg: ChatMessage = { role: 'user', content: textToSend };
     const updatedMessages = [...messages, newUserMsg];
@@ -98,24 +354,21 @@ export default function ChatScreen() {
     setIsSending(true);
 
     try {
-      const response = await sendMessageToTutor(updatedMessages, targetLang, userLevel, undefined, sourceLang);
-
-      const aiMsg: ChatMessage = { role: 'assistant', content: response.reply };
-      const finalMessages = [...updatedMessages, aiMsg];
-      setMessages(finalMessages);
-
-      TTS.stop();
-      TTS.speak(response.reply, { language: targetLang, isPremium });
-
-      if (response.correction) {
-        const correctionMsg: ChatMessage = {
-          role: 'system',
-          content: JSON.stringify(response.correction)
-        };
-        setMessages(prev => [...prev, correctionMsg]);
-      }
-
+      const response = await requestTutorReply(updatedMessages);
+      showTutorResponse(response, updatedMessages);
     } catch (err) {
+      setMessages(prev => prev.filter(m => !m.isStreaming));
+      if (err instanceof UsageLimitExceededError) {
+        setPaywallVisible(true);
+        return;
+      }
+      // Connection dropped or message refused: give it back so it can be sent again
+      if (err instanceof OfflineError || err instanceof TutorInputError) {
+        setMessages(prev => prev.filter(m => m !== newUserMsg));
+        setInputText(textToSend);
+        if (err instanceof TutorInputError) Alert.alert("Message Not Sent", err.message);
+        return;
+      }
       Alert.alert("Error", "Failed to get response from AI Tutor.");
       console.error(err);
     } finally {
@@ -142,34 +395,15 @@ export default function ChatScreen() {
 
         if (result && result.base64) {
           // Send audio to backend
-          const response = await sendMessageToTutor(messages, targetLang, userLevel, result.base64, sourceLang);
+          const response = await requestTutorReply(messages, result.base64);
           console.log('Response from tutor:', response);
 
-          // Update the voice message with transcription
-          setMessages(prev => {
-            const updated = [...prev];
-            const lastIndex = updated.length - 1;
-            if (updated[lastIndex]?.isVoice) {
-              updated[lastIndex] = {
-                ...updated[lastIndex],
-                content: response.user_transcript || '🎤 Voice message',
-                isTranscribing: false
-              };
-            }
-            return updated;
-          });
-
-          // Add AI response
-          const aiMsg: ChatMessage = { role: 'assistant', content: response.reply };
-          setMessages(prev => [...prev, aiMsg]);
-
-          TTS.stop();
-          TTS.speak(response.reply, { language: targetLang, isPremium });
+          // Update the voice message with transcription, unless the stream already did
+          setMessages(prev => prev.map(m => (m.isTranscribing
+            ? { ...m, content: response.user_transcript || '🎤 Voice message', isTranscribing: false }
+            : m)));
 
-          if (response.correction) {
-            const correctionMsg: ChatMessage = { role: 'system', content: JSON.stringify(response.correction) };
-            setMessages(prev => [...prev, correctionMsg]);
-          }
+          showTutorResponse(response, [...messages, { role: 'user', content: response.user_transcript || '' }]);
         } else {
           // Remove the placeholder on error
           setMessages(prev => prev.filter(m => !m.isTranscribing));
@@ -177,13 +411,21 @@ export default function ChatScreen() {
         }
       } catch (err) {
         console.error('Voice message error:', err);
-        // Remove the placeholder on error
-        setMessages(prev => prev.filter(m => !m.isTranscribing));
+        // Remove the placeholders on error
+        setMessages(prev => prev.filter(m => !m.isTranscribing && !m.isStreaming));
+        if (err instanceof UsageLimitExceededError) {
+          setPaywallVisible(true);
+          return;
+        }
+        if (err instanceof OfflineError) {
+          Alert.alert('You Are Offline', 'Voice messages need a connection. Try again once you are back online.');
+          return;
+        }
         Alert.alert('Error', 'Failed to process voice message: ' + (err as Error).message);
       } finally {
         setIsSending(false);
       }
-    } else {
+    } else if (isOnline && ensureTutorLanguage()) {
       await startRecording();
     }
   };
@@ -192,20 +434,43 @@ export default function ChatScreen() {
     const isUser = item.role === 'user';
     const isSystem = item.role === 'system';
 
+    if (isSystem && item.evaluation) {
+      return <EvaluationCard evaluation={item.evaluation} />;
+    }
+
     if (isSystem) {
       let correction;
       try { correction = JSON.parse(item.content); } catch (e) { return null; }
+      const isSaved = hasVocabularyItem(correction.corrected, targetLang);
+      const category = findMistakeCategory(correction.category);
 
       return (
         <Animated.View entering={FadeInUp.duration(400)} style={styles.correctionContainer}>
           <View style={styles.correctionHeader}>
             <Ionicons name="school" size={16} color="#FFD700" />
             <Text style={styles.correctionTitle}>Correction</Text>
+            {category && category.id !== 'other' && (
+              <Text style={styles.correctionCategory}>{category.label}</Text>
+            )}
           </View>
           <Text style={styles.correctionOriginal}>"{correction.original}"</Text>
           <Text style={styles.correctionArrow}>↓</Text>
           <Text style={styles.correctionBetter}>{correction.corrected}</Text>
           <Text style={styles.correctionExplanation}>{correction.explanation}</Text>
+          <TouchableOpacity
+            style={styles.correctionSave}
+            disabled={isSaved}
+            onPress={() => addVocabularyItem({
+              term: correction.corrected,
+              language: targetLang,
+              sourceLang,
+              context: `"${correction.original}" → ${correction.explanation}`,
+              source: 'correction',
+            })}
+          >
+            <Ionicons name={isSaved ? 'bookmark' : 'bookmark-outline'} size={14} color="#F57F17" />
+            <Text style={styles.correctionSaveText}>{isSaved ? 'Saved to deck' : 'Save to deck'}</Text>
+          </TouchableOpacity>
         </Animated.View>
       );
     }
@@ -242,7 +507,7 @@ export default function ChatScreen() {
       const originalIndex = messages.length - 1 - messageIndex;
       const msg = messages[originalIndex];
 
-      if (msg.role !== 'assistant' || msg.isTranslating) return;
+      if (msg.role !== 'assistant' || msg.isTranslating || msg.isStreaming) return;
 
       // If already has cached translation, toggle visibility
       if (msg.cachedTranslation) {
@@ -313,7 +578,7 @@ export default function ChatScreen() {
           )}
 
           {/* Bottom row with speaker and translate hint */}
-          {!isUser && (
+          {!isUser && !item.isStreaming && (
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 8 }}>
               <TouchableOpacity
                 onPress={(e) => { e.stopPropagation(); TTS.speak(item.content, { language: targetLang, isPremium }); }}
@@ -336,7 +601,7 @@ export default function ChatScreen() {
         </Animated.View>
       </Pressable>
     );
-  }, [messages, targetLang, sourceLang, textColor, tintColor, userBubbleColor, aiBubbleColor]);
+  }, [messages, targetLang, sourceLang, textColor, tintColor, userBubbleColor, aiBubbleColor, vocabularyItems, addVocabularyItem, hasVocabularyItem]);
 
   return (
     <KeyboardAvoidingView
@@ -352,20 +617,81 @@ export default function ChatScreen() {
         targetLang={targetLang}
         setSourceLang={setSourceLang}
         setTargetLang={setTargetLang}
-        languages={[
-          { code: 'en', name: 'English' },
-          { code: 'es', name: 'Spanish' },
-          { code: 'fr', name: 'French' },
-          { code: 'de', name: 'German' },
-          { code: 'it', name: 'Italian' },
-          { code: 'pt', name: 'Portuguese' },
-          { code: 'ru', name: 'Russian' },
-          { code: 'ja', name: 'Japanese' },
-          { code: 'ko', name: 'Korean' },
-          { code: 'zh', name: 'Chinese' },
-        ]}
+        languages={getLanguagesWithFeature('tutor')}
       />
 
+      <Paywall visible={paywallVisible} onClose={() => setPaywallVisible(false)} feature="AI Chat Tutor" />
+
+      <ScenarioPicker
+        visible={scenarioPickerVisible}
+        onClose={() => setScenarioPickerVisible(false)}
+        activeScenarioId={scenarioId}
+        onSelect={handleStartScenario}
+      />
+
+      <ConversationList
+        visible={historyVisible}
+        onClose={() => setHistoryVisible(false)}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        isSyncing={isSyncing}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onRename={renameConversation}
+        onDelete={handleDeleteConversation}
+      />
+
+      <View style={styles.threadBar}>
+        <TouchableOpacity style={styles.threadTitleButton} onPress={() => setHistoryVisible(true)}>
+          <Ionicons name="time-outline" size={18} color={tintColor} />
+          <Text style={[styles.threadTitle, { color: textColor }]} numberOfLines={1}>
+            {messages.length > 0 && activeConversation ? activeConversation.title : 'New conversation'}
+          </Text>
+          <Ionicons name="chevron-down" size={16} color={textColor + '60'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleFinishSession}
+          style={styles.threadAction}
+          disabled={isSending || isEvaluating || isReporting || !isOnline || !messages.some(m => m.role === 'user')}
+        >
+          <Ionicons name="flag-outline" size={22} color={tintColor} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setScenarioPickerVisible(true)} style={styles.threadAction} disabled={isSending || isEvaluating || isReporting}>
+          <Ionicons name="people-outline" size={22} color={tintColor} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleNewConversation} style={styles.threadAction} disabled={isSending}>
+          <Ionicons name="create-outline" size={22} color={tintColor} />
+        </TouchableOpacity>
+      </View>
+
+      {scenario && (
+        <View style={styles.scenarioBanner}>
+          <View style={styles.scenarioHeader}>
+            <Text style={styles.scenarioTitle} numberOfLines={1}>{scenario.title}</Text>
+            {!messages[messages.length - 1]?.evaluation && (
+              <TouchableOpacity
+                onPress={() => endScenario(messages, goalsMet)}
+                disabled={isSending || isEvaluating || !isOnline || !messages.some(m => m.role === 'user')}
+                style={styles.scenarioEnd}
+              >
+                <Text style={styles.scenarioEndText}>End</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.scenarioGoals}>
+            {scenario.goals.map(goal => {
+              const isMet = goalsMet.includes(goal.id);
+              return (
+                <View key={goal.id} style={styles.scenarioGoal}>
+                  <Ionicons name={isMet ? 'checkmark-circle' : 'ellipse-outline'} size={14} color={isMet ? '#43B581' : '#A0A0A0'} />
+                  <Text style={[styles.scenarioGoalText, isMet && styles.scenarioGoalMet]}>{goal.description}</Text>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       <FlatList
         ref={flatListRef}
         data={[...messages].reverse()}
@@ -383,10 +709,14 @@ export default function ChatScreen() {
           </View>
         }
         ListHeaderComponent={
-          isSending ? (
+          (isSending && !messages.some(m => m.isStreaming)) || isEvaluating || isReporting ? (
             <Animated.View entering={FadeIn} style={[styles.bubble, { backgroundColor: '#E6F0FF', alignSelf: 'flex-start', flexDirection: 'row', alignItems: 'center', gap: 8 }]}>
               <ActivityIndicator size="small" color={tintColor} />
-              <Text style={{ color: textColor, fontStyle: 'italic', fontSize: 14 }}>Thinking...</Text>
+              <Text style={{ color: textColor, fontStyle: 'italic', fontSize: 14 }}>
+                {isReporting
+                  ? 'Writing your session report...'
+                  : isEvaluating ? 'Reviewing your conversation...' : 'Thinking...'}
+              </Text>
             </Animated.View>
           ) : null
         }
@@ -395,10 +725,11 @@ export default function ChatScreen() {
       <View style={[styles.inputContainer, { backgroundColor, paddingBottom: isKeyboardOpen ? 24 : bottom + 65 }]}>
         <TextInput
           style={[styles.input, { backgroundColor: textColor + '10', color: textColor }]}
-          placeholder="Type a message..."
+          placeholder={isOnline ? 'Type a message...' : 'Offline – the tutor needs a connection'}
           placeholderTextColor={textColor + '50'}
           value={inputText}
           onChangeText={setInputText}
+          maxLength={INPUT_LIMITS.chatMessage.maxLength}
           multiline
         />
 
@@ -419,15 +750,20 @@ export default function ChatScreen() {
         </TouchableOpacity>
 
         {inputText.length > 0 ? (
-          <TouchableOpacity onPress={handleSend} disabled={isSending} style={[styles.sendButton, { backgroundColor: tintColor }]}>
+          <TouchableOpacity
+            onPress={handleSend}
+            disabled={isSending || !isOnline}
+            style={[styles.sendButton, { backgroundColor: tintColor, opacity: isOnline ? 1 : 0.5 }]}
+          >
             {isSending ? <ActivityIndicator color="#fff" size="small" /> : <Ionicons name="arrow-up" size={24} color="#fff" />}
           </TouchableOpacity>
         ) : (
           <TouchableOpacity
             onPress={handleMicPress}
+            disabled={!isOnline && !isRecording}
             style={[
               styles.micButton,
-              { backgroundColor: isRecording ? '#FF4D4F' : tintColor + '20' }
+              { backgroundColor: isRecording ? '#FF4D4F' : tintColor + '20', opacity: isOnline || isRecording ? 1 : 0.5 }
             ]}
           >
             <Ionicons name={isRecording ? "stop" : "mic"} size={24} color={isRecording ? "#fff" : tintColor} />
@@ -438,9 +774,58 @@ export default function ChatScreen() {
   );
 }
 
+// End-of-scenario review, stored in the thread as a system message
+const EvaluationCard = ({ evaluation }: { evaluation: ScenarioEvaluation }) => (
+  <Animated.View entering={FadeInUp.duration(400)} style={styles.evaluationContainer}>
+    <View style={styles.correctionHeader}>
+      <Ionicons name="ribbon" size={16} color="#1976FF" />
+      <Text style={styles.evaluationTitle}>Scenario review</Text>
+      <View style={styles.evaluationStars}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <Ionicons key={star} name={star <= evaluation.rating ? 'star' : 'star-outline'} size={14} color="#F5A623" />
+        ))}
+      </View>
+    </View>
+    <Text style={styles.evaluationSummary}>{evaluation.summary}</Text>
+    {evaluation.strengths.map((strength, i) => (
+      <View key={`s-${i}`} style={styles.evaluationPoint}>
+        <Ionicons name="checkmark-circle" size={16} color="#43B581" />
+        <Text style={styles.evaluationPointText}>{strength}</Text>
+      </View>
+    ))}
+    {evaluation.improvements.map((improvement, i) => (
+      <View key={`i-${i}`} style={styles.evaluationPoint}>
+        <Ionicons name="arrow-up-circle" size={16} color="#F5A623" />
+        <Text style={styles.evaluationPointText}>{improvement}</Text>
+      </View>
+    ))}
+  </Animated.View>
+);
+
 const styles = StyleSheet.create({
   container: { flex: 1 },
   flatList: { flex: 1 },
+  threadBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  threadTitleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  threadTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  threadAction: {
+    padding: 4,
+  },
   loadingText: { marginTop: 100, textAlign: 'center' },
 
   premiumRequiredContainer: {
@@ -529,10 +914,47 @@ const styles = StyleSheet.create({
   },
   correctionHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 6, gap: 6 },
   correctionTitle: { fontWeight: 'bold', color: '#F57F17', fontSize: 12, textTransform: 'uppercase' },
+  correctionCategory: { marginLeft: 'auto', fontSize: 11, fontWeight: '600', color: '#F57F17', opacity: 0.8 },
   correctionOriginal: { textDecorationLine: 'line-through', color: '#555', fontStyle: 'italic' },
   correctionArrow: { textAlign: 'center', fontSize: 16, color: '#F57F17', marginVertical: 2 },
   correctionBetter: { fontWeight: 'bold', color: '#000' },
   correctionExplanation: { marginTop: 4, fontSize: 12, color: '#666', flexWrap: 'wrap' },
+  correctionSave: { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-end', gap: 4, marginTop: 8 },
+  correctionSaveText: { fontSize: 12, fontWeight: '600', color: '#F57F17' },
+
+  evaluationContainer: {
+    alignSelf: 'center',
+    backgroundColor: '#F0F7FF',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    width: '90%',
+    borderWidth: 1,
+    borderColor: '#1976FF40',
+  },
+  evaluationTitle: { fontWeight: 'bold', color: '#1976FF', fontSize: 12, textTransform: 'uppercase', flex: 1 },
+  evaluationStars: { flexDirection: 'row', gap: 2 },
+  evaluationSummary: { fontSize: 14, color: '#11181C', lineHeight: 20, marginBottom: 6 },
+  evaluationPoint: { flexDirection: 'row', alignItems: 'flex-start', gap: 6, marginTop: 4 },
+  evaluationPointText: { flex: 1, fontSize: 13, color: '#333', lineHeight: 18 },
+
+  scenarioBanner: {
+    marginHorizontal: 16,
+    marginBottom: 4,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E6F0FF',
+  },
+  scenarioHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 },
+  scenarioTitle: { flex: 1, fontSize: 14, fontWeight: '700', color: '#11181C' },
+  scenarioEnd: { paddingHorizontal: 12, paddingVertical: 4, borderRadius: 10, backgroundColor: '#E6F0FF' },
+  scenarioEndText: { fontSize: 13, fontWeight: '600', color: '#1976FF' },
+  scenarioGoals: { gap: 3 },
+  scenarioGoal: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  scenarioGoalText: { fontSize: 12, color: '#687076' },
+  scenarioGoalMet: { color: '#43B581', textDecorationLine: 'line-through' },
 
   inputContainer: {
     flexDirection: 'row',
@@ -12,24 +12,17 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { INPUT_LIMITS } from '../../constants/InputLimits';
+import { findLanguage, getLanguagesWithFeature, supportsFeature } from '../../constants/Languages';
 import { Paywall } from '../../components/subscription/Paywall';
 import { useFeatureAccess } from '../../hooks/useFeatureAccess';
+import { describeSuggestion, suggestLevelChange } from '../../utils/storyProgress';
 import { useLanguageStore } from '../store/useLanguageStore';
+import { useStoryLibraryStore } from '../store/useStoryLibraryStore';
 
 const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
 
-const languages = [
-    { code: 'en', name: 'English' },
-    { code: 'es', name: 'Spanish' },
-    { code: 'fr', name: 'French' },
-    { code: 'de', name: 'German' },
-    { code: 'it', name: 'Italian' },
-    { code: 'pt', name: 'Portuguese' },
-    { code: 'ru', name: 'Russian' },
-    { code: 'ja', name: 'Japanese' },
-    { code: 'ko', name: 'Korean' },
-    { code: 'zh', name: 'Chinese' },
-];
+const languages = getLanguagesWithFeature('story');
 
 export default function StoryModeScreen() {
     const router = useRouter();
@@ -42,6 +35,8 @@ export default function StoryModeScreen() {
     const [paywallVisible, setPaywallVisible] = useState(false);
 
     const [useAiTopic, setUseAiTopic] = useState(false);
+    const stories = useStoryLibraryStore(state => state.stories);
+    const levelSuggestion = suggestLevelChange(stories, targetLang, cefrLevel);
 
     const canUseStoryMode = hasFeature('story_mode');
 
@@ -74,6 +69,11 @@ export default function StoryModeScreen() {
         if (!topic.trim() && !useAiTopic) {
             return;
         }
+        // The shared language store may hold a translator-only language
+        if (!supportsFeature(targetLang, 'story')) {
+            openLanguageModal('target');
+            return;
+        }
         router.push({
             pathname: '/story',
             params: {
@@ -86,7 +86,7 @@ export default function StoryModeScreen() {
     };
 
     const getLanguageName = (code: string) => {
-        return languages.find(l => l.code === code)?.name || code.toUpperCase();
+        return findLanguage(code)?.name || code.toUpperCase();
     };
 
     // Show premium required screen for non-premium users
@@ -124,6 +124,17 @@ export default function StoryModeScreen() {
                 contentContainerStyle={styles.scrollContent}
                 keyboardShouldPersistTaps="handled"
             >
+                <TouchableOpacity
+                    style={styles.libraryButton}
+                    onPress={() => router.push('/story/library')}
+                >
+                    <Ionicons name="library-outline" size={20} color="#1976FF" />
+                    <Text style={styles.libraryButtonText}>My Stories</Text>
+                    {stories.length > 0 && (
+                        <Text style={styles.libraryCount}>{stories.length}</Text>
+                    )}
+                    <Ionicons name="chevron-forward" size={18} color="#687076" />
+                </TouchableOpacity>
 
                 {/* Language Selection */}
                 <View style={styles.section}>
@@ -173,6 +184,14 @@ export default function StoryModeScreen() {
                             </TouchableOpacity>
                         ))}
                     </View>
+                    {levelSuggestion && (
+                        <View style={styles.suggestionBox}>
+                            <Text style={styles.suggestionText}>{describeSuggestion(levelSuggestion)}</Text>
+                            <TouchableOpacity onPress={() => setCefrLevel(levelSuggestion.to)}>
+                                <Text style={styles.suggestionAction}>Switch to {levelSuggestion.to}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
                 </View>
 
                 {/* Topic Input */}
@@ -190,6 +209,7 @@ export default function StoryModeScreen() {
                         placeholderTextColor="#A0A0A0"
                         value={topic}
                         onChangeText={handleTopicChange}
+                        maxLength={INPUT_LIMITS.storyTopic.maxLength}
                         multiline
                         numberOfLines={3}
                     />
@@ -269,6 +289,47 @@ const styles = StyleSheet.create({
     section: {
         marginBottom: 24,
     },
+    libraryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        padding: 16,
+        borderRadius: 16,
+        marginBottom: 24,
+        gap: 10,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    libraryButtonText: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#11181C',
+    },
+    libraryCount: {
+        fontSize: 14,
+        color: '#687076',
+    },
+    suggestionBox: {
+        backgroundColor: '#E6F0FF',
+        borderRadius: 12,
+        padding: 14,
+        marginTop: 12,
+    },
+    suggestionText: {
+        fontSize: 14,
+        color: '#11181C',
+        lineHeight: 20,
+        marginBottom: 8,
+    },
+    suggestionAction: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#1976FF',
+    },
     sectionTitle: {
         fontSize: 16,
         fontWeight: '700',
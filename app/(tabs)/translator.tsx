@@ -1,8 +1,10 @@
+import { getLanguagesWithFeature, supportsFeature } from '@/constants/Languages';
 import { DeepLTranslationError, translateWithDeepL } from '@/services/deeplService';
+import { OfflineError } from '@/services/network';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { MotiView } from 'moti';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Alert,
   ScrollView,
@@ -12,18 +14,21 @@ import {
   View,
 } from 'react-native';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import { useRouter } from 'expo-router';
 import { InputCard } from '../../components/translator/InputCard';
 import { LanguageSelector } from '../../components/translator/LanguageSelector';
 import { TranslationCard } from '../../components/translator/TranslationCard';
 import { useLanguageStore } from '../store/useLanguageStore';
+import { useTranslationHistoryStore } from '../store/useTranslationHistoryStore';
+import { useVocabularyStore } from '../store/useVocabularyStore';
 
 // Usage tracking imports
 import { fetchTranslationFeatures } from '@/services/translatorFeatures';
 import { Paywall } from '../../components/subscription/Paywall';
 import { UsageWarningBanner } from '../../components/subscription/UsageQuotaDisplay';
 import { useFeatureAccess } from '../../hooks/useFeatureAccess';
-import { checkAndLogUsage, UsageLimitExceededError } from '../../services/usageService';
-import { supabase } from '../../utils/supabase';
+import { useGuestNudge } from '../../hooks/useGuestNudge';
+import { UsageLimitExceededError } from '../../services/usageService';
 
 export default function TranslatorScreen() {
   const [inputText, setInputText] = useState('');
@@ -52,19 +57,26 @@ export default function TranslatorScreen() {
 
   const [paywallVisible, setPaywallVisible] = useState(false);
   const { canPerformAction, isPremium } = useFeatureAccess();
-
-  const languages = [
-    { code: 'en', name: 'English' },
-    { code: 'es', name: 'Spanish' },
-    { code: 'fr', name: 'French' },
-    { code: 'de', name: 'German' },
-    { code: 'it', name: 'Italian' },
-    { code: 'pt', name: 'Portuguese' },
-    { code: 'ru', name: 'Russian' },
-    { code: 'ja', name: 'Japanese' },
-    { code: 'ko', name: 'Korean' },
-    { code: 'zh', name: 'Chinese' },
-  ];
+  const nudgeGuest = useGuestNudge();
+  const { addItem, hasItem } = useVocabularyStore();
+  const router = useRouter();
+
+  // History: the entry on screen, and restores picked in the history screen
+  const {
+    entries: historyEntries,
+    pendingRestore,
+    recordTranslation,
+    findTranslation,
+    setFeatures: setHistoryFeatures,
+    toggleFavorite,
+    clearPendingRestore,
+  } = useTranslationHistoryStore();
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const currentEntry = historyEntries.find(e => e.id === currentEntryId);
+  // Set while a restored entry's text is put back, so it is not translated (and metered) again
+  const skipTranslateRef = useRef(false);
+
+  const languages = getLanguagesWithFeature('translation');
 
   // Preferences handled by useLanguageStore logic
 
@@ -78,9 +90,32 @@ export default function TranslatorScreen() {
   }, []);
 
   useEffect(() => {
+    if (skipTranslateRef.current) {
+      skipTranslateRef.current = false;
+      return;
+    }
     if (inputText.trim() !== '') handleTranslate();
   }, [inputText]);
 
+  useEffect(() => {
+    if (!pendingRestore) return;
+    const entry = pendingRestore;
+    clearPendingRestore();
+
+    skipTranslateRef.current = entry.inputText !== inputText;
+    setSourceLang(entry.sourceLang);
+    setTargetLang(entry.targetLang);
+    setInputText(entry.inputText);
+    setDraftInputText(entry.inputText);
+    setTranslatedText(entry.outputText);
+    setFeatures(entry.features ?? {});
+    setIsLoading(false);
+    setFeaturesLoading(false);
+    setError(null);
+    setActiveTab('examples');
+    setCurrentEntryId(entry.id);
+  }, [pendingRestore, clearPendingRestore, inputText, setSourceLang, setTargetLang]);
+
   const handleTranslate = async () => {
     if (!inputText.trim() || !sourceLang || !targetLang) return;
 
@@ -88,25 +123,17 @@ export default function TranslatorScreen() {
       setPaywallVisible(true);
       return;
     }
+    nudgeGuest();
 
     setIsLoading(true);
     setFeaturesLoading(true);
     setError(null);
     setTranslatedText('');
     setFeatures({});
+    setCurrentEntryId(null);
 
     try {
-      if (!isPremium) {
-        const { data: userData } = await supabase.auth.getUser();
-        if (userData.user) {
-          await checkAndLogUsage(userData.user.id, 'translation', {
-            sourceLang,
-            targetLang,
-            textLength: inputText.length,
-          });
-        }
-      }
-
+      // Usage is logged (and enforced) by the translate edge function
       const result = await translateWithDeepL({
         text: inputText,
         sourceLanguage: sourceLang,
@@ -116,14 +143,23 @@ export default function TranslatorScreen() {
       setTranslatedText(result.translatedText);
       setIsLoading(false);
 
+      const entryId = recordTranslation({
+        inputText,
+        outputText: result.translatedText,
+        sourceLang,
+        targetLang,
+        detectedSourceLang: result.detectedSourceLanguage,
+      });
+      setCurrentEntryId(entryId);
+
       try {
         const featureData = await fetchTranslationFeatures(
           result.translatedText,
           sourceLang,
-          targetLang,
-          isPremium
+          targetLang
         );
         setFeatures(featureData);
+        setHistoryFeatures(entryId, featureData);
       } catch (err) {
         console.error("Failed to load features", err);
       } finally {
@@ -140,6 +176,19 @@ export default function TranslatorScreen() {
         return;
       }
 
+      // Offline: show the saved translation if this text was translated before
+      if (error instanceof OfflineError) {
+        const saved = findTranslation(inputText, sourceLang, targetLang);
+        if (saved) {
+          setTranslatedText(saved.outputText);
+          setFeatures(saved.features ?? {});
+          setCurrentEntryId(saved.id);
+        } else {
+          setError(error.message);
+        }
+        return;
+      }
+
       if (error instanceof DeepLTranslationError) {
         setError(error.message);
         Alert.alert('Translation Error', error.message);
@@ -181,6 +230,18 @@ export default function TranslatorScreen() {
     closeLanguageModal();
   };
 
+  const saveToDeck = (term: string, source: 'translation' | 'synonym', context?: string) => {
+    if (!targetLang) return;
+    addItem({
+      term,
+      translation: inputText,
+      language: targetLang,
+      sourceLang,
+      context,
+      source,
+    });
+  };
+
   const handleNewTranslation = () => {
     setInputText('');
     setDraftInputText('');
@@ -190,6 +251,7 @@ export default function TranslatorScreen() {
     setCopiedOutput(false);
     setFeatures({});
     setActiveTab('examples');
+    setCurrentEntryId(null);
     setTimeout(() => {
       scrollRef?.current?.scrollTo({ y: 0, animated: true });
     }, 100);
@@ -218,6 +280,13 @@ export default function TranslatorScreen() {
           />
         )}
 
+        <View style={styles.historyRow}>
+          <TouchableOpacity onPress={() => router.push('/translation-history')} style={styles.historyButton}>
+            <Ionicons name="time-outline" size={18} color="#1976FF" />
+            <Text style={styles.historyButtonText}>History</Text>
+          </TouchableOpacity>
+        </View>
+
         <LanguageSelector
           sourceLang={sourceLang}
           targetLang={targetLang}
@@ -255,6 +324,13 @@ export default function TranslatorScreen() {
             pronunciation={features.pronunciation}
             meaning={features.meaning}
             isPremium={isPremium}
+            isSaved={!!targetLang && hasItem(translatedText, targetLang)}
+            onSaveToDeck={() => saveToDeck(translatedText, 'translation')}
+            isFavorite={!!currentEntry?.isFavorite}
+            onToggleFavorite={currentEntry ? () => toggleFavorite(currentEntry) : undefined}
+            onPractice={supportsFeature(targetLang, 'pronunciation')
+              ? () => router.push({ pathname: '/pronunciation', params: { text: translatedText, language: targetLang! } })
+              : undefined}
           />
         )}
 
@@ -322,12 +398,28 @@ export default function TranslatorScreen() {
                     )}
 
                     {activeTab === 'synonyms' && (
-                      features.synonyms?.length ? features.synonyms.map((item, i) => (
-                        <View key={i} style={styles.listItem}>
-                          <Text style={styles.listTitle}>{item.word}</Text>
-                          <Text style={[styles.listSubtitle, { fontStyle: 'italic' }]}>{item.nuance}</Text>
-                        </View>
-                      )) : <Text style={styles.emptyText}>No synonyms available.</Text>
+                      features.synonyms?.length ? features.synonyms.map((item, i) => {
+                        const saved = !!targetLang && hasItem(item.word, targetLang);
+                        return (
+                          <View key={i} style={[styles.listItem, styles.listItemRow]}>
+                            <View style={{ flex: 1 }}>
+                              <Text style={styles.listTitle}>{item.word}</Text>
+                              <Text style={[styles.listSubtitle, { fontStyle: 'italic' }]}>{item.nuance}</Text>
+                            </View>
+                            <TouchableOpacity
+                              onPress={() => saveToDeck(item.word, 'synonym', item.nuance)}
+                              disabled={saved}
+                              style={styles.saveIcon}
+                            >
+                              <Ionicons
+                                name={saved ? 'bookmark' : 'bookmark-outline'}
+                                size={20}
+                                color={saved ? '#1976FF' : '#666'}
+                              />
+                            </TouchableOpacity>
+                          </View>
+                        );
+                      }) : <Text style={styles.emptyText}>No synonyms available.</Text>
                     )}
 
                     {activeTab === 'tone' && (
@@ -371,6 +463,26 @@ const styles = StyleSheet.create({
     paddingTop: 16,
     paddingBottom: 100,
   },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#E6F0FF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  historyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1976FF',
+  },
   detailsContainer: {
     marginTop: 8,
     marginHorizontal: 16,
@@ -465,6 +577,14 @@ const styles = StyleSheet.create({
     borderBottomColor: '#f0f0f0',
     paddingBottom: 16,
   },
+  listItemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  saveIcon: {
+    padding: 8,
+    marginLeft: 8,
+  },
   listTitle: {
     fontSize: 16,
     fontWeight: '600',
@@ -12,18 +12,36 @@ import {
   Image,
 } from 'react-native';
 import { supabase } from '../utils/supabase';
+import { checkPassword } from '../utils/password';
+import {
+  authRedirectUrl,
+  OAuthProvider,
+  sendMagicLink,
+  sendPasswordReset,
+  signInWithOAuth,
+} from '../services/authService';
 import Animated, { FadeInUp } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { MotiView } from 'moti';
 
+// 'reset' and 'magicLink' only ask for an email and send a link to it
+type Mode = 'signIn' | 'signUp' | 'reset' | 'magicLink';
+
+const SUBTITLES: Record<Mode, string> = {
+  signIn: 'Welcome Back',
+  signUp: 'Create Account',
+  reset: 'Reset Password',
+  magicLink: 'Sign In by Email',
+};
+
 export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [mode, setMode] = useState<Mode>('signIn');
   const [showPassword, setShowPassword] = useState(false);
 
   // Password validation state
@@ -38,13 +56,7 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
   const [passwordTouched, setPasswordTouched] = useState(false);
 
   useEffect(() => {
-    setPasswordValid({
-      length: password.length >= 8,
-      upper: /[A-Z]/.test(password),
-      lower: /[a-z]/.test(password),
-      digit: /[0-9]/.test(password),
-      special: /[^A-Za-z0-9]/.test(password),
-    });
+    setPasswordValid(checkPassword(password));
   }, [password]);
 
   const handleAuth = async () => {
@@ -71,7 +83,11 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
           return;
         }
       }
-      result = await supabase.auth.signUp({ email, password });
+      result = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: authRedirectUrl() },
+      });
       setLoading(false);
       if (result.error) {
         Alert.alert('Sign Up Failed', result.error.message);
@@ -83,6 +99,43 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
     }
   };
 
+  const handleSendLink = async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return;
+    }
+    setLoading(true);
+    try {
+      if (mode === 'reset') {
+        await sendPasswordReset(email);
+        Alert.alert('Check Your Email', 'We sent you a link to choose a new password.');
+      } else {
+        await sendMagicLink(email);
+        Alert.alert('Check Your Email', 'We sent you a link that signs you in.');
+      }
+      setMode('signIn');
+    } catch (error) {
+      Alert.alert('Could Not Send Link', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOAuth = async (provider: OAuthProvider) => {
+    setLoading(true);
+    try {
+      if (await signInWithOAuth(provider)) {
+        onLogin();
+      }
+    } catch (error) {
+      Alert.alert('Sign In Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sendsLink = mode === 'reset' || mode === 'magicLink';
+
   const handleGuest = async () => {
     setLoading(true);
     const result = await supabase.auth.signInAnonymously();
@@ -125,7 +178,7 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
               </View>
               <Text style={styles.appName}>Lingua Facile</Text>
               <Text style={styles.subtitle}>
-                {mode === 'signIn' ? 'Welcome Back' : 'Create Account'}
+                {SUBTITLES[mode]}
               </Text>
             </View>
 
@@ -143,20 +196,28 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
                 />
               </View>
 
-              <View style={styles.inputContainer}>
-                <Ionicons name="lock-closed-outline" size={20} color="#666" style={styles.inputIcon} />
-                <TextInput
-                  style={styles.input}
-                  placeholder="Password"
-                  placeholderTextColor="#999"
-                  secureTextEntry={!showPassword}
-                  value={password}
-                  onChangeText={(t) => { setPassword(t); setPasswordTouched(true); }}
-                />
-                <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
-                  <Ionicons name={showPassword ? 'eye-off-outline' : 'eye-outline'} size={20} color="#666" />
+              {!sendsLink && (
+                <View style={styles.inputContainer}>
+                  <Ionicons name="lock-closed-outline" size={20} color="#666" style={styles.inputIcon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Password"
+                    placeholderTextColor="#999"
+                    secureTextEntry={!showPassword}
+                    value={password}
+                    onChangeText={(t) => { setPassword(t); setPasswordTouched(true); }}
+                  />
+                  <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
+                    <Ionicons name={showPassword ? 'eye-off-outline' : 'eye-outline'} size={20} color="#666" />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {mode === 'signIn' && (
+                <TouchableOpacity style={styles.forgotButton} onPress={() => setMode('reset')}>
+                  <Text style={styles.linkText}>Forgot password?</Text>
                 </TouchableOpacity>
-              </View>
+              )}
 
               {/* Password Requirements */}
               {mode === 'signUp' && (
@@ -199,18 +260,48 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
 
               <TouchableOpacity
                 style={styles.primaryButton}
-                onPress={handleAuth}
+                onPress={sendsLink ? handleSendLink : handleAuth}
                 disabled={loading}
               >
                 {loading ? (
                   <ActivityIndicator color="#fff" />
                 ) : (
                   <Text style={styles.primaryButtonText}>
-                    {mode === 'signIn' ? 'Sign In' : 'Sign Up'}
+                    {mode === 'signIn' ? 'Sign In'
+                      : mode === 'signUp' ? 'Sign Up'
+                      : mode === 'reset' ? 'Send Reset Link'
+                      : 'Send Sign-In Link'}
                   </Text>
                 )}
               </TouchableOpacity>
 
+              {mode === 'signIn' && (
+                <TouchableOpacity style={styles.magicLinkButton} onPress={() => setMode('magicLink')} disabled={loading}>
+                  <Text style={styles.linkText}>Email me a sign-in link instead</Text>
+                </TouchableOpacity>
+              )}
+
+              {!sendsLink && (
+                <View style={styles.socialRow}>
+                  <TouchableOpacity
+                    style={styles.socialButton}
+                    onPress={() => handleOAuth('google')}
+                    disabled={loading}
+                  >
+                    <Ionicons name="logo-google" size={20} color="#1a1a1a" />
+                    <Text style={styles.socialButtonText}>Google</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.socialButton}
+                    onPress={() => handleOAuth('apple')}
+                    disabled={loading}
+                  >
+                    <Ionicons name="logo-apple" size={20} color="#1a1a1a" />
+                    <Text style={styles.socialButtonText}>Apple</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               <TouchableOpacity
                 style={styles.secondaryButton}
                 onPress={handleGuest}
@@ -221,7 +312,7 @@ export default function LoginScreen({ onLogin }: { onLogin: () => void }) {
 
               <View style={styles.switchContainer}>
                 <Text style={styles.switchText}>
-                  {mode === 'signIn' ? "Don't have an account?" : "Already have an account?"}
+                  {mode === 'signIn' ? "Don't have an account?" : sendsLink ? 'Remembered your password?' : "Already have an account?"}
                 </Text>
                 <TouchableOpacity onPress={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}>
                   <Text style={styles.switchAction}>
@@ -396,6 +487,45 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700',
   },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  magicLinkButton: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  linkText: {
+    color: '#1976FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  socialRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  socialButton: {
+    flex: 1,
+    flexDirection: 'row',
+    height: 56,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  socialButtonText: {
+    color: '#1a1a1a',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   secondaryButton: {
     height: 56,
     borderRadius: 16,
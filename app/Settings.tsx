@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -18,13 +18,25 @@ import { supabase } from '../utils/supabase';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useRouter, useNavigation } from 'expo-router';
+import { useLocalSearchParams, useRouter, useNavigation } from 'expo-router';
 
 // Subscription imports
 import { useSubscriptionStore } from './store/useSubscriptionStore';
 import { useUsageStore } from './store/useUsageStore';
+import { useChatStore } from './store/useChatStore';
+import { useLanguageStore } from './store/useLanguageStore';
+import { useSessionReportStore } from './store/useSessionReportStore';
+import { useStoryLibraryStore } from './store/useStoryLibraryStore';
+import { useTranslationHistoryStore } from './store/useTranslationHistoryStore';
+import { NEW_CARDS_PER_DAY, useVocabularyStore } from './store/useVocabularyStore';
 import { restorePurchases, logOutRevenueCat } from '../services/revenuecatService';
+import { clearAudioCache } from '../services/ttsAudioCache';
+import { resetPreferencesSync } from '../services/preferencesSync';
+import { clearOfflineQueue, flushQueue } from '../services/offlineQueue';
+import { clearResponseCache } from '../services/responseCache';
 import { Paywall } from '../components/subscription/Paywall';
+import { SaveProgressModal } from '../components/account/SaveProgressModal';
+import { buildReviewQueue } from '../utils/srs';
 
 const THEME_OPTIONS = [
   { value: 'system', label: 'System' },
@@ -43,13 +55,19 @@ export default function Settings() {
   const theme = Colors[colorScheme ?? 'light'];
   const router = useRouter();
   const navigation = useNavigation();
+  // Set by the guest nudge to open the save-progress flow straight away
+  const { saveProgress } = useLocalSearchParams<{ saveProgress?: string }>();
 
   // Subscription state
   const [paywallVisible, setPaywallVisible] = useState(false);
+  const [saveProgressVisible, setSaveProgressVisible] = useState(saveProgress === '1');
   const [cefrModalVisible, setCefrModalVisible] = useState(false);
   const [themeModalVisible, setThemeModalVisible] = useState(false);
   const [restoringPurchases, setRestoringPurchases] = useState(false);
   const { isPremium, expiresAt } = useSubscriptionStore();
+  const targetLang = useLanguageStore(state => state.targetLang);
+  const vocabularyItems = useVocabularyStore(state => state.items);
+  const reviewCount = buildReviewQueue(vocabularyItems, NEW_CARDS_PER_DAY).length;
 
   // Configure navigation header
   useEffect(() => {
@@ -64,17 +82,18 @@ export default function Settings() {
     }
   }, [navigation]);
 
+  const fetchUser = useCallback(async () => {
+    const { data } = await supabase.auth.getUser();
+    if (data?.user) {
+      setIsGuest(!!data.user.is_anonymous);
+      setUserEmail(data.user.email ?? null);
+    }
+  }, []);
+
   useEffect(() => {
     Promise.all([hydrate(), hydrateTheme()]);
-    const fetchUser = async () => {
-      const { data } = await supabase.auth.getUser();
-      if (data?.user) {
-        setIsGuest((data.user as any).is_anonymous);
-        setUserEmail(data.user.email ?? null);
-      }
-    };
     fetchUser();
-  }, [hydrate, hydrateTheme]);
+  }, [hydrate, hydrateTheme, fetchUser]);
 
   const handleSignOut = async () => {
     Alert.alert(
@@ -89,6 +108,18 @@ export default function Settings() {
             await logOutRevenueCat();
             useSubscriptionStore.getState().reset();
             useUsageStore.getState().reset();
+            useChatStore.getState().reset();
+            useVocabularyStore.getState().reset();
+            useTranslationHistoryStore.getState().reset();
+            useStoryLibraryStore.getState().reset();
+            useSessionReportStore.getState().reset();
+            // Cached clips include the previous user's chat replies
+            await clearAudioCache();
+            await clearResponseCache();
+            await resetPreferencesSync();
+            // Queued writes belong to this user: send what can be sent now, drop the rest
+            await flushQueue();
+            await clearOfflineQueue();
             await supabase.auth.signOut();
           },
         },
@@ -149,6 +180,11 @@ export default function Settings() {
   return (
     <View style={[styles.container, { backgroundColor: '#F2F2F7' }]}>
       <Paywall visible={paywallVisible} onClose={() => setPaywallVisible(false)} />
+      <SaveProgressModal
+        visible={saveProgressVisible}
+        onClose={() => setSaveProgressVisible(false)}
+        onSaved={fetchUser}
+      />
       
       {/* CEFR Selection Modal */}
       <Modal visible={cefrModalVisible} animationType="slide" presentationStyle="pageSheet">
@@ -228,6 +264,17 @@ export default function Settings() {
           )}
         </View>
 
+        {isGuest && (
+          <View style={styles.sectionGroup}>
+            <SettingItem
+              icon="cloud-upload"
+              label="Save Your Progress"
+              value="Add email"
+              onPress={() => setSaveProgressVisible(true)}
+            />
+          </View>
+        )}
+
         <SectionHeader title="PREFERENCES" />
         <View style={styles.sectionGroup}>
            <SettingItem
@@ -239,12 +286,28 @@ export default function Settings() {
            <SettingItem
               icon="mic"
               label="Speech Voice"
-              onPress={() => router.push({ pathname: '/voice-picker-screen', params: { langCode: 'en' } })}
+              onPress={() => router.push({ pathname: '/voice-picker-screen', params: { langCode: targetLang } })}
            />
         </View>
 
         <SectionHeader title="LEARNING TOOLS" />
         <View style={styles.sectionGroup}>
+           <SettingItem
+              icon="albums"
+              label="Vocabulary Deck"
+              value={reviewCount > 0 ? `${reviewCount} to review` : undefined}
+              onPress={() => router.push('/vocabulary')}
+           />
+           <SettingItem
+              icon="document-text"
+              label="Tutor Session Reports"
+              onPress={() => router.push('/session-reports')}
+           />
+           <SettingItem
+              icon="school"
+              label="My Mistakes"
+              onPress={() => router.push('/mistakes')}
+           />
            <SettingItem
               icon="speedometer"
               label="CEFR Levels"
@@ -1,7 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, usePathname } from 'expo-router';
 import * as Speech from 'expo-speech';
 import { StatusBar } from 'expo-status-bar';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -11,10 +11,13 @@ import { SafeAreaProvider, initialWindowMetrics } from 'react-native-safe-area-c
 import { supabase } from '../utils/supabase';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { OfflineBanner } from '../components/OfflineBanner';
 import LoginScreen from './LoginScreen';
 
 // Subscription imports
 import { initializeRevenueCat, logOutRevenueCat, setupPurchasesListener } from '../services/revenuecatService';
+import { startOfflineQueue } from '../services/offlineQueue';
+import { syncPreferences } from '../services/preferencesSync';
 import { useSubscriptionStore } from './store/useSubscriptionStore';
 import { useUsageStore } from './store/useUsageStore';
 
@@ -25,6 +28,7 @@ export default function RootLayout() {
   });
   const [authChecked, setAuthChecked] = useState(false);
   const [session, setSession] = useState<any>(null);
+  const pathname = usePathname();
 
   useEffect(() => {
     const getSession = async () => {
@@ -96,6 +100,18 @@ export default function RootLayout() {
     };
   }, [session?.user?.id]);
 
+  // Settings follow the user across devices: pull newer ones, push local changes
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    syncPreferences();
+  }, [session?.user?.id]);
+
+  // Replay writes queued while offline, now and whenever the connection returns
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    startOfflineQueue();
+  }, [session?.user?.id]);
+
   // Handle logout - clean up subscription state
   const handleLogout = useCallback(async () => {
     await logOutRevenueCat();
@@ -108,7 +124,8 @@ export default function RootLayout() {
       return null;
     }
 
-    if (!session) {
+    // Auth links (reset, magic link, OAuth) must reach their route before there is a session
+    if (!session && !pathname.startsWith('/auth/')) {
       return <LoginScreen onLogin={() => {
         supabase.auth.getSession().then(({ data }) => setSession(data.session));
       }} />;
@@ -118,6 +135,9 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="story" options={{ headerShown: false, presentation: 'fullScreenModal', animation: 'slide_from_bottom' }} />
+        <Stack.Screen name="pronunciation" options={{ headerShown: false, presentation: 'modal' }} />
+        <Stack.Screen name="auth/callback" options={{ headerShown: false }} />
+        <Stack.Screen name="reset-password" options={{ title: 'New Password' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
     );
@@ -126,7 +146,11 @@ export default function RootLayout() {
   return (
     <SafeAreaProvider initialMetrics={initialWindowMetrics}>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        {getContent()}
+        <OfflineBanner />
+        {/* Screens get their own insets, so headers sit below the banner */}
+        <SafeAreaProvider>
+          {getContent()}
+        </SafeAreaProvider>
         <StatusBar style="auto" />
       </ThemeProvider>
     </SafeAreaProvider>
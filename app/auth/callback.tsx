@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Href, useLocalSearchParams, useRouter } from 'expo-router';
+import { createSessionFromParams } from '@/services/authService';
+
+// Landing route for password reset, magic link, confirmation and OAuth redirects
+export default function AuthCallbackScreen() {
+  const router = useRouter();
+  const { code, next, error: linkError, error_description } = useLocalSearchParams<{
+    code?: string;
+    next?: string;
+    error?: string;
+    error_description?: string;
+  }>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    createSessionFromParams({ code, error: linkError, error_description })
+      // Only app paths; never follow a link elsewhere
+      .then(() => router.replace((next?.startsWith('/') ? next : '/') as Href))
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not sign you in.'));
+  }, [code, next, linkError, error_description, router]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <>
+          <Text style={styles.title}>Link not valid</Text>
+          <Text style={styles.body}>{error}</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/')}>
+            <Text style={styles.primaryButtonText}>Back to Sign In</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <ActivityIndicator size="large" color="#1976FF" />
+          <Text style={styles.body}>Signing you in…</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  body: {
+    fontSize: 16,
+    color: '#687076',
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: '#1976FF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
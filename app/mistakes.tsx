@@ -0,0 +1,342 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useNavigation } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useLanguageStore } from './store/useLanguageStore';
+import { getLanguageName } from '@/constants/Languages';
+import { findMistakeCategory, RECURRING_LIMIT, RECURRING_MIN_COUNT } from '@/constants/Mistakes';
+import { fetchMistakes, MistakeStat, resetMistake } from '../services/mistakeService';
+import { OfflineError } from '../services/network';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+// What the AI Tutor has corrected, per grammar category; the top recurring ones are what it targets
+export default function MistakesScreen() {
+  const navigation = useNavigation();
+  const { targetLang } = useLanguageStore();
+  const [mistakes, setMistakes] = useState<MistakeStat[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
+  const [language, setLanguage] = useState<string | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: 'My Mistakes',
+      headerBackTitle: 'Back',
+      headerStyle: { backgroundColor: '#F6F7FB' },
+      headerShadowVisible: false,
+    });
+  }, [navigation]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setMistakes(await fetchMistakes());
+      setIsOffline(false);
+    } catch (err) {
+      if (err instanceof OfflineError) {
+        setIsOffline(true);
+      } else {
+        Alert.alert('Error', 'Failed to load your mistakes.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // The language with the most frequent mistake first
+  const languages = useMemo(
+    () => Array.from(new Set(mistakes.map(mistake => mistake.language))),
+    [mistakes]
+  );
+  const activeLanguage = language && languages.includes(language)
+    ? language
+    : languages.includes(targetLang) ? targetLang : languages[0];
+
+  const languageMistakes = useMemo(
+    () => mistakes.filter(mistake => mistake.language === activeLanguage),
+    [mistakes, activeLanguage]
+  );
+  const maxCount = languageMistakes[0]?.count ?? 1;
+  // Mirrors the rows chat-tutor puts in its prompt
+  const focusIds = languageMistakes
+    .filter(mistake => mistake.count >= RECURRING_MIN_COUNT)
+    .slice(0, RECURRING_LIMIT)
+    .map(mistake => mistake.id);
+
+  const confirmReset = (mistake: MistakeStat) => {
+    const label = findMistakeCategory(mistake.category)?.label ?? mistake.category;
+    Alert.alert(
+      'Mark as Mastered',
+      `Reset "${label}"? The tutor stops focusing on it until it comes up again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetMistake(mistake.id);
+              setMistakes(prev => prev.filter(m => m.id !== mistake.id));
+            } catch (err) {
+              Alert.alert(
+                err instanceof OfflineError ? 'You Are Offline' : 'Error',
+                err instanceof OfflineError ? 'Try again once you are back online.' : 'Failed to reset this category.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: MistakeStat }) => {
+    const category = findMistakeCategory(item.category);
+    const isFocus = focusIds.includes(item.id);
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.categoryLabel}>{category?.label ?? item.category}</Text>
+            {isFocus && (
+              <View style={styles.focusTag}>
+                <Ionicons name="locate" size={12} color="#1976FF" />
+                <Text style={styles.focusText}>Tutor focus</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.count}>{item.count}×</Text>
+        </View>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${(item.count / maxCount) * 100}%` }]} />
+        </View>
+
+        {item.examples.map((example, i) => (
+          <View key={i} style={styles.example}>
+            <Text style={styles.exampleOriginal}>{example.original}</Text>
+            <Text style={styles.exampleCorrected}>{example.corrected}</Text>
+          </View>
+        ))}
+
+        <View style={styles.cardFooter}>
+          <Text style={styles.meta}>Last seen {formatDate(item.lastSeenAt)}</Text>
+          <TouchableOpacity onPress={() => confirmReset(item)} style={styles.resetButton}>
+            <Ionicons name="checkmark-done" size={16} color="#43B581" />
+            <Text style={styles.resetText}>Mastered</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading && mistakes.length === 0) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#1976FF" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={languageMistakes}
+      keyExtractor={item => item.id}
+      renderItem={renderItem}
+      contentContainerStyle={styles.listContent}
+      refreshing={isLoading}
+      onRefresh={load}
+      ListHeaderComponent={
+        <View>
+          <Text style={styles.intro}>
+            The AI Tutor remembers what it corrects you on. Your most frequent mistakes are worked into your conversations until you master them.
+          </Text>
+          {languages.length > 1 && (
+            <View style={styles.chipRow}>
+              {languages.map(code => (
+                <TouchableOpacity
+                  key={code}
+                  style={[styles.chip, activeLanguage === code && styles.chipActive]}
+                  onPress={() => setLanguage(code)}
+                >
+                  <Text style={[styles.chipText, activeLanguage === code && styles.chipTextActive]}>
+                    {getLanguageName(code)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      }
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons name={isOffline ? 'cloud-offline-outline' : 'school-outline'} size={48} color="#C7C7CC" />
+          <Text style={styles.emptyText}>
+            {isOffline
+              ? 'Your mistakes are kept online. Connect to see them.'
+              : 'No mistakes recorded yet. Corrections from the AI Tutor will show up here.'}
+          </Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#687076',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  chipActive: {
+    backgroundColor: '#1976FF',
+    borderColor: '#1976FF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 18,
+    marginBottom: 14,
+    shadowColor: '#1976FF',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  categoryLabel: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  focusTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 6,
+    backgroundColor: '#E6F0FF',
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+  },
+  focusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1976FF',
+  },
+  count: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#F57F17',
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F0F0F0',
+    marginTop: 12,
+    marginBottom: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F5A623',
+  },
+  example: {
+    marginTop: 10,
+    paddingLeft: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#FBC02D',
+  },
+  exampleOriginal: {
+    fontSize: 14,
+    color: '#555',
+    fontStyle: 'italic',
+    textDecorationLine: 'line-through',
+  },
+  exampleCorrected: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 2,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 14,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#687076',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  resetText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#43B581',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#687076',
+    textAlign: 'center',
+    maxWidth: '80%',
+  },
+});
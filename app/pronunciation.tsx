@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { findLanguage, supportsFeature } from '@/constants/Languages';
+import { splitSentences } from '@/constants/Pronunciation';
+import { useFeatureAccess } from '@/hooks/useFeatureAccess';
+import { useIsOnline } from '@/hooks/useIsOnline';
+import { usePronunciationCheck } from '@/hooks/usePronunciationCheck';
+import { PronunciationResult } from '@/services/pronunciationService';
+import { TTS } from '@/services/ttsService';
+import { AlignedSentence, scoreColor } from '@/components/pronunciation/AlignedSentence';
+import { UsageWarningBanner } from '@/components/subscription/UsageQuotaDisplay';
+import { Paywall } from '@/components/subscription/Paywall';
+
+// Practice reading a sentence from a translation, CEFR rewrite or story aloud
+export default function PronunciationScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ text: string; language?: string }>();
+  const language = findLanguage(params.language)?.code ?? null;
+  // Longer texts (stories) are practiced a sentence at a time
+  const sentences = useMemo(() => splitSentences(params.text ?? ''), [params.text]);
+
+  const [index, setIndex] = useState(0);
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [paywallVisible, setPaywallVisible] = useState(false);
+
+  const { isPremium } = useFeatureAccess();
+  const { isRecording, isChecking, start, stopAndCheck } = usePronunciationCheck(() => setPaywallVisible(true));
+  const isOnline = useIsOnline();
+
+  const sentence = sentences[index] ?? '';
+  const canListen = supportsFeature(language, 'tts');
+
+  useEffect(() => () => {
+    TTS.stop();
+  }, []);
+
+  const goTo = (next: number) => {
+    TTS.stop();
+    setIndex(next);
+    setResult(null);
+  };
+
+  const listen = (text: string) => {
+    if (canListen) TTS.speak(text, { language: language ?? undefined, isPremium });
+  };
+
+  const handleMicPress = async () => {
+    if (!isRecording) {
+      setResult(null);
+      await start();
+      return;
+    }
+    const checked = await stopAndCheck(sentence, language);
+    if (checked) setResult(checked);
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <Paywall
+        visible={paywallVisible}
+        onClose={() => setPaywallVisible(false)}
+        feature="Pronunciation Practice"
+      />
+
+      <View style={styles.header}>
+        <Text style={styles.title}>Pronunciation</Text>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {!isPremium && (
+          <UsageWarningBanner
+            actionType="pronunciation_check"
+            onUpgradePress={() => setPaywallVisible(true)}
+          />
+        )}
+
+        {sentences.length > 1 && (
+          <View style={styles.stepper}>
+            <TouchableOpacity onPress={() => goTo(index - 1)} disabled={index === 0 || isRecording || isChecking}>
+              <Ionicons name="chevron-back" size={22} color={index === 0 ? '#D0D4DA' : '#1976FF'} />
+            </TouchableOpacity>
+            <Text style={styles.stepperText}>Sentence {index + 1} of {sentences.length}</Text>
+            <TouchableOpacity
+              onPress={() => goTo(index + 1)}
+              disabled={index === sentences.length - 1 || isRecording || isChecking}
+            >
+              <Ionicons name="chevron-forward" size={22} color={index === sentences.length - 1 ? '#D0D4DA' : '#1976FF'} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.label}>READ THIS ALOUD</Text>
+          {result ? (
+            <AlignedSentence words={result.words} language={language} style={styles.sentence} />
+          ) : (
+            <Text style={styles.sentence}>{sentence}</Text>
+          )}
+          {canListen && (
+            <TouchableOpacity onPress={() => listen(sentence)} style={styles.listenButton}>
+              <Ionicons name="volume-high-outline" size={18} color="#1976FF" />
+              <Text style={styles.listenText}>Listen first</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {result && (
+          <View style={styles.card}>
+            <View style={styles.scoreRow}>
+              <View style={[styles.scoreBadge, { backgroundColor: scoreColor(result.score) }]}>
+                <Text style={styles.scoreText}>{result.score}</Text>
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>WE HEARD</Text>
+                <Text style={styles.transcript}>{result.transcript || '…nothing we could make out'}</Text>
+              </View>
+            </View>
+
+            {result.retryWords.length > 0 ? (
+              <>
+                <Text style={[styles.label, { marginTop: 16 }]}>WORDS TO RETRY</Text>
+                <View style={styles.chips}>
+                  {result.retryWords.map(word => (
+                    <TouchableOpacity key={word} onPress={() => listen(word)} disabled={!canListen} style={styles.chip}>
+                      {canListen && <Ionicons name="volume-medium-outline" size={14} color="#1976FF" />}
+                      <Text style={styles.chipText}>{word}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            ) : (
+              <Text style={styles.perfectText}>Every word was clear. Nicely done!</Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {isChecking ? (
+          <ActivityIndicator size="large" color="#1976FF" />
+        ) : (
+          <TouchableOpacity
+            onPress={handleMicPress}
+            disabled={!sentence || (!isOnline && !isRecording)}
+            style={[
+              styles.micButton,
+              isRecording && styles.micButtonActive,
+              !isOnline && !isRecording && { opacity: 0.5 },
+            ]}
+          >
+            <Ionicons name={isRecording ? 'stop' : 'mic'} size={32} color="#fff" />
+          </TouchableOpacity>
+        )}
+        <Text style={styles.footerHint}>
+          {!isOnline
+            ? 'Pronunciation checks need a connection'
+            : isChecking
+              ? 'Checking…'
+              : isRecording
+                ? 'Tap to stop when you are done'
+                : result ? 'Tap to try again' : 'Tap and read the sentence'}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  stepperText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#1976FF',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#A0A0A0',
+    marginBottom: 8,
+    letterSpacing: 0.5,
+  },
+  sentence: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#11181C',
+    lineHeight: 34,
+  },
+  listenButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 16,
+    backgroundColor: '#E6F0FF',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    gap: 6,
+  },
+  listenText: {
+    color: '#1976FF',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  scoreBadge: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scoreText: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  transcript: {
+    fontSize: 16,
+    color: '#333',
+    fontStyle: 'italic',
+    lineHeight: 22,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FFF1F0',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+  },
+  chipText: {
+    color: '#11181C',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  perfectText: {
+    marginTop: 16,
+    fontSize: 15,
+    color: '#43B581',
+    fontWeight: '600',
+  },
+  footer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 10,
+  },
+  micButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#1976FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  micButtonActive: {
+    backgroundColor: '#FF4D4F',
+  },
+  footerHint: {
+    fontSize: 14,
+    color: '#687076',
+  },
+});
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { updatePassword } from '@/services/authService';
+import { checkPassword, isStrongPassword, PasswordChecks } from '@/utils/password';
+
+const REQUIREMENTS: { key: keyof PasswordChecks; label: string }[] = [
+  { key: 'length', label: '8+ chars' },
+  { key: 'upper', label: 'Upper' },
+  { key: 'lower', label: 'Lower' },
+  { key: 'digit', label: 'Digit' },
+  { key: 'special', label: 'Special' },
+];
+
+// Opened from a password reset email, once the link has signed the user in
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const checks = checkPassword(password);
+
+  const handleSave = async () => {
+    if (password !== confirmPassword) {
+      Alert.alert('Password Mismatch', 'Passwords do not match.');
+      return;
+    }
+    if (!isStrongPassword(password)) {
+      Alert.alert('Weak Password', 'Please meet all password requirements.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await updatePassword(password);
+      Alert.alert('Password Updated', 'Use your new password next time you sign in.');
+      router.replace('/');
+    } catch (error) {
+      Alert.alert('Update Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Choose a new password</Text>
+      <Text style={styles.body}>You are signed in from your reset link. Set a new password for your account.</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="New Password"
+        placeholderTextColor="#999"
+        secureTextEntry
+        value={password}
+        onChangeText={setPassword}
+      />
+      <View style={styles.requirements}>
+        {REQUIREMENTS.map(({ key, label }) => (
+          <View key={key} style={styles.requirement}>
+            <Ionicons
+              name={checks[key] ? 'checkmark-circle' : 'ellipse-outline'}
+              size={12}
+              color={checks[key] ? '#2ecc71' : '#999'}
+            />
+            <Text style={[styles.requirementText, { color: checks[key] ? '#2ecc71' : '#999' }]}>{label}</Text>
+          </View>
+        ))}
+      </View>
+      <TextInput
+        style={styles.input}
+        placeholder="Confirm Password"
+        placeholderTextColor="#999"
+        secureTextEntry
+        value={confirmPassword}
+        onChangeText={setConfirmPassword}
+      />
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Save Password</Text>}
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/')} disabled={saving}>
+        <Text style={styles.secondaryButtonText}>Not Now</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  body: {
+    fontSize: 16,
+    color: '#687076',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  requirements: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  requirement: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  requirementText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: '#1976FF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#1976FF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
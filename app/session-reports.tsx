@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, ScrollView, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useNavigation } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useSessionReportStore } from './store/useSessionReportStore';
+import { SavedSessionReport } from '../services/sessionReportService';
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString();
+};
+
+// AI Tutor session reports, newest first; opened on a report by "Finish session"
+export default function SessionReportsScreen() {
+  const navigation = useNavigation();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const { reports, isSyncing, removeReport, syncReports } = useSessionReportStore();
+  const [openId, setOpenId] = useState<string | null>(params.id ?? null);
+
+  const openReport = openId ? reports.find(report => report.id === openId) : undefined;
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: openReport ? 'Session Report' : 'Session Reports',
+      headerBackTitle: 'Back',
+      headerStyle: { backgroundColor: '#F6F7FB' },
+      headerShadowVisible: false,
+    });
+  }, [navigation, openReport]);
+
+  useEffect(() => {
+    syncReports();
+  }, [syncReports]);
+
+  const confirmDelete = (saved: SavedSessionReport) => {
+    Alert.alert(
+      'Delete Report',
+      `Delete the report on "${saved.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => removeReport(saved.id) },
+      ]
+    );
+  };
+
+  if (openReport) {
+    const { report } = openReport;
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity onPress={() => setOpenId(null)} style={styles.allReportsButton}>
+          <Ionicons name="list" size={16} color="#1976FF" />
+          <Text style={styles.allReportsText}>All reports</Text>
+        </TouchableOpacity>
+
+        <View style={styles.card}>
+          <View style={styles.summaryHeader}>
+            <View style={styles.levelBadge}>
+              <Text style={styles.levelText}>{report.cefr_level}</Text>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.reportTitle} numberOfLines={2}>{openReport.title}</Text>
+              <Text style={styles.meta}>
+                {openReport.sourceLang.toUpperCase()} → {openReport.targetLang.toUpperCase()} · {formatDate(openReport.createdAt)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.levelHint}>Estimated level of your messages in this session</Text>
+          <Text style={styles.body}>{report.summary}</Text>
+        </View>
+
+        <Text style={styles.sectionLabel}>GRAMMAR TOPICS</Text>
+        {report.topics.length === 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.body}>No corrections this session.</Text>
+          </View>
+        ) : (
+          report.topics.map((topic, i) => (
+            <View key={i} style={styles.card}>
+              <View style={styles.topicHeader}>
+                <Text style={styles.topicTitle}>{topic.topic}</Text>
+                <Text style={styles.topicCount}>{topic.examples.length}×</Text>
+              </View>
+              <Text style={styles.body}>{topic.explanation}</Text>
+              {topic.examples.map((example, j) => (
+                <View key={j} style={styles.example}>
+                  <Text style={styles.exampleOriginal}>{example.original}</Text>
+                  <Text style={styles.exampleCorrected}>{example.corrected}</Text>
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+
+        {report.strengths.length > 0 && (
+          <>
+            <Text style={styles.sectionLabel}>STRENGTHS</Text>
+            <View style={styles.card}>
+              {report.strengths.map((strength, i) => (
+                <View key={i} style={styles.point}>
+                  <Ionicons name="checkmark-circle" size={18} color="#43B581" />
+                  <Text style={styles.pointText}>{strength}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.sectionLabel}>NEXT EXERCISES</Text>
+        <View style={styles.card}>
+          {report.next_exercises.map((exercise, i) => (
+            <View key={i} style={styles.point}>
+              <Ionicons name="barbell-outline" size={18} color="#1976FF" />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.exerciseTitle}>{exercise.title}</Text>
+                <Text style={styles.pointText}>{exercise.description}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    );
+  }
+
+  const renderItem = ({ item }: { item: SavedSessionReport }) => (
+    <TouchableOpacity style={styles.row} onPress={() => setOpenId(item.id)} activeOpacity={0.7}>
+      <View style={styles.levelBadgeSmall}>
+        <Text style={styles.levelTextSmall}>{item.report.cefr_level}</Text>
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+        <Text style={styles.meta}>
+          {item.targetLang.toUpperCase()} · {item.report.topics.length} topics · {formatDate(item.createdAt)}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.deleteButton}>
+        <Ionicons name="trash-outline" size={18} color="#A0A0A0" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={reports}
+      keyExtractor={item => item.id}
+      renderItem={renderItem}
+      contentContainerStyle={styles.scrollContent}
+      ListHeaderComponent={isSyncing ? <ActivityIndicator size="small" color="#1976FF" style={{ marginBottom: 12 }} /> : null}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons name="document-text-outline" size={48} color="#C7C7CC" />
+          <Text style={styles.emptyText}>
+            No reports yet. Finish a session in the AI Tutor to get one.
+          </Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  allReportsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginBottom: 12,
+  },
+  allReportsText: {
+    color: '#1976FF',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#1976FF',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 3,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  levelBadge: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#1976FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  levelText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  levelHint: {
+    fontSize: 12,
+    color: '#A0A0A0',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  reportTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 4,
+  },
+  body: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 22,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#A0A0A0',
+    marginBottom: 8,
+    marginLeft: 4,
+    letterSpacing: 0.5,
+  },
+  topicHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    gap: 8,
+  },
+  topicTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  topicCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#F57F17',
+  },
+  example: {
+    marginTop: 10,
+    paddingLeft: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#FBC02D',
+  },
+  exampleOriginal: {
+    fontSize: 14,
+    color: '#555',
+    fontStyle: 'italic',
+    textDecorationLine: 'line-through',
+  },
+  exampleCorrected: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 2,
+  },
+  point: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginBottom: 10,
+  },
+  pointText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  exerciseTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#11181C',
+    marginBottom: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+  },
+  levelBadgeSmall: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#E6F0FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  levelTextSmall: {
+    color: '#1976FF',
+    fontWeight: '700',
+    fontSize: 14,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#687076',
+    textAlign: 'center',
+    maxWidth: '80%',
+  },
+});
@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { findScenario } from '../../constants/Scenarios';
+import { ChatMessage } from '../../services/chatService';
+import {
+  Conversation,
+  fetchConversations,
+  getPersistableMessages,
+  queueConversationDelete,
+  queueConversationRename,
+  queueConversationSave,
+} from '../../services/conversationService';
+import { newerRecord, syncRecords } from '../../services/recordSync';
+import { generateId } from '../../utils/id';
+
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_MAX_LENGTH = 40;
+
+interface ConversationSettings {
+  targetLang: string;
+  sourceLang: string;
+  userLevel: string;
+  scenarioId?: string | null;
+  goalsMet?: string[];
+}
+
+interface ChatState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  isSyncing: boolean;
+
+  // Actions
+  startConversation: (settings: ConversationSettings) => Conversation;
+  saveConversation: (id: string, messages: ChatMessage[], settings: ConversationSettings) => void;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  setActiveConversation: (id: string | null) => void;
+  syncConversations: () => Promise<void>;
+  reset: () => void;
+}
+
+const titleFromMessages = (messages: ChatMessage[]) => {
+  const firstUserMessage = messages.find(m => m.role === 'user' && m.content.trim());
+  if (!firstUserMessage) return DEFAULT_TITLE;
+  const text = firstUserMessage.content.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+};
+
+export const useChatStore = create<ChatState>()(
+  persist(
+    (set, get) => ({
+      conversations: [],
+      activeConversationId: null,
+      isSyncing: false,
+
+      startConversation: (settings) => {
+        const now = new Date().toISOString();
+        const conversation: Conversation = {
+          id: generateId(),
+          // Role-plays are named after their scenario rather than the first message
+          title: findScenario(settings.scenarioId)?.title ?? DEFAULT_TITLE,
+          ...settings,
+          messages: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        set(state => ({
+          // Only one untouched thread is kept around at a time
+          conversations: [conversation, ...state.conversations.filter(c => c.messages.length > 0)],
+          activeConversationId: conversation.id,
+        }));
+        return conversation;
+      },
+
+      saveConversation: (id, messages, settings) => {
+        const existing = get().conversations.find(c => c.id === id);
+        if (!existing) return;
+
+        const updated: Conversation = {
+          ...existing,
+          ...settings,
+          messages: getPersistableMessages(messages),
+          title: existing.title === DEFAULT_TITLE ? titleFromMessages(messages) : existing.title,
+          updatedAt: new Date().toISOString(),
+        };
+        set(state => ({
+          conversations: [updated, ...state.conversations.filter(c => c.id !== id)],
+        }));
+
+        if (updated.messages.length > 0) {
+          queueConversationSave(updated);
+        }
+      },
+
+      renameConversation: (id, title) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        set(state => ({
+          conversations: state.conversations.map(c =>
+            c.id === id ? { ...c, title: trimmed, updatedAt: new Date().toISOString() } : c
+          ),
+        }));
+        queueConversationRename({ id, title: trimmed });
+      },
+
+      deleteConversation: (id) => {
+        set(state => ({
+          conversations: state.conversations.filter(c => c.id !== id),
+          activeConversationId: state.activeConversationId === id ? null : state.activeConversationId,
+        }));
+        queueConversationDelete(id);
+      },
+
+      setActiveConversation: (id) => set({ activeConversationId: id }),
+
+      syncConversations: async () => {
+        set({ isSyncing: true });
+        try {
+          const conversations = await syncRecords({
+            fetchRemote: fetchConversations,
+            getLocal: () => get().conversations,
+            save: queueConversationSave,
+            resolve: newerRecord,
+            // A thread with no messages yet is never sent
+            keepLocal: c => c.messages.length === 0,
+          });
+
+          set({
+            conversations: conversations.sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt)),
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('Conversation sync error:', error);
+          set({ isSyncing: false });
+        }
+      },
+
+      reset: () => set({ conversations: [], activeConversationId: null, isSyncing: false }),
+    }),
+    {
+      name: 'chat-conversations',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        conversations: state.conversations,
+        activeConversationId: state.activeConversationId,
+      }),
+    }
+  )
+);
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { SessionReport } from '../../services/chatService';
+import {
+  fetchSessionReports,
+  queueSessionReportDelete,
+  queueSessionReportSave,
+  SavedSessionReport,
+} from '../../services/sessionReportService';
+import { syncRecords } from '../../services/recordSync';
+import { generateId } from '../../utils/id';
+
+export interface SessionReportMeta {
+  conversationId: string | null;
+  title: string;
+  targetLang: string;
+  sourceLang: string;
+}
+
+interface SessionReportState {
+  reports: SavedSessionReport[];
+  isSyncing: boolean;
+
+  // Actions
+  addReport: (report: SessionReport, meta: SessionReportMeta) => SavedSessionReport;
+  getReport: (id: string) => SavedSessionReport | undefined;
+  removeReport: (id: string) => void;
+  syncReports: () => Promise<void>;
+  reset: () => void;
+}
+
+export const useSessionReportStore = create<SessionReportState>()(
+  persist(
+    (set, get) => ({
+      reports: [],
+      isSyncing: false,
+
+      addReport: (report, meta) => {
+        const saved: SavedSessionReport = {
+          id: generateId(),
+          ...meta,
+          report,
+          createdAt: new Date().toISOString(),
+        };
+        set(state => ({ reports: [saved, ...state.reports] }));
+        queueSessionReportSave(saved);
+        return saved;
+      },
+
+      getReport: (id) => get().reports.find(report => report.id === id),
+
+      removeReport: (id) => {
+        set(state => ({ reports: state.reports.filter(report => report.id !== id) }));
+        queueSessionReportDelete(id);
+      },
+
+      syncReports: async () => {
+        set({ isSyncing: true });
+        try {
+          const reports = await syncRecords({
+            fetchRemote: fetchSessionReports,
+            getLocal: () => get().reports,
+            save: queueSessionReportSave,
+            // Reports are never edited
+            resolve: (_local, remote) => ({ record: remote, push: false }),
+          });
+
+          set({
+            reports: reports.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)),
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('Session report sync error:', error);
+          set({ isSyncing: false });
+        }
+      },
+
+      reset: () => set({ reports: [], isSyncing: false }),
+    }),
+    {
+      name: 'session-reports',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ reports: state.reports }),
+    }
+  )
+);
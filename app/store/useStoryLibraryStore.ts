@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  fetchStoryLibrary,
+  queueStoryDelete,
+  queueStorySave,
+  QuizAnswer,
+  QuizAttempt,
+  SavedStory,
+} from '../../services/storyLibraryService';
+import { ResolveRecord, syncRecords } from '../../services/recordSync';
+import { GeneratedStory } from '../../services/storyService';
+import { generateId } from '../../utils/id';
+
+export interface StoryMeta {
+  targetLang: string;
+  sourceLang: string | null;
+  cefrLevel: string;
+  topic: string | null;
+}
+
+interface StoryLibraryState {
+  stories: SavedStory[];
+  isSyncing: boolean;
+
+  // Actions
+  addStory: (story: GeneratedStory, meta: StoryMeta) => SavedStory;
+  getStory: (id: string) => SavedStory | undefined;
+  recordAttempt: (storyId: string, answers: QuizAnswer[]) => QuizAttempt | null;
+  removeStory: (id: string) => void;
+  syncLibrary: () => Promise<void>;
+  reset: () => void;
+}
+
+const byCompletedAt = (a: QuizAttempt, b: QuizAttempt) => Date.parse(a.completedAt) - Date.parse(b.completedAt);
+
+/** Attempts are append-only, so both sides' attempts are kept. */
+const mergeAttempts = (a: QuizAttempt[], b: QuizAttempt[]) => {
+  const ids = new Set(a.map(attempt => attempt.id));
+  return [...a, ...b.filter(attempt => !ids.has(attempt.id))].sort(byCompletedAt);
+};
+
+/** The copy edited last, with the attempts of both; quizzes finished offline make Supabase behind. */
+const mergeStory: ResolveRecord<SavedStory> = (local, remote) => {
+  const attempts = mergeAttempts(remote.attempts, local.attempts);
+  const localIsNewer = Date.parse(local.updatedAt) > Date.parse(remote.updatedAt);
+  return {
+    record: { ...(localIsNewer ? local : remote), attempts },
+    push: localIsNewer || attempts.length > remote.attempts.length,
+  };
+};
+
+export const useStoryLibraryStore = create<StoryLibraryState>()(
+  persist(
+    (set, get) => ({
+      stories: [],
+      isSyncing: false,
+
+      addStory: (story, meta) => {
+        const now = new Date().toISOString();
+        const saved: SavedStory = {
+          id: generateId(),
+          title: story.title,
+          story: story.story,
+          questions: story.questions,
+          ...meta,
+          attempts: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        set(state => ({ stories: [saved, ...state.stories] }));
+        queueStorySave(saved);
+        return saved;
+      },
+
+      getStory: (id) => get().stories.find(story => story.id === id),
+
+      recordAttempt: (storyId, answers) => {
+        const existing = get().getStory(storyId);
+        if (!existing) return null;
+
+        const now = new Date().toISOString();
+        const attempt: QuizAttempt = {
+          id: generateId(),
+          answers,
+          correctCount: answers.filter(answer => answer.isCorrect).length,
+          totalQuestions: existing.questions.length,
+          completedAt: now,
+        };
+        const updated: SavedStory = {
+          ...existing,
+          attempts: [...existing.attempts, attempt],
+          updatedAt: now,
+        };
+        set(state => ({
+          stories: [updated, ...state.stories.filter(story => story.id !== storyId)],
+        }));
+        queueStorySave(updated);
+        return attempt;
+      },
+
+      removeStory: (id) => {
+        set(state => ({ stories: state.stories.filter(story => story.id !== id) }));
+        queueStoryDelete(id);
+      },
+
+      syncLibrary: async () => {
+        set({ isSyncing: true });
+        try {
+          const stories = await syncRecords({
+            fetchRemote: fetchStoryLibrary,
+            getLocal: () => get().stories,
+            save: queueStorySave,
+            resolve: mergeStory,
+          });
+
+          set({
+            stories: stories.sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt)),
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('Story library sync error:', error);
+          set({ isSyncing: false });
+        }
+      },
+
+      reset: () => set({ stories: [], isSyncing: false }),
+    }),
+    {
+      name: 'story-library',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ stories: state.stories }),
+    }
+  )
+);
@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  fetchTranslationHistory,
+  queueTranslationHistoryDelete,
+  queueTranslationHistorySave,
+  TranslationHistoryEntry,
+} from '../../services/translationHistoryService';
+import { newerRecord, syncRecords } from '../../services/recordSync';
+import { TranslationFeatureResult } from '../../services/translatorFeatures';
+import { generateId } from '../../utils/id';
+
+// Older entries stay in Supabase and are reached through search
+export const MAX_LOCAL_ENTRIES = 200;
+
+interface NewTranslation {
+  inputText: string;
+  outputText: string;
+  sourceLang: string;
+  targetLang: string;
+  detectedSourceLang?: string | null;
+}
+
+interface TranslationHistoryState {
+  entries: TranslationHistoryEntry[];
+  isSyncing: boolean;
+  /** Entry picked in the history screen, waiting for the translator to show it */
+  pendingRestore: TranslationHistoryEntry | null;
+
+  // Actions
+  recordTranslation: (translation: NewTranslation) => string;
+  /** The saved translation of this exact text between these languages, if any */
+  findTranslation: (inputText: string, sourceLang: string, targetLang: string) => TranslationHistoryEntry | undefined;
+  setFeatures: (id: string, features: TranslationFeatureResult) => void;
+  toggleFavorite: (entry: TranslationHistoryEntry) => void;
+  removeEntry: (id: string) => void;
+  restoreEntry: (entry: TranslationHistoryEntry) => void;
+  clearPendingRestore: () => void;
+  syncHistory: () => Promise<void>;
+  reset: () => void;
+}
+
+const byUpdatedAt = (a: TranslationHistoryEntry, b: TranslationHistoryEntry) =>
+  Date.parse(b.updatedAt) - Date.parse(a.updatedAt);
+
+/** Newest first, trimmed to MAX_LOCAL_ENTRIES; starred entries are always kept. */
+const trimEntries = (entries: TranslationHistoryEntry[]) => {
+  const sorted = [...entries].sort(byUpdatedAt);
+  let kept = 0;
+  return sorted.filter(entry => entry.isFavorite || kept++ < MAX_LOCAL_ENTRIES);
+};
+
+export const useTranslationHistoryStore = create<TranslationHistoryState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      isSyncing: false,
+      pendingRestore: null,
+
+      recordTranslation: (translation) => {
+        const now = new Date().toISOString();
+        const inputText = translation.inputText.trim();
+        // Translating the same text into the same language again refreshes the existing entry
+        const existing = get().findTranslation(inputText, translation.sourceLang, translation.targetLang);
+
+        const entry: TranslationHistoryEntry = existing
+          ? {
+            ...existing,
+            outputText: translation.outputText,
+            detectedSourceLang: translation.detectedSourceLang ?? null,
+            updatedAt: now,
+          }
+          : {
+            id: generateId(),
+            inputText,
+            outputText: translation.outputText,
+            sourceLang: translation.sourceLang,
+            targetLang: translation.targetLang,
+            detectedSourceLang: translation.detectedSourceLang ?? null,
+            features: null,
+            isFavorite: false,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+        set(state => ({
+          entries: trimEntries([entry, ...state.entries.filter(e => e.id !== entry.id)]),
+        }));
+        queueTranslationHistorySave(entry);
+        return entry.id;
+      },
+
+      findTranslation: (inputText, sourceLang, targetLang) => {
+        const text = inputText.trim();
+        return get().entries.find(e =>
+          e.inputText === text &&
+          e.sourceLang === sourceLang &&
+          e.targetLang === targetLang
+        );
+      },
+
+      setFeatures: (id, features) => {
+        const existing = get().entries.find(e => e.id === id);
+        if (!existing) return;
+        const updated = { ...existing, features, updatedAt: new Date().toISOString() };
+        set(state => ({ entries: state.entries.map(e => (e.id === id ? updated : e)) }));
+        queueTranslationHistorySave(updated);
+      },
+
+      toggleFavorite: (entry) => {
+        const existing = get().entries.find(e => e.id === entry.id);
+        const updated = { ...(existing ?? entry), isFavorite: !(existing ?? entry).isFavorite, updatedAt: new Date().toISOString() };
+        set(state => ({
+          entries: existing
+            ? state.entries.map(e => (e.id === entry.id ? updated : e))
+            // Remote search results are not in the local list yet
+            : trimEntries([updated, ...state.entries]),
+        }));
+        queueTranslationHistorySave(updated);
+      },
+
+      removeEntry: (id) => {
+        set(state => ({ entries: state.entries.filter(e => e.id !== id) }));
+        queueTranslationHistoryDelete(id);
+      },
+
+      restoreEntry: (entry) => {
+        // Entries found by remote search are not in the local list yet
+        if (!get().entries.some(e => e.id === entry.id)) {
+          set(state => ({ entries: trimEntries([entry, ...state.entries]) }));
+        }
+        set({ pendingRestore: entry });
+      },
+
+      clearPendingRestore: () => set({ pendingRestore: null }),
+
+      syncHistory: async () => {
+        set({ isSyncing: true });
+        try {
+          const entries = await syncRecords({
+            fetchRemote: () => fetchTranslationHistory(MAX_LOCAL_ENTRIES),
+            getLocal: () => get().entries,
+            save: queueTranslationHistorySave,
+            resolve: newerRecord,
+            // Starred entries older than the fetched page are still in Supabase
+            keepLocal: (entry, remote) => remote.length >= MAX_LOCAL_ENTRIES
+              && Date.parse(entry.updatedAt) < Date.parse(remote[remote.length - 1].updatedAt),
+          });
+
+          set({
+            entries: trimEntries(entries),
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('Translation history sync error:', error);
+          set({ isSyncing: false });
+        }
+      },
+
+      reset: () => set({ entries: [], isSyncing: false, pendingRestore: null }),
+    }),
+    {
+      name: 'translation-history',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
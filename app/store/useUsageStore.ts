@@ -7,7 +7,11 @@ export type ActionType =
   | 'verb_analysis'
   | 'verb_conjugation'
   | 'language_detection'
-  | 'chat_message';
+  | 'chat_message'
+  | 'story_generation'
+  | 'text_to_speech'
+  | 'pronunciation_check'
+  | 'translation_features';
 
 interface UsageData {
   used: number;
@@ -28,7 +32,6 @@ interface UsageState {
   canPerformAction: (actionType: ActionType) => boolean;
   getRemainingQuota: (actionType: ActionType) => number;
   incrementUsage: (actionType: ActionType) => void;
-  logUsage: (userId: string, actionType: ActionType) => Promise<boolean>;
   reset: () => void;
 }
 
@@ -45,6 +48,10 @@ const initialUsage: Record<ActionType, UsageData> = {
   verb_conjugation: { ...defaultUsage },
   language_detection: { ...defaultUsage },
   chat_message: { ...defaultUsage },
+  story_generation: { ...defaultUsage },
+  text_to_speech: { ...defaultUsage },
+  pronunciation_check: { ...defaultUsage },
+  translation_features: { ...defaultUsage },
 };
 
 export const useUsageStore = create<UsageState>((set, get) => ({
@@ -151,46 +158,6 @@ export const useUsageStore = create<UsageState>((set, get) => ({
     });
   },
 
-  logUsage: async (userId: string, actionType: ActionType) => {
-    try {
-      // Call the database function that logs usage atomically
-      const { data, error } = await supabase.rpc('log_usage', {
-        p_user_id: userId,
-        p_action_type: actionType,
-        p_metadata: {},
-      });
-
-      if (error) {
-        console.error('Failed to log usage:', error);
-        return false;
-      }
-
-      if (data && data.length > 0) {
-        const result = data[0];
-
-        if (result.success) {
-          // Update local state with server response
-          set((state) => ({
-            usage: {
-              ...state.usage,
-              [actionType]: {
-                used: result.used,
-                dailyLimit: result.daily_limit,
-                remaining: result.remaining,
-              },
-            },
-          }));
-          return true;
-        }
-      }
-
-      return false;
-    } catch (error) {
-      console.error('Log usage error:', error);
-      return false;
-    }
-  },
-
   reset: () => set({
     usage: initialUsage,
     isLoading: true,
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  fetchVocabulary,
+  queueVocabularyDelete,
+  queueVocabularySave,
+  VocabularyItem,
+  VocabularySource,
+} from '../../services/vocabularyService';
+import { newerRecord, syncRecords } from '../../services/recordSync';
+import { generateId } from '../../utils/id';
+import { initialSrsState, ReviewGrade, scheduleReview } from '../../utils/srs';
+
+// New cards introduced per day, on top of the reviews that are due
+export const NEW_CARDS_PER_DAY = 20;
+
+export interface NewVocabularyItem {
+  term: string;
+  translation?: string;
+  language: string;
+  sourceLang?: string | null;
+  context?: string | null;
+  source: VocabularySource;
+}
+
+interface VocabularyState {
+  items: VocabularyItem[];
+  isSyncing: boolean;
+
+  // Actions
+  addItem: (input: NewVocabularyItem) => VocabularyItem | null;
+  hasItem: (term: string, language: string) => boolean;
+  reviewItem: (id: string, grade: ReviewGrade) => void;
+  removeItem: (id: string) => void;
+  syncVocabulary: () => Promise<void>;
+  reset: () => void;
+}
+
+const normalizeTerm = (term: string) => term.trim().replace(/\s+/g, ' ');
+const termKey = (term: string, language: string) => `${language}:${normalizeTerm(term).toLowerCase()}`;
+
+export const useVocabularyStore = create<VocabularyState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      isSyncing: false,
+
+      addItem: (input) => {
+        const term = normalizeTerm(input.term);
+        if (!term || get().hasItem(term, input.language)) return null;
+
+        const now = new Date();
+        const item: VocabularyItem = {
+          id: generateId(),
+          term,
+          translation: input.translation?.trim() ?? '',
+          language: input.language,
+          sourceLang: input.sourceLang ?? null,
+          context: input.context?.trim() || null,
+          source: input.source,
+          ...initialSrsState(now),
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        };
+        set(state => ({ items: [item, ...state.items] }));
+        queueVocabularySave(item);
+        return item;
+      },
+
+      hasItem: (term, language) => {
+        const key = termKey(term, language);
+        return get().items.some(item => termKey(item.term, item.language) === key);
+      },
+
+      reviewItem: (id, grade) => {
+        const existing = get().items.find(item => item.id === id);
+        if (!existing) return;
+
+        const updated: VocabularyItem = {
+          ...existing,
+          ...scheduleReview(existing, grade),
+          updatedAt: new Date().toISOString(),
+        };
+        set(state => ({
+          items: state.items.map(item => (item.id === id ? updated : item)),
+        }));
+        queueVocabularySave(updated);
+      },
+
+      removeItem: (id) => {
+        set(state => ({ items: state.items.filter(item => item.id !== id) }));
+        queueVocabularyDelete(id);
+      },
+
+      syncVocabulary: async () => {
+        set({ isSyncing: true });
+        try {
+          const items = await syncRecords({
+            fetchRemote: fetchVocabulary,
+            getLocal: () => get().items,
+            save: queueVocabularySave,
+            resolve: newerRecord,
+          });
+
+          set({
+            items: items.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)),
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('Vocabulary sync error:', error);
+          set({ isSyncing: false });
+        }
+      },
+
+      reset: () => set({ items: [], isSyncing: false }),
+    }),
+    {
+      name: 'vocabulary-deck',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ items: state.items }),
+    }
+  )
+);
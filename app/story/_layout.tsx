@@ -10,6 +10,12 @@ export default function StoryLayout() {
                     headerShown: false
                 }}
             />
+            <Stack.Screen
+                name="library"
+                options={{
+                    headerShown: false
+                }}
+            />
         </Stack>
     );
 }
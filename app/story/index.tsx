@@ -1,10 +1,14 @@
+import { ShadowingPanel } from '@/components/story/ShadowingPanel';
 import { useFeatureAccess } from '@/hooks/useFeatureAccess';
-import { GeneratedStory, generateStory } from '@/services/storyService';
+import { translateWithDeepL } from '@/services/deeplService';
+import { OfflineError } from '@/services/network';
+import { QuizAnswer, SavedStory } from '@/services/storyLibraryService';
+import { generateStory } from '@/services/storyService';
 import { TTS } from '@/services/ttsService';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { MotiView } from 'moti';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     Alert,
     ScrollView,
@@ -14,14 +18,39 @@ import {
     View
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-
-interface QuizAnswer {
-    questionIndex: number;
-    selectedAnswer: string;
-    isCorrect: boolean;
-}
-
-type ActiveTab = 'story' | 'quiz';
+import { describeSuggestion, getBestAttempt, suggestLevelChange } from '@/utils/storyProgress';
+import { useStoryLibraryStore } from '../store/useStoryLibraryStore';
+import { useVocabularyStore } from '../store/useVocabularyStore';
+
+type ActiveTab = 'story' | 'shadow' | 'quiz';
+
+const stripPunctuation = (word: string) => word.replace(/^[.,;:!?¿¡"'“”‘’«»()\-—…]+|[.,;:!?¿¡"'“”‘’«»()\-—…]+$/g, '');
+
+/** The sentence of `text` around character `offset`, used as the card's context. */
+const sentenceAt = (text: string, offset: number) => {
+    const start = Math.max(
+        text.lastIndexOf('.', offset - 1),
+        text.lastIndexOf('!', offset - 1),
+        text.lastIndexOf('?', offset - 1)
+    ) + 1;
+    const ends = ['.', '!', '?']
+        .map(mark => text.indexOf(mark, offset))
+        .filter(index => index !== -1);
+    const end = ends.length ? Math.min(...ends) + 1 : text.length;
+    return text.slice(start, end).trim();
+};
+
+/** Index of the token (from splitting on whitespace) containing character `charIndex`. */
+const tokenIndexAt = (offsets: number[], charIndex: number) => {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (offsets[mid] <= charIndex) low = mid;
+        else high = mid - 1;
+    }
+    return low;
+};
 
 export default function StoryScreen() {
     const insets = useSafeAreaInsets();
@@ -32,24 +61,45 @@ export default function StoryScreen() {
         sourceLang: string;
         cefrLevel: string;
         topic: string;
+        /** Set when reopening a story from the library instead of generating one */
+        storyId?: string;
     }>();
 
-    const [story, setStory] = useState<GeneratedStory | null>(null);
+    const [story, setStory] = useState<SavedStory | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [isOffline, setIsOffline] = useState(false);
     const [quizAnswers, setQuizAnswers] = useState<QuizAnswer[]>([]);
     const [showResults, setShowResults] = useState(false);
     const [activeTab, setActiveTab] = useState<ActiveTab>('story');
+    const { addItem, hasItem } = useVocabularyStore();
+    const { stories, addStory, getStory, recordAttempt } = useStoryLibraryStore();
+
+    const targetLang = story?.targetLang || params.targetLang || 'es';
+    const sourceLang = story?.sourceLang || params.sourceLang || 'en';
 
     // TTS State
     const [isSpeaking, setIsSpeaking] = useState(false);
     const [currentWordIndex, setCurrentWordIndex] = useState(-1);
-    const wordsRef = useRef<string[]>([]);
-    const wordIndexRef = useRef(0);
+    // Bumped on every start/stop so callbacks from an earlier read-aloud are ignored
+    const speechGeneration = useRef(0);
+
+    // The story split into words and the whitespace between them, with each token's start offset
+    const tokens = useMemo(() => (story ? story.story.split(/(\s+)/) : []), [story]);
+    const tokenOffsets = useMemo(() => {
+        let offset = 0;
+        return tokens.map(token => {
+            const start = offset;
+            offset += token.length;
+            return start;
+        });
+    }, [tokens]);
 
     useEffect(() => {
+        const generation = speechGeneration;
         loadStory();
         return () => {
+            generation.current++;
             TTS.stop();
         };
     }, []);
@@ -57,16 +107,38 @@ export default function StoryScreen() {
     const loadStory = async () => {
         setIsLoading(true);
         setError(null);
+        setIsOffline(false);
+
+        if (params.storyId) {
+            const saved = getStory(params.storyId);
+            if (saved) {
+                setStory(saved);
+            } else {
+                setError('This story is no longer in your library.');
+            }
+            setIsLoading(false);
+            return;
+        }
+
         try {
+            const cefrLevel = params.cefrLevel || 'B1';
+            const topic = params.topic || 'A day at the park';
             const result = await generateStory({
                 targetLang: params.targetLang || 'es',
-                cefrLevel: params.cefrLevel || 'B1',
-                topic: params.topic || 'A day at the park'
+                cefrLevel,
+                topic
             });
-            setStory(result);
+            // Saved straight away so the story survives leaving the screen
+            setStory(addStory(result, {
+                targetLang: params.targetLang || 'es',
+                sourceLang: params.sourceLang || null,
+                cefrLevel,
+                topic: topic === '__AI_PICK__' ? null : topic,
+            }));
         } catch (err) {
             console.error('Failed to generate story:', err);
             setError(err instanceof Error ? err.message : 'Failed to generate story');
+            setIsOffline(err instanceof OfflineError);
         } finally {
             setIsLoading(false);
         }
@@ -74,9 +146,14 @@ export default function StoryScreen() {
 
     const handleClose = () => {
         TTS.stop();
+        // The story itself is already in the library; only a half-finished quiz is lost
+        if (quizAnswers.length === 0 || showResults) {
+            router.back();
+            return;
+        }
         Alert.alert(
-            'Leave Story?',
-            'Are you sure you want to exit? Your progress will be lost.',
+            'Leave Quiz?',
+            'This story stays in your library, but answers to an unfinished quiz are not saved.',
             [
                 { text: 'Cancel', style: 'cancel' },
                 { text: 'Exit', style: 'destructive', onPress: () => router.back() }
@@ -84,63 +161,54 @@ export default function StoryScreen() {
         );
     };
 
-    // TTS with word highlighting
-    const handleSpeak = useCallback(async () => {
+    // Read the story aloud from character `offset`, highlighting the word being spoken
+    const speakFrom = useCallback((offset: number) => {
         if (!story) return;
 
-        if (isSpeaking) {
-            await TTS.stop();
+        const generation = ++speechGeneration.current;
+        const isCurrent = () => speechGeneration.current === generation;
+        const finish = () => {
+            if (!isCurrent()) return;
             setIsSpeaking(false);
             setCurrentWordIndex(-1);
-            return;
-        }
+        };
 
-        const words = story.story.split(/(\s+)/);
-        wordsRef.current = words;
-        wordIndexRef.current = 0;
-        setCurrentWordIndex(0);
         setIsSpeaking(true);
+        setCurrentWordIndex(tokenIndexAt(tokenOffsets, offset));
 
-        // Calculate word boundaries for highlighting fallback
-        const textLength = story.story.length;
-        const avgCharTime = 50; // Approximate ms per character
-
-        // Use TTS service - premium users get ElevenLabs, with timing-based highlighting fallback
+        // Premium users get ElevenLabs; both voices report the word being spoken
         TTS.speak(story.story, {
-            language: params.targetLang || 'en',
+            language: targetLang,
             isPremium,
-            onDone: () => {
-                setIsSpeaking(false);
-                setCurrentWordIndex(-1);
+            startAt: offset,
+            onWord: ({ charIndex }) => {
+                if (isCurrent()) setCurrentWordIndex(tokenIndexAt(tokenOffsets, charIndex));
             },
-            onError: () => {
-                setIsSpeaking(false);
-                setCurrentWordIndex(-1);
-            }
+            onDone: finish,
+            onError: finish,
         });
+    }, [story, tokenOffsets, targetLang, isPremium]);
 
-        // Timing-based highlighting for all cases (works for both ElevenLabs and device TTS)
-        const totalDuration = textLength * avgCharTime;
-        const wordDuration = totalDuration / words.filter(w => w.trim()).length;
+    const stopSpeaking = useCallback(async () => {
+        speechGeneration.current++;
+        await TTS.stop();
+        setIsSpeaking(false);
+        setCurrentWordIndex(-1);
+    }, []);
 
-        let wordIdx = 0;
-        const interval = setInterval(() => {
-            if (!isSpeaking) {
-                clearInterval(interval);
-                return;
-            }
-            wordIdx++;
-            while (wordIdx < words.length && !words[wordIdx].trim()) {
-                wordIdx++;
-            }
-            if (wordIdx < words.length) {
-                setCurrentWordIndex(wordIdx);
-            } else {
-                clearInterval(interval);
-            }
-        }, wordDuration);
+    const handleSpeak = useCallback(async () => {
+        if (!isSpeaking) {
+            speakFrom(0);
+            return;
+        }
+        await stopSpeaking();
+    }, [isSpeaking, speakFrom, stopSpeaking]);
 
-    }, [story, isSpeaking, params.targetLang, isPremium]);
+    // Shadowing plays sentences itself, so reading aloud stops when leaving the story
+    const selectTab = (tab: ActiveTab) => {
+        if (tab !== 'story' && isSpeaking) stopSpeaking();
+        setActiveTab(tab);
+    };
 
     const handleAnswerSelect = (questionIndex: number, selectedAnswer: string) => {
         if (quizAnswers.some(a => a.questionIndex === questionIndex)) {
@@ -151,11 +219,17 @@ export default function StoryScreen() {
         const newAnswers = [...quizAnswers, { questionIndex, selectedAnswer, isCorrect }];
         setQuizAnswers(newAnswers);
 
-        if (newAnswers.length === story?.questions.length) {
+        if (story && newAnswers.length === story.questions.length) {
+            recordAttempt(story.id, newAnswers);
             setTimeout(() => setShowResults(true), 500);
         }
     };
 
+    const handleRetake = () => {
+        setQuizAnswers([]);
+        setShowResults(false);
+    };
+
     const getAnswerStyle = (questionIndex: number, option: string) => {
         const answer = quizAnswers.find(a => a.questionIndex === questionIndex);
         if (!answer) return styles.optionButton;
@@ -182,19 +256,59 @@ export default function StoryScreen() {
         return [styles.optionText, styles.optionTextDisabled];
     };
 
-    const correctCount = quizAnswers.filter(a => a.isCorrect).length;
+    // Long-pressing a word saves it with its sentence; the translation is best effort
+    const handleSaveWord = async (words: string[], index: number) => {
+        if (!story) return;
+        const term = stripPunctuation(words[index]);
+        const language = targetLang;
+        if (!term || hasItem(term, language)) return;
+
+        const offset = words.slice(0, index).join('').length;
+        let translation = '';
+        try {
+            const result = await translateWithDeepL({
+                text: term,
+                sourceLanguage: language,
+                targetLanguage: sourceLang,
+            });
+            translation = result.translatedText;
+        } catch (err) {
+            console.error('Failed to translate saved word:', err);
+        }
+
+        addItem({
+            term,
+            translation,
+            language,
+            sourceLang,
+            context: sentenceAt(story.story, offset),
+            source: 'story',
+        });
+    };
 
-    // Render story text with highlighting
+    const correctCount = quizAnswers.filter(a => a.isCorrect).length;
+    // Attempts live in the library store; `story` is the snapshot the screen opened with
+    const attempts = (story && stories.find(s => s.id === story.id)?.attempts) || [];
+    // Earlier attempts, not counting the one just finished
+    const previousAttempts = showResults ? attempts.slice(0, -1) : attempts;
+    const bestPrevious = getBestAttempt(previousAttempts);
+    const suggestion = story && showResults
+        ? suggestLevelChange(stories, story.targetLang, story.cefrLevel)
+        : null;
+
+    // Render story text with highlighting; tapping a word reads on from there
     const renderStoryText = () => {
         if (!story) return null;
-        const words = story.story.split(/(\s+)/);
 
         return (
             <Text style={styles.storyText}>
-                {words.map((word, index) => (
+                {tokens.map((word, index) => (
                     <Text
                         key={index}
+                        onPress={word.trim() ? () => speakFrom(tokenOffsets[index]) : undefined}
+                        onLongPress={word.trim() ? () => handleSaveWord(tokens, index) : undefined}
                         style={[
+                            hasItem(stripPunctuation(word), targetLang) && styles.savedWord,
                             currentWordIndex === index && isSpeaking && styles.highlightedWord
                         ]}
                     >
@@ -210,7 +324,7 @@ export default function StoryScreen() {
             {/* Header */}
             <View style={styles.header}>
                 <View style={styles.headerLeft}>
-                    <Text style={styles.levelBadge}>{params.cefrLevel}</Text>
+                    <Text style={styles.levelBadge}>{story?.cefrLevel || params.cefrLevel}</Text>
                 </View>
                 <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
                     <Ionicons name="close" size={24} color="#11181C" />
@@ -233,11 +347,16 @@ export default function StoryScreen() {
                 </View>
             ) : error ? (
                 <View style={styles.errorContainer}>
-                    <Ionicons name="alert-circle" size={48} color="#FF4D4F" />
+                    <Ionicons name={isOffline ? 'cloud-offline' : 'alert-circle'} size={48} color="#FF4D4F" />
                     <Text style={styles.errorText}>{error}</Text>
                     <TouchableOpacity onPress={loadStory} style={styles.retryButton}>
                         <Text style={styles.retryText}>Try Again</Text>
                     </TouchableOpacity>
+                    {isOffline && (
+                        <TouchableOpacity onPress={() => router.replace('/story/library')} style={styles.libraryButton}>
+                            <Text style={styles.libraryButtonText}>Open Library</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
             ) : story ? (
                 <>
@@ -245,7 +364,7 @@ export default function StoryScreen() {
                     <View style={styles.tabBar}>
                         <TouchableOpacity
                             style={[styles.tabButton, activeTab === 'story' && styles.tabButtonActive]}
-                            onPress={() => setActiveTab('story')}
+                            onPress={() => selectTab('story')}
                         >
                             <Ionicons
                                 name="book-outline"
@@ -256,9 +375,22 @@ export default function StoryScreen() {
                                 Story
                             </Text>
                         </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.tabButton, activeTab === 'shadow' && styles.tabButtonActive]}
+                            onPress={() => selectTab('shadow')}
+                        >
+                            <Ionicons
+                                name="mic-outline"
+                                size={18}
+                                color={activeTab === 'shadow' ? '#1976FF' : '#687076'}
+                            />
+                            <Text style={[styles.tabText, activeTab === 'shadow' && styles.tabTextActive]}>
+                                Shadow
+                            </Text>
+                        </TouchableOpacity>
                         <TouchableOpacity
                             style={[styles.tabButton, activeTab === 'quiz' && styles.tabButtonActive]}
-                            onPress={() => setActiveTab('quiz')}
+                            onPress={() => selectTab('quiz')}
                         >
                             <Ionicons
                                 name="help-circle-outline"
@@ -300,11 +432,12 @@ export default function StoryScreen() {
                                     </TouchableOpacity>
                                 </View>
                                 {renderStoryText()}
+                                <Text style={styles.saveHint}>Tap a word to listen from there, long-press to save it to your deck</Text>
                             </View>
 
                             <TouchableOpacity
                                 style={styles.goToQuizButton}
-                                onPress={() => setActiveTab('quiz')}
+                                onPress={() => selectTab('quiz')}
                             >
                                 <Text style={styles.goToQuizText}>Take the Quiz</Text>
                                 <Ionicons name="arrow-forward" size={20} color="#fff" />
@@ -312,6 +445,11 @@ export default function StoryScreen() {
                         </ScrollView>
                     )}
 
+                    {/* Shadowing Tab */}
+                    {activeTab === 'shadow' && (
+                        <ShadowingPanel text={story.story} language={targetLang} isPremium={isPremium} />
+                    )}
+
                     {/* Quiz Tab */}
                     {activeTab === 'quiz' && (
                         <ScrollView
@@ -319,6 +457,15 @@ export default function StoryScreen() {
                             contentContainerStyle={styles.scrollContent}
                             showsVerticalScrollIndicator={false}
                         >
+                            {previousAttempts.length > 0 && bestPrevious && (
+                                <View style={styles.previousAttempts}>
+                                    <Ionicons name="time-outline" size={16} color="#687076" />
+                                    <Text style={styles.previousAttemptsText}>
+                                        Best score {bestPrevious.correctCount}/{bestPrevious.totalQuestions} · {previousAttempts.length} {previousAttempts.length === 1 ? 'attempt' : 'attempts'}
+                                    </Text>
+                                </View>
+                            )}
+
                             {story.questions.map((question, qIndex) => (
                                 <View key={qIndex} style={styles.questionCard}>
                                     <Text style={styles.questionNumber}>Question {qIndex + 1}</Text>
@@ -354,18 +501,33 @@ export default function StoryScreen() {
                                     <Text style={styles.resultsText}>
                                         You got {correctCount} out of {story.questions.length} correct
                                     </Text>
-                                    <TouchableOpacity
-                                        onPress={() => router.back()}
-                                        style={styles.doneButton}
-                                    >
-                                        <Text style={styles.doneButtonText}>Done</Text>
-                                    </TouchableOpacity>
+                                    {suggestion && (
+                                        <View style={styles.suggestionBox}>
+                                            <Text style={styles.suggestionText}>
+                                                {describeSuggestion(suggestion)}
+                                            </Text>
+                                        </View>
+                                    )}
+                                    <View style={styles.resultsActions}>
+                                        <TouchableOpacity
+                                            onPress={handleRetake}
+                                            style={styles.retakeButton}
+                                        >
+                                            <Text style={styles.retakeButtonText}>Retake Quiz</Text>
+                                        </TouchableOpacity>
+                                        <TouchableOpacity
+                                            onPress={() => router.back()}
+                                            style={styles.doneButton}
+                                        >
+                                            <Text style={styles.doneButtonText}>Done</Text>
+                                        </TouchableOpacity>
+                                    </View>
                                 </View>
                             )}
 
                             <TouchableOpacity
                                 style={styles.backToStoryButton}
-                                onPress={() => setActiveTab('story')}
+                                onPress={() => selectTab('story')}
                             >
                                 <Ionicons name="arrow-back" size={18} color="#1976FF" />
                                 <Text style={styles.backToStoryText}>Back to Story</Text>
@@ -501,6 +663,16 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         fontSize: 16,
     },
+    libraryButton: {
+        paddingHorizontal: 24,
+        paddingVertical: 12,
+        marginTop: 8,
+    },
+    libraryButtonText: {
+        color: '#1976FF',
+        fontWeight: '600',
+        fontSize: 16,
+    },
     scrollView: {
         flex: 1,
     },
@@ -552,6 +724,16 @@ const styles = StyleSheet.create({
         backgroundColor: '#FFE066',
         color: '#11181C',
     },
+    savedWord: {
+        textDecorationLine: 'underline',
+        textDecorationStyle: 'dotted',
+        textDecorationColor: '#1976FF',
+    },
+    saveHint: {
+        fontSize: 12,
+        color: '#687076',
+        marginTop: 16,
+    },
     goToQuizButton: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -648,6 +830,43 @@ const styles = StyleSheet.create({
         color: '#687076',
         marginBottom: 24,
     },
+    suggestionBox: {
+        backgroundColor: '#E6F0FF',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 20,
+        alignSelf: 'stretch',
+    },
+    suggestionText: {
+        fontSize: 14,
+        color: '#11181C',
+        lineHeight: 20,
+    },
+    resultsActions: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    retakeButton: {
+        backgroundColor: '#E6F0FF',
+        paddingHorizontal: 24,
+        paddingVertical: 14,
+        borderRadius: 12,
+    },
+    retakeButtonText: {
+        color: '#1976FF',
+        fontWeight: '700',
+        fontSize: 16,
+    },
+    previousAttempts: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 12,
+    },
+    previousAttemptsText: {
+        fontSize: 13,
+        color: '#687076',
+    },
     doneButton: {
         backgroundColor: '#1976FF',
         paddingHorizontal: 32,
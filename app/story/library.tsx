@@ -0,0 +1,412 @@
+import { findLanguage } from '@/constants/Languages';
+import { SavedStory } from '@/services/storyLibraryService';
+import { CEFR_LEVELS, describeSuggestion, getBestAttempt, getLevelAccuracy, suggestLevelChange } from '@/utils/storyProgress';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    FlatList,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLanguageStore } from '../store/useLanguageStore';
+import { useStoryLibraryStore } from '../store/useStoryLibraryStore';
+
+const formatScore = (correct: number, total: number) => `${correct}/${total}`;
+
+export default function StoryLibraryScreen() {
+    const insets = useSafeAreaInsets();
+    const router = useRouter();
+    const { stories, isSyncing, removeStory, syncLibrary } = useStoryLibraryStore();
+    const { targetLang } = useLanguageStore();
+    const [language, setLanguage] = useState<string | null>(null);
+    const [level, setLevel] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+
+    useEffect(() => {
+        syncLibrary();
+    }, [syncLibrary]);
+
+    // Languages with at least one story, newest first
+    const languages = useMemo(
+        () => Array.from(new Set(stories.map(story => story.targetLang))),
+        [stories]
+    );
+    const activeLanguage = language && languages.includes(language)
+        ? language
+        : languages.includes(targetLang) ? targetLang : languages[0];
+
+    const languageStories = useMemo(
+        () => stories.filter(story => story.targetLang === activeLanguage),
+        [stories, activeLanguage]
+    );
+
+    const visibleStories = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return languageStories.filter(story =>
+            (!level || story.cefrLevel === level) &&
+            (!needle ||
+                story.title.toLowerCase().includes(needle) ||
+                (story.topic ?? '').toLowerCase().includes(needle))
+        );
+    }, [languageStories, level, query]);
+
+    const levelStats = useMemo(
+        () => activeLanguage
+            ? getLevelAccuracy(stories, activeLanguage).filter(stat => stat.accuracy !== null)
+            : [],
+        [stories, activeLanguage]
+    );
+
+    // Suggest relative to the level the learner has been reading most recently
+    const suggestion = activeLanguage && languageStories.length > 0
+        ? suggestLevelChange(stories, activeLanguage, languageStories[0].cefrLevel)
+        : null;
+
+    const confirmDelete = (story: SavedStory) => {
+        Alert.alert(
+            'Delete Story',
+            `Delete "${story.title}" and its quiz results?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => removeStory(story.id) }
+            ]
+        );
+    };
+
+    const renderStory = ({ item }: { item: SavedStory }) => {
+        const last = item.attempts[item.attempts.length - 1];
+        const best = getBestAttempt(item.attempts);
+
+        return (
+            <TouchableOpacity
+                style={styles.storyRow}
+                onPress={() => router.push({ pathname: '/story', params: { storyId: item.id } })}
+                activeOpacity={0.7}
+            >
+                <View style={styles.rowLevel}>
+                    <Text style={styles.rowLevelText}>{item.cefrLevel}</Text>
+                </View>
+                <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+                    <Text style={styles.rowTopic} numberOfLines={1}>{item.topic ?? 'Surprise topic'}</Text>
+                    <Text style={styles.rowScore}>
+                        {last && best
+                            ? `Last ${formatScore(last.correctCount, last.totalQuestions)} · Best ${formatScore(best.correctCount, best.totalQuestions)}`
+                            : 'Quiz not taken'}
+                    </Text>
+                </View>
+                <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.deleteButton}>
+                    <Ionicons name="trash-outline" size={18} color="#A0A0A0" />
+                </TouchableOpacity>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderHeader = () => (
+        <View>
+            {languages.length > 1 && (
+                <View style={styles.chipRow}>
+                    {languages.map(code => (
+                        <TouchableOpacity
+                            key={code}
+                            style={[styles.chip, activeLanguage === code && styles.chipActive]}
+                            onPress={() => setLanguage(code)}
+                        >
+                            <Text style={[styles.chipText, activeLanguage === code && styles.chipTextActive]}>
+                                {findLanguage(code)?.name || code.toUpperCase()}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
+            {levelStats.length > 0 && (
+                <View style={styles.statsCard}>
+                    <Text style={styles.statsTitle}>Comprehension by level</Text>
+                    {levelStats.map(stat => (
+                        <View key={stat.level} style={styles.statRow}>
+                            <Text style={styles.statLevel}>{stat.level}</Text>
+                            <View style={styles.statBar}>
+                                <View style={[styles.statFill, { width: `${Math.round((stat.accuracy ?? 0) * 100)}%` }]} />
+                            </View>
+                            <Text style={styles.statValue}>{Math.round((stat.accuracy ?? 0) * 100)}%</Text>
+                        </View>
+                    ))}
+                    <Text style={styles.statsFootnote}>First attempt at each story</Text>
+                    {suggestion && (
+                        <View style={styles.suggestionBox}>
+                            <Ionicons
+                                name={suggestion.direction === 'up' ? 'trending-up' : 'trending-down'}
+                                size={18}
+                                color="#1976FF"
+                            />
+                            <Text style={styles.suggestionText}>{describeSuggestion(suggestion)}</Text>
+                        </View>
+                    )}
+                </View>
+            )}
+
+            <View style={styles.searchBar}>
+                <Ionicons name="search" size={18} color="#687076" />
+                <TextInput
+                    style={styles.searchInput}
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder="Search by title or topic"
+                    placeholderTextColor="#A0A0A0"
+                    autoCorrect={false}
+                    clearButtonMode="while-editing"
+                />
+            </View>
+
+            <View style={styles.chipRow}>
+                {[null, ...CEFR_LEVELS].map(option => (
+                    <TouchableOpacity
+                        key={option ?? 'all'}
+                        style={[styles.chip, level === option && styles.chipActive]}
+                        onPress={() => setLevel(option)}
+                    >
+                        <Text style={[styles.chipText, level === option && styles.chipTextActive]}>
+                            {option ?? 'All'}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+        </View>
+    );
+
+    return (
+        <View style={[styles.container, { paddingTop: insets.top }]}>
+            <View style={styles.header}>
+                <Text style={styles.headerTitle}>Story Library</Text>
+                <View style={styles.headerRight}>
+                    {isSyncing && <ActivityIndicator size="small" color="#1976FF" />}
+                    <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+                        <Ionicons name="close" size={24} color="#11181C" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <FlatList
+                data={visibleStories}
+                keyExtractor={item => item.id}
+                renderItem={renderStory}
+                ListHeaderComponent={renderHeader()}
+                contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 40 }]}
+                keyboardShouldPersistTaps="handled"
+                ListEmptyComponent={
+                    <View style={styles.empty}>
+                        <Ionicons name="library-outline" size={48} color="#C7C7CC" />
+                        <Text style={styles.emptyText}>
+                            {stories.length === 0
+                                ? 'Stories you generate are saved here, with your quiz scores.'
+                                : 'No stories match these filters.'}
+                        </Text>
+                    </View>
+                }
+            />
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F6F7FB',
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 12,
+    },
+    headerTitle: {
+        fontSize: 22,
+        fontWeight: '700',
+        color: '#11181C',
+    },
+    headerRight: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    closeButton: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: '#E8ECEF',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    listContent: {
+        paddingHorizontal: 20,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 12,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 16,
+        backgroundColor: '#E8ECEF',
+    },
+    chipActive: {
+        backgroundColor: '#1976FF',
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#687076',
+    },
+    chipTextActive: {
+        color: '#fff',
+    },
+    statsCard: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 16,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    statsTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#11181C',
+        marginBottom: 12,
+    },
+    statRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    statLevel: {
+        width: 32,
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#11181C',
+    },
+    statBar: {
+        flex: 1,
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: '#E8ECEF',
+        overflow: 'hidden',
+        marginHorizontal: 8,
+    },
+    statFill: {
+        height: '100%',
+        backgroundColor: '#1976FF',
+    },
+    statValue: {
+        width: 40,
+        textAlign: 'right',
+        fontSize: 13,
+        color: '#687076',
+    },
+    statsFootnote: {
+        fontSize: 12,
+        color: '#A0A0A0',
+        marginTop: 4,
+    },
+    suggestionBox: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 8,
+        backgroundColor: '#E6F0FF',
+        borderRadius: 12,
+        padding: 12,
+        marginTop: 12,
+    },
+    suggestionText: {
+        flex: 1,
+        fontSize: 14,
+        color: '#11181C',
+        lineHeight: 20,
+    },
+    searchBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: '#fff',
+        borderRadius: 14,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        marginBottom: 12,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: 16,
+        color: '#11181C',
+        padding: 0,
+    },
+    storyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 14,
+        marginBottom: 8,
+    },
+    rowLevel: {
+        width: 40,
+        height: 40,
+        borderRadius: 12,
+        backgroundColor: '#E6F0FF',
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginRight: 12,
+    },
+    rowLevelText: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#1976FF',
+    },
+    rowContent: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#11181C',
+    },
+    rowTopic: {
+        fontSize: 13,
+        color: '#687076',
+        marginTop: 2,
+    },
+    rowScore: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#1976FF',
+        marginTop: 6,
+    },
+    deleteButton: {
+        padding: 8,
+    },
+    empty: {
+        alignItems: 'center',
+        paddingVertical: 40,
+        paddingHorizontal: 24,
+        gap: 12,
+    },
+    emptyText: {
+        fontSize: 15,
+        color: '#687076',
+        textAlign: 'center',
+    },
+});
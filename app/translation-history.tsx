@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, FlatList, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useNavigation, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+import { MAX_LOCAL_ENTRIES, useTranslationHistoryStore } from './store/useTranslationHistoryStore';
+import { searchTranslationHistory, TranslationHistoryEntry } from '../services/translationHistoryService';
+
+type Filter = 'all' | 'favorites';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Case- and accent-insensitive, so "cafe" finds "café"
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const matchesQuery = (entry: TranslationHistoryEntry, tokens: string[]) => {
+  const haystack = normalize(`${entry.inputText} ${entry.outputText}`);
+  return tokens.every(token => haystack.includes(token));
+};
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString();
+};
+
+export default function TranslationHistoryScreen() {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const { entries, isSyncing, toggleFavorite, removeEntry, restoreEntry, syncHistory } = useTranslationHistoryStore();
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<Filter>('all');
+  const [remoteResults, setRemoteResults] = useState<TranslationHistoryEntry[]>([]);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: 'History',
+      headerBackTitle: 'Back',
+      headerStyle: { backgroundColor: '#F6F7FB' },
+      headerShadowVisible: false,
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    syncHistory();
+  }, [syncHistory]);
+
+  // Only the newest entries live on the device; older matches come from Supabase
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setRemoteResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchTranslationHistory(trimmed, MAX_LOCAL_ENTRIES)
+        .then(setRemoteResults)
+        .catch(() => setRemoteResults([]));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const visibleEntries = useMemo(() => {
+    const tokens = normalize(query).split(/\s+/).filter(Boolean);
+    const localIds = new Set(entries.map(e => e.id));
+    const combined = tokens.length
+      ? [
+        ...entries.filter(e => matchesQuery(e, tokens)),
+        ...remoteResults.filter(e => !localIds.has(e.id)),
+      ]
+      : entries;
+    return filter === 'favorites' ? combined.filter(e => e.isFavorite) : combined;
+  }, [entries, remoteResults, query, filter]);
+
+  const handleRestore = (entry: TranslationHistoryEntry) => {
+    restoreEntry(entry);
+    router.back();
+  };
+
+  const renderDeleteAction = (entry: TranslationHistoryEntry) => (
+    <TouchableOpacity onPress={() => removeEntry(entry.id)} style={styles.deleteAction}>
+      <Ionicons name="trash-outline" size={22} color="#fff" />
+      <Text style={styles.deleteText}>Delete</Text>
+    </TouchableOpacity>
+  );
+
+  const renderItem = ({ item }: { item: TranslationHistoryEntry }) => (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={40}
+      renderRightActions={() => renderDeleteAction(item)}
+      containerStyle={styles.swipeContainer}
+    >
+      <TouchableOpacity style={styles.row} onPress={() => handleRestore(item)} activeOpacity={0.7}>
+        <View style={styles.rowContent}>
+          <Text style={styles.inputText} numberOfLines={2}>{item.inputText}</Text>
+          <Text style={styles.outputText} numberOfLines={2}>{item.outputText}</Text>
+          <Text style={styles.meta}>
+            {(item.detectedSourceLang || item.sourceLang).toUpperCase()} → {item.targetLang.toUpperCase()} · {formatDate(item.updatedAt)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => toggleFavorite(item)} style={styles.starButton}>
+          <Ionicons
+            name={item.isFavorite ? 'star' : 'star-outline'}
+            size={20}
+            color={item.isFavorite ? '#FFB800' : '#B0B0B0'}
+          />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </ReanimatedSwipeable>
+  );
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#687076" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search translations"
+          placeholderTextColor="#A0A0A0"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+        {isSyncing && <ActivityIndicator size="small" color="#1976FF" />}
+      </View>
+
+      <View style={styles.filterRow}>
+        {(['all', 'favorites'] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            onPress={() => setFilter(option)}
+            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+          >
+            <Text style={[styles.filterText, filter === option && styles.filterTextActive]}>
+              {option === 'all' ? 'All' : 'Starred'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="time-outline" size={48} color="#C7C7CC" />
+            <Text style={styles.emptyText}>
+              {query.trim() ? 'No translations match your search.' : filter === 'favorites' ? 'No starred translations yet.' : 'Your translations will appear here.'}
+            </Text>
+          </View>
+        }
+      />
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#11181C',
+    padding: 0,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#E8ECEF',
+  },
+  filterChipActive: {
+    backgroundColor: '#1976FF',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  filterTextActive: {
+    color: '#fff',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  swipeContainer: {
+    borderRadius: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  inputText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  outputText: {
+    fontSize: 15,
+    color: '#1976FF',
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 6,
+  },
+  starButton: {
+    padding: 8,
+  },
+  deleteAction: {
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 88,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  deleteText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#687076',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams, useNavigation } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeIn } from 'react-native-reanimated';
+
+import { getConjugation, ConjugationResponse } from '../services/conjugateVerbService';
+import { ConjugationTable } from '../components/cefr/ConjugationTable';
+import { findMatchingCells } from '../utils/conjugationMatch';
+
+export default function VerbDetailsScreen() {
+  const { form, infinitive, language, tense, mood, person, number } = useLocalSearchParams<{
+    form: string;
+    infinitive: string;
+    language: string;
+    tense?: string;
+    mood?: string;
+    person?: string;
+    number?: string;
+  }>();
+  const navigation = useNavigation();
+  const [data, setData] = useState<ConjugationResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: infinitive || 'Verb',
+      headerBackTitle: 'Back',
+      headerStyle: { backgroundColor: '#F6F7FB' },
+      headerShadowVisible: false,
+    });
+  }, [navigation, infinitive]);
+
+  const loadConjugation = useCallback(async () => {
+    if (!infinitive || !language) {
+      setError('Missing verb information');
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await getConjugation(infinitive, language));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load conjugation');
+    } finally {
+      setLoading(false);
+    }
+  }, [infinitive, language]);
+
+  useEffect(() => {
+    loadConjugation();
+  }, [loadConjugation]);
+
+  const highlighted = useMemo(
+    () => (data ? findMatchingCells(data.conjugation, { form: form ?? '', person: person ?? '', number: number ?? '' }) : new Set<string>()),
+    [data, form, person, number]
+  );
+
+  const details = [
+    { label: 'Tense', value: tense },
+    { label: 'Mood', value: mood },
+    { label: 'Person', value: [person, number].filter(Boolean).join(' ') },
+  ].filter(item => !!item.value);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeIn.duration(400)} style={styles.summaryCard}>
+        <Text style={styles.formLabel}>Found in your text</Text>
+        <Text style={styles.formText}>{form}</Text>
+        <Text style={styles.infinitiveText}>
+          {infinitive}
+          {language ? <Text style={styles.languageText}>  ·  {language}</Text> : null}
+        </Text>
+        {details.length > 0 && (
+          <View style={styles.detailRow}>
+            {details.map(item => (
+              <View key={item.label} style={styles.detailChip}>
+                <Text style={styles.detailLabel}>{item.label}</Text>
+                <Text style={styles.detailValue}>{item.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </Animated.View>
+
+      {loading && (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#1976FF" />
+          <Text style={styles.loadingText}>Loading conjugation...</Text>
+        </View>
+      )}
+
+      {!loading && error && (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={24} color="#e74c3c" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadConjugation} style={styles.retryButton}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {!loading && data && (
+        <Animated.View entering={FadeIn.duration(500)}>
+          {highlighted.size === 0 && (
+            <Text style={styles.noMatchText}>
+              The form &quot;{form}&quot; does not appear in the tenses covered below.
+            </Text>
+          )}
+          <ConjugationTable conjugation={data.conjugation} highlighted={highlighted} />
+        </Animated.View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 16,
+    elevation: 6,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  formText: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#1976FF',
+  },
+  infinitiveText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 4,
+  },
+  languageText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#687076',
+    textTransform: 'capitalize',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  detailChip: {
+    backgroundColor: '#F0F7FF',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  detailLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#687076',
+    textTransform: 'uppercase',
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+    textTransform: 'capitalize',
+  },
+  centered: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#687076',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    backgroundColor: '#FDEDEC',
+    padding: 20,
+    borderRadius: 16,
+    gap: 8,
+  },
+  errorText: {
+    color: '#e74c3c',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#1976FF',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  noMatchText: {
+    fontSize: 14,
+    color: '#687076',
+    marginBottom: 16,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,484 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useNavigation } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeIn } from 'react-native-reanimated';
+
+import { NEW_CARDS_PER_DAY, useVocabularyStore } from './store/useVocabularyStore';
+import { useFeatureAccess } from '../hooks/useFeatureAccess';
+import { TTS } from '../services/ttsService';
+import { VocabularyItem } from '../services/vocabularyService';
+import { buildReviewQueue, formatNextInterval, MATURE_INTERVAL_DAYS, REVIEW_GRADES, ReviewGrade } from '../utils/srs';
+
+const SOURCE_LABELS: Record<VocabularyItem['source'], string> = {
+  translation: 'Translator',
+  synonym: 'Synonym',
+  correction: 'AI Tutor',
+  story: 'Story',
+};
+
+const GRADE_COLORS: Record<number, string> = {
+  1: '#FF3B30',
+  3: '#FF9500',
+  4: '#1976FF',
+  5: '#34C759',
+};
+
+const formatDue = (dueAt: string) => {
+  const days = Math.ceil((Date.parse(dueAt) - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+};
+
+export default function VocabularyScreen() {
+  const navigation = useNavigation();
+  const { isPremium } = useFeatureAccess();
+  const { items, isSyncing, reviewItem, removeItem, syncVocabulary } = useVocabularyStore();
+
+  // Ids of the cards in the running review session, in order
+  const [session, setSession] = useState<string[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: 'Vocabulary',
+      headerBackTitle: 'Back',
+      headerStyle: { backgroundColor: '#F6F7FB' },
+      headerShadowVisible: false,
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    syncVocabulary();
+  }, [syncVocabulary]);
+
+  const queue = useMemo(() => buildReviewQueue(items, NEW_CARDS_PER_DAY), [items]);
+  const stats = useMemo(() => ({
+    due: queue.filter(item => item.lastReviewedAt !== null).length,
+    fresh: queue.filter(item => item.lastReviewedAt === null).length,
+    total: items.length,
+    mature: items.filter(item => item.intervalDays >= MATURE_INTERVAL_DAYS).length,
+  }), [queue, items]);
+
+  const currentCard = session ? items.find(item => item.id === session[position]) : undefined;
+
+  const startReview = () => {
+    setSession(queue.map(item => item.id));
+    setPosition(0);
+    setRevealed(false);
+    setReviewedCount(0);
+  };
+
+  const endReview = () => {
+    TTS.stop();
+    setSession(null);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!session || !currentCard) return;
+    reviewItem(currentCard.id, grade);
+    setReviewedCount(count => count + 1);
+    // Forgotten cards are shown again at the end of the session
+    if (grade < 3) {
+      setSession([...session, currentCard.id]);
+    }
+    setPosition(index => index + 1);
+    setRevealed(false);
+  };
+
+  const confirmDelete = (item: VocabularyItem) => {
+    Alert.alert(
+      'Remove Card',
+      `Remove "${item.term}" from your deck?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removeItem(item.id) },
+      ]
+    );
+  };
+
+  if (session) {
+    if (!currentCard) {
+      return (
+        <View style={[styles.container, styles.centered]}>
+          <Animated.View entering={FadeIn.duration(400)} style={styles.doneCard}>
+            <Ionicons name="checkmark-circle" size={56} color="#34C759" />
+            <Text style={styles.doneTitle}>All done for today</Text>
+            <Text style={styles.doneText}>You reviewed {reviewedCount} cards.</Text>
+            <TouchableOpacity onPress={endReview} style={styles.primaryButton}>
+              <Text style={styles.primaryButtonText}>Back to Deck</Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.container}>
+        <View style={styles.sessionHeader}>
+          <Text style={styles.progressText}>
+            {Math.min(position + 1, session.length)} / {session.length}
+          </Text>
+          <TouchableOpacity onPress={endReview}>
+            <Text style={styles.endText}>End</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Animated.View key={`${currentCard.id}-${position}`} entering={FadeIn.duration(300)} style={styles.reviewCard}>
+          <View style={styles.cardMeta}>
+            <Text style={styles.languageBadge}>{currentCard.language.toUpperCase()}</Text>
+            <Text style={styles.sourceText}>{SOURCE_LABELS[currentCard.source]}</Text>
+          </View>
+
+          <Text style={styles.termText}>{currentCard.term}</Text>
+          <TouchableOpacity
+            onPress={() => TTS.speak(currentCard.term, { language: currentCard.language, isPremium })}
+            style={styles.speakButton}
+          >
+            <Ionicons name="volume-high-outline" size={22} color="#1976FF" />
+          </TouchableOpacity>
+
+          {revealed && (
+            <Animated.View entering={FadeIn.duration(300)} style={styles.answer}>
+              {currentCard.translation ? (
+                <Text style={styles.translationText}>{currentCard.translation}</Text>
+              ) : null}
+              {currentCard.context ? (
+                <Text style={styles.contextText}>{currentCard.context}</Text>
+              ) : null}
+            </Animated.View>
+          )}
+        </Animated.View>
+
+        {revealed ? (
+          <View style={styles.gradeRow}>
+            {REVIEW_GRADES.map(({ grade, label }) => (
+              <TouchableOpacity
+                key={grade}
+                onPress={() => handleGrade(grade)}
+                style={[styles.gradeButton, { backgroundColor: GRADE_COLORS[grade] }]}
+              >
+                <Text style={styles.gradeLabel}>{label}</Text>
+                <Text style={styles.gradeInterval}>{formatNextInterval(currentCard, grade)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <TouchableOpacity onPress={() => setRevealed(true)} style={[styles.primaryButton, styles.revealButton]}>
+            <Text style={styles.primaryButtonText}>Show Answer</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  const renderItem = ({ item }: { item: VocabularyItem }) => (
+    <View style={styles.row}>
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTerm} numberOfLines={1}>{item.term}</Text>
+        {item.translation ? (
+          <Text style={styles.rowTranslation} numberOfLines={1}>{item.translation}</Text>
+        ) : null}
+        <Text style={styles.rowMeta}>
+          {item.language.toUpperCase()} · {SOURCE_LABELS[item.source]} · {formatDue(item.dueAt)}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.iconButton}>
+        <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={items}
+      keyExtractor={item => item.id}
+      renderItem={renderItem}
+      ListHeaderComponent={
+        <Animated.View entering={FadeIn.duration(400)} style={styles.summaryCard}>
+          <View style={styles.summaryHeader}>
+            <Text style={styles.summaryTitle}>Today</Text>
+            {isSyncing && <ActivityIndicator size="small" color="#1976FF" />}
+          </View>
+          <View style={styles.statsRow}>
+            {[
+              { label: 'Due', value: stats.due },
+              { label: 'New', value: stats.fresh },
+              { label: 'Mature', value: stats.mature },
+              { label: 'Total', value: stats.total },
+            ].map(stat => (
+              <View key={stat.label} style={styles.stat}>
+                <Text style={styles.statValue}>{stat.value}</Text>
+                <Text style={styles.statLabel}>{stat.label}</Text>
+              </View>
+            ))}
+          </View>
+          <TouchableOpacity
+            onPress={startReview}
+            disabled={queue.length === 0}
+            style={[styles.primaryButton, queue.length === 0 && styles.primaryButtonDisabled]}
+          >
+            <Text style={styles.primaryButtonText}>
+              {queue.length === 0 ? 'Nothing to review' : `Review ${queue.length} cards`}
+            </Text>
+          </TouchableOpacity>
+        </Animated.View>
+      }
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons name="albums-outline" size={48} color="#C7C7CC" />
+          <Text style={styles.emptyText}>
+            Save words from translations, tutor corrections and stories to build your deck.
+          </Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F6F7FB',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  centered: {
+    justifyContent: 'center',
+    padding: 16,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 16,
+    elevation: 6,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#11181C',
+  },
+  statLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#687076',
+    marginTop: 2,
+  },
+  primaryButton: {
+    backgroundColor: '#1976FF',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    backgroundColor: '#B0C4DE',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTerm: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  rowTranslation: {
+    fontSize: 14,
+    color: '#444',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#687076',
+    textAlign: 'center',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  progressText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  endText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1976FF',
+  },
+  reviewCard: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 24,
+    marginHorizontal: 16,
+    minHeight: 280,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 16,
+    elevation: 6,
+  },
+  cardMeta: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  languageBadge: {
+    backgroundColor: '#E6F0FF',
+    color: '#1976FF',
+    fontWeight: '700',
+    fontSize: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  sourceText: {
+    fontSize: 12,
+    color: '#687076',
+  },
+  termText: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#11181C',
+    textAlign: 'center',
+  },
+  speakButton: {
+    marginTop: 12,
+    padding: 8,
+  },
+  answer: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    gap: 8,
+  },
+  translationText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1976FF',
+    textAlign: 'center',
+  },
+  contextText: {
+    fontSize: 14,
+    color: '#687076',
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  revealButton: {
+    marginHorizontal: 16,
+    marginTop: 24,
+  },
+  gradeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 24,
+  },
+  gradeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  gradeLabel: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  gradeInterval: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  doneCard: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 32,
+    alignItems: 'center',
+    gap: 8,
+  },
+  doneTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#11181C',
+    marginTop: 8,
+  },
+  doneText: {
+    fontSize: 15,
+    color: '#687076',
+    marginBottom: 16,
+  },
+});
@@ -1,40 +1,51 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams } from 'expo-router';
 import * as Speech from 'expo-speech';
+import { getLanguagesWithFeature } from '@/constants/Languages';
+import { DEFAULT_PREMIUM_VOICE, PREMIUM_VOICES, PremiumVoice } from '@/constants/Voices';
+import { useFeatureAccess } from '@/hooks/useFeatureAccess';
+import { TTS } from '@/services/ttsService';
+import { getDeviceVoice, getPremiumVoice, setVoice, voiceLanguageKey } from '@/services/voicePreferences';
+import { Paywall } from '../components/subscription/Paywall';
+
+const TTS_LANGUAGES = getLanguagesWithFeature('tts');
 
 const VoicePickerScreen = () => {
-  const { langCode } = useLocalSearchParams();
-  const [availableVoices, setAvailableVoices] = useState<any[]>([]);
-  const [voiceMap, setVoiceMap] = useState<{ [lang: string]: string }>({});
+  const params = useLocalSearchParams<{ langCode?: string }>();
+  const { isPremium } = useFeatureAccess();
+  const [langCode, setLangCode] = useState(voiceLanguageKey(params.langCode || 'en'));
+  const [availableVoices, setAvailableVoices] = useState<Speech.Voice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
+  const [selectedPremiumVoice, setSelectedPremiumVoice] = useState(DEFAULT_PREMIUM_VOICE);
+  // Key of the voice whose sample is playing ("device:<id>" or "premium:<id>")
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [paywallVisible, setPaywallVisible] = useState(false);
 
   useEffect(() => {
     AsyncStorage.getItem('availableVoices').then(json => {
       if (json) setAvailableVoices(JSON.parse(json));
     });
-    AsyncStorage.getItem('pronunciationVoiceMap').then(json => {
-      let map: Record<string, string> = {};
-      if (json) {
-        map = JSON.parse(json);
-      }
+    return () => {
+      Speech.stop();
+      TTS.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    getPremiumVoice(langCode).then(setSelectedPremiumVoice);
+    getDeviceVoice(langCode).then(voiceId => {
       // If no voice is set for this language, default to the first available voice
-      AsyncStorage.getItem('availableVoices').then(jsonVoices => {
-        let voices: any[] = [];
-        if (jsonVoices) voices = JSON.parse(jsonVoices);
-        const voicesForLang = voices.filter(v => v.language.startsWith(langCode as string));
-        let defaultVoice = '';
-          if (!map[langCode as string] && voicesForLang.length > 0) {
-          defaultVoice = voicesForLang[0].identifier;
-          map[langCode as string] = defaultVoice;
-          AsyncStorage.setItem('pronunciationVoiceMap', JSON.stringify(map));
-        }
-        setVoiceMap(map);
-        setSelectedVoice(map[langCode as string] || '');
-      });
+      const voicesForLang = availableVoices.filter(v => v.language.startsWith(langCode));
+      if (!voiceId && voicesForLang.length > 0) {
+        voiceId = voicesForLang[0].identifier;
+        setVoice('device', langCode, voiceId);
+      }
+      setSelectedVoice(voiceId || '');
     });
-  }, [langCode]);
+  }, [langCode, availableVoices]);
 
   // Default phrases for each language
   const getDefaultPhrase = (voiceName: string) => {
@@ -50,32 +61,134 @@ const VoicePickerScreen = () => {
       ko: `안녕하세요, 제 이름은 ${voiceName}입니다.`,
       zh: `你好，我叫${voiceName}。`,
     };
-    return phrases[langCode as string] || `Hi, my name is ${voiceName}.`;
+    return phrases[langCode] || `Hi, my name is ${voiceName}.`;
   };
 
-  const handleVoiceChange = async (voiceId: string) => {
-    setSelectedVoice(voiceId);
-    const newMap = { ...voiceMap, [langCode as string]: voiceId };
-    setVoiceMap(newMap);
-    await AsyncStorage.setItem('pronunciationVoiceMap', JSON.stringify(newMap));
-    // Stop any ongoing speech before speaking the new one
+  const stopPreview = () => {
     Speech.stop();
-    // Speak the default phrase using the selected voice's name
-    const selected = availableVoices.find(v => v.identifier === voiceId);
-    const phrase = getDefaultPhrase(selected?.name || 'Lingua Facile');
-    if (selected) {
-      Speech.speak(phrase, { voice: selected.identifier, language: selected.language });
-    } else {
-      Speech.speak(phrase);
+    TTS.stop();
+    setPreviewing(null);
+  };
+
+  const previewDeviceVoice = (voice: Speech.Voice) => {
+    const key = `device:${voice.identifier}`;
+    if (previewing === key) return stopPreview();
+    stopPreview();
+    setPreviewing(key);
+    const done = () => setPreviewing(current => (current === key ? null : current));
+    Speech.speak(getDefaultPhrase(voice.name), {
+      voice: voice.identifier,
+      language: voice.language,
+      onDone: done,
+      onStopped: done,
+      onError: done,
+    });
+  };
+
+  const previewPremiumVoice = (voice: PremiumVoice) => {
+    const key = `premium:${voice.id}`;
+    if (previewing === key) return stopPreview();
+    stopPreview();
+    setPreviewing(key);
+    const done = () => setPreviewing(current => (current === key ? null : current));
+    TTS.speak(getDefaultPhrase(voice.name), {
+      language: langCode,
+      isPremium: true,
+      voiceId: voice.id,
+      onDone: done,
+      onError: done,
+    });
+  };
+
+  const handleVoiceChange = async (voice: Speech.Voice) => {
+    setSelectedVoice(voice.identifier);
+    await setVoice('device', langCode, voice.identifier);
+    previewDeviceVoice(voice);
+  };
+
+  const handlePremiumVoiceChange = async (voice: PremiumVoice) => {
+    if (!isPremium) {
+      setPaywallVisible(true);
+      return;
     }
+    setSelectedPremiumVoice(voice.id);
+    await setVoice('premium', langCode, voice.id);
+    previewPremiumVoice(voice);
   };
 
-  const voicesForLang = availableVoices.filter(v => v.language.startsWith(langCode as string));
+  const voicesForLang = availableVoices.filter(v => v.language.startsWith(langCode));
+
+  const renderPreviewButton = (key: string, onPress: () => void) => (
+    <TouchableOpacity
+      onPress={onPress}
+      style={styles.previewButton}
+      accessibilityLabel={previewing === key ? 'Stop sample' : 'Play sample'}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <Ionicons name={previewing === key ? 'stop-circle' : 'play-circle'} size={28} color="#1976FF" />
+    </TouchableOpacity>
+  );
 
   return (
     <View style={{ flex: 1, backgroundColor: '#fff' }}>
+      <Paywall visible={paywallVisible} onClose={() => setPaywallVisible(false)} />
       <ScrollView contentContainerStyle={{ padding: 24, paddingBottom: 48 }} keyboardShouldPersistTaps="handled">
         <Text style={styles.title}>Select Voice</Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.languageRow}>
+          {TTS_LANGUAGES.map(language => (
+            <TouchableOpacity
+              key={language.code}
+              style={[styles.languageChip, langCode === language.code && styles.languageChipSelected]}
+              onPress={() => {
+                stopPreview();
+                setLangCode(language.code);
+              }}
+            >
+              <Text style={[styles.languageChipText, langCode === language.code && styles.languageChipTextSelected]}>
+                {language.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <Text style={styles.sectionTitle}>Premium voices</Text>
+        <Text style={styles.sectionHint}>
+          {isPremium
+            ? 'Natural voices used for chat replies, translations and stories.'
+            : 'Upgrade to Premium to hear chat, translations and stories in these voices.'}
+        </Text>
+        {PREMIUM_VOICES.map(voice => (
+          <TouchableOpacity
+            key={voice.id}
+            style={[
+              styles.voiceOption,
+              isPremium && selectedPremiumVoice === voice.id && styles.voiceOptionSelected
+            ]}
+            onPress={() => handlePremiumVoiceChange(voice)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isPremium && selectedPremiumVoice === voice.id }}
+            activeOpacity={0.7}
+          >
+            {isPremium ? (
+              <View style={styles.checkboxOuter}>
+                {selectedPremiumVoice === voice.id && <View style={styles.checkboxInner} />}
+              </View>
+            ) : (
+              <Ionicons name="lock-closed" size={20} color="#9BA1A6" style={styles.lockIcon} />
+            )}
+            <View style={styles.voiceText}>
+              <Text style={styles.voiceLabel}>{voice.name}</Text>
+              <Text style={styles.voiceDescription}>{voice.description}</Text>
+            </View>
+            {isPremium && renderPreviewButton(`premium:${voice.id}`, () => previewPremiumVoice(voice))}
+          </TouchableOpacity>
+        ))}
+
+        <Text style={styles.sectionTitle}>Device voices</Text>
+        <Text style={styles.sectionHint}>
+          {isPremium ? 'Used when you are offline.' : 'Used for all speech in the app.'}
+        </Text>
         {voicesForLang.length === 0 ? (
           <Text style={{ textAlign: 'center', marginTop: 24 }}>No voices available for this language.</Text>
         ) : (
@@ -86,7 +199,7 @@ const VoicePickerScreen = () => {
                 styles.voiceOption,
                 selectedVoice === voice.identifier && styles.voiceOptionSelected
               ]}
-              onPress={() => handleVoiceChange(voice.identifier)}
+              onPress={() => handleVoiceChange(voice)}
               accessibilityRole="checkbox"
               accessibilityState={{ checked: selectedVoice === voice.identifier }}
               activeOpacity={0.7}
@@ -94,7 +207,10 @@ const VoicePickerScreen = () => {
               <View style={styles.checkboxOuter}>
                 {selectedVoice === voice.identifier && <View style={styles.checkboxInner} />}
               </View>
-              <Text style={styles.voiceLabel}>{voice.name}</Text>
+              <View style={styles.voiceText}>
+                <Text style={styles.voiceLabel}>{voice.name}</Text>
+              </View>
+              {renderPreviewButton(`device:${voice.identifier}`, () => previewDeviceVoice(voice))}
             </TouchableOpacity>
           ))
         )}
@@ -106,6 +222,42 @@ const VoicePickerScreen = () => {
 const styles = StyleSheet.create({
   container: { flex: 1, padding: 24, backgroundColor: '#fff' },
   title: { fontSize: 22, fontWeight: 'bold', marginBottom: 16, textAlign: 'center' },
+  languageRow: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  languageChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E6F0FF',
+    backgroundColor: '#fff',
+  },
+  languageChipSelected: {
+    borderColor: '#1976FF',
+    backgroundColor: '#1976FF',
+  },
+  languageChipText: {
+    fontSize: 15,
+    color: '#11181C',
+  },
+  languageChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 20,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#687076',
+    marginTop: 4,
+    marginBottom: 12,
+  },
   voiceOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -138,10 +290,25 @@ const styles = StyleSheet.create({
     borderRadius: 3,
     backgroundColor: '#1976FF',
   },
+  lockIcon: {
+    width: 22,
+    marginRight: 14,
+  },
+  voiceText: {
+    flex: 1,
+  },
   voiceLabel: {
     fontSize: 18,
     color: '#11181C',
   },
+  voiceDescription: {
+    fontSize: 14,
+    color: '#687076',
+    marginTop: 2,
+  },
+  previewButton: {
+    marginLeft: 12,
+  },
 });
 
 export default VoicePickerScreen;
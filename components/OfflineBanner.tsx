@@ -0,0 +1,41 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useIsOnline } from '../hooks/useIsOnline';
+
+/**
+ * Shown across the top of the app while there is no connection. The root
+ * layout puts the screens in their own safe area below it.
+ */
+export const OfflineBanner = () => {
+  const isOnline = useIsOnline();
+  const { top } = useSafeAreaInsets();
+
+  if (isOnline) return null;
+
+  return (
+    <View style={[styles.banner, { paddingTop: top + 6 }]} accessibilityRole="alert">
+      <Ionicons name="cloud-offline" size={16} color="#fff" />
+      <Text style={styles.text}>You are offline. Saved work still opens, and changes sync when you reconnect.</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 6,
+    backgroundColor: '#687076',
+  },
+  text: {
+    flexShrink: 1,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
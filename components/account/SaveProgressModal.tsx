@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AccountExistsError,
+  finishGuestUpgrade,
+  getGuestUpgradeStatus,
+  GuestMergeError,
+  GuestUpgradeStatus,
+  mergeGuestIntoAccount,
+  resendUpgradeConfirmation,
+  startGuestUpgrade,
+} from '../../services/accountService';
+import { isStrongPassword } from '../../utils/password';
+
+interface SaveProgressModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Called once the guest has a permanent account (linked or merged) */
+  onSaved: () => void;
+}
+
+// 'exists': the email has an account already, so the guest signs in to it instead
+type Step = GuestUpgradeStatus | 'exists';
+
+export const SaveProgressModal: React.FC<SaveProgressModalProps> = ({ visible, onClose, onSaved }) => {
+  const [step, setStep] = useState<Step>('guest');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refreshStatus = useCallback(async () => {
+    setBusy(true);
+    try {
+      const { status, email: statusEmail } = await getGuestUpgradeStatus();
+      setStep(status);
+      if (statusEmail) setEmail(statusEmail);
+      return status;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPassword('');
+    setConfirmPassword('');
+    refreshStatus();
+  }, [visible, refreshStatus]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Something went wrong', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendLink = () => run(async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return;
+    }
+    try {
+      await startGuestUpgrade(email);
+      setStep('awaitingConfirmation');
+    } catch (error) {
+      if (error instanceof AccountExistsError) {
+        setStep('exists');
+        return;
+      }
+      throw error;
+    }
+  });
+
+  const handleCheckConfirmation = async () => {
+    const status = await refreshStatus();
+    if (status === 'awaitingConfirmation') {
+      Alert.alert('Not Confirmed Yet', 'Open the link we emailed you, then try again.');
+    }
+  };
+
+  const handleSetPassword = () => run(async () => {
+    if (password !== confirmPassword) {
+      Alert.alert('Password Mismatch', 'Passwords do not match.');
+      return;
+    }
+    if (!isStrongPassword(password)) {
+      Alert.alert('Weak Password', 'Use 8+ characters with upper and lower case letters, a digit and a special character.');
+      return;
+    }
+    await finishGuestUpgrade(password);
+    setStep('account');
+    onSaved();
+  });
+
+  const handleMerge = () => run(async () => {
+    await mergeGuestIntoAccount(email, password)
+      .catch(error => {
+        // Signed in but the move failed: still a permanent account, so report and carry on
+        if (!(error instanceof GuestMergeError)) throw error;
+        Alert.alert('Signed In', error.message);
+      });
+    setStep('account');
+    onSaved();
+  });
+
+  const renderContent = () => {
+    switch (step) {
+      case 'guest':
+        return (
+          <>
+            <Text style={styles.title}>Save your progress</Text>
+            <Text style={styles.body}>
+              You are using a guest account. Add your email to keep your vocabulary deck, history,
+              stories and usage, and to sign in on other devices.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Email Address"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              keyboardType="email-address"
+              value={email}
+              onChangeText={setEmail}
+            />
+            <PrimaryButton label="Send Confirmation Link" onPress={handleSendLink} busy={busy} />
+          </>
+        );
+      case 'awaitingConfirmation':
+        return (
+          <>
+            <Text style={styles.title}>Check your inbox</Text>
+            <Text style={styles.body}>
+              We sent a confirmation link to {email}. Open it, then come back here to choose a password.
+            </Text>
+            <PrimaryButton label="I've Confirmed My Email" onPress={handleCheckConfirmation} busy={busy} />
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => run(() => resendUpgradeConfirmation(email))}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Resend Link</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('guest')} disabled={busy}>
+              <Text style={styles.secondaryButtonText}>Use a Different Email</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'needsPassword':
+        return (
+          <>
+            <Text style={styles.title}>Choose a password</Text>
+            <Text style={styles.body}>Your email {email} is confirmed. Set a password to sign in with it.</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Password"
+              placeholderTextColor="#999"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm Password"
+              placeholderTextColor="#999"
+              secureTextEntry
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+            />
+            <PrimaryButton label="Save Password" onPress={handleSetPassword} busy={busy} />
+          </>
+        );
+      case 'exists':
+        return (
+          <>
+            <Text style={styles.title}>You already have an account</Text>
+            <Text style={styles.body}>
+              {email} is already registered. Sign in to it and your guest progress will be moved there.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Password"
+              placeholderTextColor="#999"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+            <PrimaryButton label="Sign In and Move Progress" onPress={handleMerge} busy={busy} />
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('guest')} disabled={busy}>
+              <Text style={styles.secondaryButtonText}>Use a Different Email</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'account':
+        return (
+          <>
+            <View style={styles.iconBadge}>
+              <Ionicons name="checkmark-circle" size={48} color="#2ecc71" />
+            </View>
+            <Text style={styles.title}>Your progress is saved</Text>
+            <Text style={styles.body}>Sign in with {email || 'your email'} on any device to pick up where you left off.</Text>
+            <PrimaryButton label="Done" onPress={onClose} busy={false} />
+          </>
+        );
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color="#11181C" />
+          </TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {renderContent()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const PrimaryButton = ({ label, onPress, busy }: { label: string; onPress: () => void; busy: boolean }) => (
+  <TouchableOpacity style={[styles.primaryButton, busy && styles.buttonDisabled]} onPress={onPress} disabled={busy}>
+    {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>{label}</Text>}
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    padding: 16,
+    alignItems: 'flex-end',
+  },
+  closeButton: {
+    padding: 8,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  iconBadge: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  body: {
+    fontSize: 16,
+    color: '#687076',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#1976FF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#1976FF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -2,6 +2,9 @@ import React from 'react';
 import { TextInput, View, TouchableOpacity, Text, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
+import { INPUT_LIMITS } from '@/constants/InputLimits';
+
+const MAX_LENGTH = INPUT_LIMITS.cefrSentence.maxLength;
 
 interface CEFRInputProps {
   input: string;
@@ -39,6 +42,7 @@ export const CEFRInput: React.FC<CEFRInputProps> = ({
         style={styles.input}
         value={input}
         onChangeText={setInput}
+        maxLength={MAX_LENGTH}
         placeholder="Type or paste a sentence..."
         placeholderTextColor="#A0A0A0"
         multiline
@@ -58,7 +62,7 @@ export const CEFRInput: React.FC<CEFRInputProps> = ({
         <TouchableOpacity
           onPress={async () => {
             try {
-              const text = await Clipboard.getStringAsync();
+              const text = (await Clipboard.getStringAsync()).slice(0, MAX_LENGTH);
               if (text) setInput(text);
             } catch (e) {
               console.log(e);
@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+interface ConjugationTableProps {
+  conjugation: Record<string, any>;
+  highlighted: Set<string>;
+}
+
+const PERSON_LABELS: Record<string, string> = {
+  '1s': '1st sg.',
+  '2s': '2nd sg.',
+  '3s': '3rd sg.',
+  '1p': '1st pl.',
+  '2p': '2nd pl.',
+  '3p': '3rd pl.',
+};
+
+const formatKey = (key: string) => PERSON_LABELS[key] ?? key.replace(/_/g, ' ');
+
+const isLeafGroup = (node: Record<string, unknown>) =>
+  Object.values(node).every(value => typeof value === 'string');
+
+export const ConjugationTable: React.FC<ConjugationTableProps> = ({ conjugation, highlighted }) => {
+  const renderNode = (node: Record<string, any>, path: string[], depth: number): React.ReactNode => {
+    if (isLeafGroup(node)) {
+      return (
+        <View style={styles.table}>
+          {Object.entries(node).map(([key, value], idx) => {
+            const isMatch = highlighted.has([...path, key].join('.'));
+            return (
+              <View
+                key={key}
+                style={[styles.row, idx > 0 && styles.rowBorder, isMatch && styles.rowHighlighted]}
+              >
+                <Text style={[styles.rowLabel, isMatch && styles.textHighlighted]}>{formatKey(key)}</Text>
+                <Text style={[styles.rowValue, isMatch && styles.textHighlighted]}>{value}</Text>
+              </View>
+            );
+          })}
+        </View>
+      );
+    }
+
+    return Object.entries(node).map(([key, value]) => {
+      const childPath = [...path, key];
+      return (
+        <View key={childPath.join('.')} style={depth === 0 ? styles.group : styles.subGroup}>
+          <Text style={depth === 0 ? styles.groupTitle : styles.subGroupTitle}>{formatKey(key)}</Text>
+          {typeof value === 'string' ? (
+            <View style={styles.table}>
+              <View style={[styles.row, highlighted.has(childPath.join('.')) && styles.rowHighlighted]}>
+                <Text style={styles.rowValue}>{value}</Text>
+              </View>
+            </View>
+          ) : (
+            renderNode(value ?? {}, childPath, depth + 1)
+          )}
+        </View>
+      );
+    });
+  };
+
+  return <View>{renderNode(conjugation, [], 0)}</View>;
+};
+
+const styles = StyleSheet.create({
+  group: {
+    marginBottom: 24,
+  },
+  subGroup: {
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  subGroupTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+    textTransform: 'capitalize',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  table: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  rowBorder: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#E5E5EA',
+  },
+  rowHighlighted: {
+    backgroundColor: '#E8F1FF',
+  },
+  rowLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#687076',
+    fontWeight: '600',
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 16,
+    color: '#11181C',
+  },
+  textHighlighted: {
+    color: '#1976FF',
+    fontWeight: '700',
+  },
+});
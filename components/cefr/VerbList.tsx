@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MotiView } from 'moti';
+import type { VerbAnalysis } from '../../services/analyzeVerbs';
+
+interface VerbListProps {
+  verbs: VerbAnalysis[];
+  loading: boolean;
+  error: string | null;
+  onSelect: (verb: VerbAnalysis) => void;
+}
+
+const describe = (verb: VerbAnalysis) =>
+  [verb.tense, verb.mood, [verb.person, verb.number].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
+
+export const VerbList: React.FC<VerbListProps> = ({ verbs, loading, error, onSelect }) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionHeader}>Verbs in this Text</Text>
+
+      {loading && (
+        <View style={styles.stateRow}>
+          <ActivityIndicator size="small" color="#1976FF" />
+          <Text style={styles.stateText}>Finding verbs...</Text>
+        </View>
+      )}
+
+      {!loading && error && (
+        <View style={styles.stateRow}>
+          <Ionicons name="alert-circle-outline" size={18} color="#e74c3c" />
+          <Text style={[styles.stateText, { color: '#e74c3c' }]}>{error}</Text>
+        </View>
+      )}
+
+      {!loading && !error && verbs.length === 0 && (
+        <View style={styles.stateRow}>
+          <Text style={styles.stateText}>No verbs found.</Text>
+        </View>
+      )}
+
+      {!loading && verbs.map((verb, idx) => (
+        <MotiView
+          key={`${verb.form}-${idx}`}
+          from={{ opacity: 0, translateY: 10 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          transition={{ type: 'timing', duration: 400, delay: idx * 80 }}
+        >
+          <TouchableOpacity style={styles.verbCard} onPress={() => onSelect(verb)} activeOpacity={0.7}>
+            <View style={styles.verbInfo}>
+              <View style={styles.verbTitleRow}>
+                <Text style={styles.verbForm}>{verb.form}</Text>
+                <Text style={styles.verbInfinitive}>{verb.infinitive}</Text>
+              </View>
+              <Text style={styles.verbDetails}>{describe(verb)}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+          </TouchableOpacity>
+        </MotiView>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 40,
+  },
+  sectionHeader: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#11181C',
+    marginBottom: 16,
+    marginLeft: 4,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  stateText: {
+    fontSize: 14,
+    color: '#687076',
+    flex: 1,
+  },
+  verbCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  verbInfo: {
+    flex: 1,
+  },
+  verbTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+    marginBottom: 4,
+  },
+  verbForm: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  verbInfinitive: {
+    fontSize: 14,
+    color: '#1976FF',
+    fontWeight: '600',
+  },
+  verbDetails: {
+    fontSize: 13,
+    color: '#687076',
+    textTransform: 'capitalize',
+  },
+});
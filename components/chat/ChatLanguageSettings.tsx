@@ -1,3 +1,4 @@
+import { getLanguageName } from '@/constants/Languages';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useState } from 'react';
 import { FlatList, Modal, Pressable, Text, TouchableOpacity, View } from 'react-native';
@@ -50,7 +51,7 @@ export const ChatLanguageSettings: React.FC<ChatLanguageSettingsProps> = ({
                             style={{ flex: 1, paddingVertical: 16, alignItems: 'center', borderBottomWidth: 2, borderBottomColor: activeTab === 'source' ? '#1976FF' : 'transparent' }}
                         >
                             <Text style={{ fontSize: 16, fontWeight: '600', color: activeTab === 'source' ? '#1976FF' : '#999' }}>I Speak (Native)</Text>
-                            <Text style={{ fontSize: 14, color: '#666', marginTop: 4 }}>{languages.find(l => l.code === sourceLang)?.name}</Text>
+                            <Text style={{ fontSize: 14, color: '#666', marginTop: 4 }}>{getLanguageName(sourceLang)}</Text>
                         </TouchableOpacity>
 
                         <TouchableOpacity
@@ -58,7 +59,7 @@ export const ChatLanguageSettings: React.FC<ChatLanguageSettingsProps> = ({
                             style={{ flex: 1, paddingVertical: 16, alignItems: 'center', borderBottomWidth: 2, borderBottomColor: activeTab === 'target' ? '#1976FF' : 'transparent' }}
                         >
                             <Text style={{ fontSize: 16, fontWeight: '600', color: activeTab === 'target' ? '#1976FF' : '#999' }}>I'm Learning</Text>
-                            <Text style={{ fontSize: 14, color: '#666', marginTop: 4 }}>{languages.find(l => l.code === targetLang)?.name}</Text>
+                            <Text style={{ fontSize: 14, color: '#666', marginTop: 4 }}>{getLanguageName(targetLang)}</Text>
                         </TouchableOpacity>
                     </View>
 
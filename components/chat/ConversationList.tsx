@@ -0,0 +1,244 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { Conversation } from '../../services/conversationService';
+
+interface ConversationListProps {
+    visible: boolean;
+    onClose: () => void;
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    isSyncing: boolean;
+    onSelect: (conversation: Conversation) => void;
+    onNew: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) => {
+    const date = new Date(iso);
+    const today = new Date();
+    if (date.toDateString() === today.toDateString()) {
+        return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString();
+};
+
+export const ConversationList: React.FC<ConversationListProps> = ({
+    visible,
+    onClose,
+    conversations,
+    activeConversationId,
+    isSyncing,
+    onSelect,
+    onNew,
+    onRename,
+    onDelete,
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const savedConversations = conversations.filter(c => c.messages.length > 0);
+
+    const startEditing = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftTitle.trim()) {
+            onRename(editingId, draftTitle);
+        }
+        setEditingId(null);
+    };
+
+    const confirmDelete = (conversation: Conversation) => {
+        Alert.alert(
+            'Delete Conversation',
+            `Delete "${conversation.title}"? This cannot be undone.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => onDelete(conversation.id) },
+            ]
+        );
+    };
+
+    const renderItem = ({ item }: { item: Conversation }) => {
+        const isActive = item.id === activeConversationId;
+        const isEditing = item.id === editingId;
+        const messageCount = item.messages.filter(m => m.role !== 'system').length;
+
+        return (
+            <TouchableOpacity
+                style={[styles.row, isActive && styles.rowActive]}
+                onPress={() => !isEditing && onSelect(item)}
+                activeOpacity={0.7}
+            >
+                <View style={styles.rowContent}>
+                    {isEditing ? (
+                        <TextInput
+                            style={styles.titleInput}
+                            value={draftTitle}
+                            onChangeText={setDraftTitle}
+                            onSubmitEditing={commitRename}
+                            onBlur={commitRename}
+                            autoFocus
+                            returnKeyType="done"
+                        />
+                    ) : (
+                        <Text style={[styles.title, isActive && styles.titleActive]} numberOfLines={1}>
+                            {item.title}
+                        </Text>
+                    )}
+                    <Text style={styles.meta}>
+                        {item.sourceLang.toUpperCase()} → {item.targetLang.toUpperCase()} · {item.userLevel} · {messageCount} messages · {formatDate(item.updatedAt)}
+                    </Text>
+                </View>
+                <TouchableOpacity onPress={() => startEditing(item)} style={styles.iconButton}>
+                    <Ionicons name="pencil" size={18} color="#687076" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                </TouchableOpacity>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View style={styles.backdrop}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>Conversations</Text>
+                        {isSyncing && <ActivityIndicator size="small" color="#1976FF" />}
+                        <TouchableOpacity onPress={onNew} style={styles.newButton}>
+                            <Ionicons name="add" size={18} color="#fff" />
+                            <Text style={styles.newButtonText}>New</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <FlatList
+                        data={savedConversations}
+                        keyExtractor={item => item.id}
+                        renderItem={renderItem}
+                        contentContainerStyle={{ padding: 16 }}
+                        keyboardShouldPersistTaps="handled"
+                        ListEmptyComponent={
+                            <View style={styles.empty}>
+                                <Ionicons name="chatbubbles-outline" size={48} color="#C7C7CC" />
+                                <Text style={styles.emptyText}>No saved conversations yet.</Text>
+                            </View>
+                        }
+                    />
+
+                    <TouchableOpacity onPress={onClose} style={styles.doneButton}>
+                        <Text style={styles.doneButtonText}>Done</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: 'white',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        height: '75%',
+        paddingBottom: 24,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#eee',
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#11181C',
+        flex: 1,
+    },
+    newButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#1976FF',
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 12,
+        gap: 4,
+    },
+    newButtonText: {
+        color: '#fff',
+        fontWeight: '600',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        paddingHorizontal: 12,
+        borderRadius: 12,
+        marginBottom: 4,
+    },
+    rowActive: {
+        backgroundColor: '#F0F7FF',
+    },
+    rowContent: {
+        flex: 1,
+    },
+    title: {
+        fontSize: 16,
+        color: '#333',
+        fontWeight: '500',
+    },
+    titleActive: {
+        color: '#1976FF',
+        fontWeight: '600',
+    },
+    titleInput: {
+        fontSize: 16,
+        color: '#11181C',
+        borderBottomWidth: 1,
+        borderBottomColor: '#1976FF',
+        paddingVertical: 2,
+    },
+    meta: {
+        fontSize: 12,
+        color: '#687076',
+        marginTop: 4,
+    },
+    iconButton: {
+        padding: 8,
+    },
+    empty: {
+        alignItems: 'center',
+        paddingVertical: 40,
+        gap: 12,
+    },
+    emptyText: {
+        fontSize: 15,
+        color: '#687076',
+    },
+    doneButton: {
+        marginTop: 16,
+        marginHorizontal: 16,
+        backgroundColor: '#11181C',
+        paddingVertical: 16,
+        borderRadius: 16,
+        alignItems: 'center',
+    },
+    doneButtonText: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,160 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SCENARIOS, TutorScenario } from '../../constants/Scenarios';
+
+interface ScenarioPickerProps {
+    visible: boolean;
+    onClose: () => void;
+    activeScenarioId: string | null;
+    onSelect: (scenario: TutorScenario) => void;
+}
+
+const SCENARIO_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+    restaurant: 'restaurant-outline',
+    job_interview: 'briefcase-outline',
+    doctor_visit: 'medkit-outline',
+    hotel_booking: 'bed-outline',
+};
+
+export const ScenarioPicker: React.FC<ScenarioPickerProps> = ({
+    visible,
+    onClose,
+    activeScenarioId,
+    onSelect,
+}) => {
+    const renderItem = ({ item }: { item: TutorScenario }) => {
+        const isActive = item.id === activeScenarioId;
+
+        return (
+            <TouchableOpacity
+                style={[styles.row, isActive && styles.rowActive]}
+                onPress={() => onSelect(item)}
+                activeOpacity={0.7}
+            >
+                <View style={styles.iconBadge}>
+                    <Ionicons name={SCENARIO_ICONS[item.id] ?? 'people-outline'} size={22} color="#1976FF" />
+                </View>
+                <View style={styles.rowContent}>
+                    <Text style={[styles.title, isActive && styles.titleActive]}>{item.title}</Text>
+                    <Text style={styles.summary}>{item.summary}</Text>
+                    <Text style={styles.meta}>{item.goals.length} goals</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View style={styles.backdrop}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.headerTitle}>Role-play</Text>
+                    </View>
+                    <Text style={styles.intro}>
+                        The tutor plays a part and steers the conversation towards a few goals. Starting a scenario opens a new conversation.
+                    </Text>
+
+                    <FlatList
+                        data={SCENARIOS}
+                        keyExtractor={item => item.id}
+                        renderItem={renderItem}
+                        contentContainerStyle={{ padding: 16 }}
+                    />
+
+                    <TouchableOpacity onPress={onClose} style={styles.doneButton}>
+                        <Text style={styles.doneButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: 'white',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        height: '75%',
+        paddingBottom: 24,
+    },
+    header: {
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#eee',
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#11181C',
+    },
+    intro: {
+        fontSize: 14,
+        color: '#687076',
+        lineHeight: 20,
+        paddingHorizontal: 20,
+        paddingTop: 12,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        paddingHorizontal: 12,
+        borderRadius: 12,
+        marginBottom: 4,
+        gap: 12,
+    },
+    rowActive: {
+        backgroundColor: '#F0F7FF',
+    },
+    iconBadge: {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: '#E6F0FF',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    rowContent: {
+        flex: 1,
+    },
+    title: {
+        fontSize: 16,
+        color: '#333',
+        fontWeight: '600',
+    },
+    titleActive: {
+        color: '#1976FF',
+    },
+    summary: {
+        fontSize: 14,
+        color: '#333',
+        marginTop: 2,
+    },
+    meta: {
+        fontSize: 12,
+        color: '#687076',
+        marginTop: 4,
+    },
+    doneButton: {
+        marginTop: 16,
+        marginHorizontal: 16,
+        backgroundColor: '#11181C',
+        paddingVertical: 16,
+        borderRadius: 16,
+        alignItems: 'center',
+    },
+    doneButtonText: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
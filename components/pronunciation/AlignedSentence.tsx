@@ -0,0 +1,39 @@
+import { AlignedWord, WordStatus, wordSeparator } from '@/constants/Pronunciation';
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+const WORD_COLORS: Record<WordStatus, string> = {
+  correct: '#43B581',
+  close: '#F5A623',
+  wrong: '#FF4D4F',
+  missed: '#FF4D4F',
+  extra: '#A0A0A0',
+};
+
+export const scoreColor = (score: number) => (score >= 85 ? '#43B581' : score >= 60 ? '#F5A623' : '#FF4D4F');
+
+interface AlignedSentenceProps {
+  words: AlignedWord[];
+  language: string | null;
+  style?: StyleProp<TextStyle>;
+}
+
+/** The expected sentence with each word colored by how it was heard; skipped words are struck through. */
+export const AlignedSentence: React.FC<AlignedSentenceProps> = ({ words, language, style }) => (
+  <Text style={style}>
+    {words.filter(word => word.expected !== null).map((word, index) => (
+      <Text
+        key={index}
+        style={[{ color: WORD_COLORS[word.status] }, word.status === 'missed' && styles.missedWord]}
+      >
+        {word.expected}{wordSeparator(language)}
+      </Text>
+    ))}
+  </Text>
+);
+
+const styles = StyleSheet.create({
+  missedWord: {
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,450 @@
+import { splitSentences } from '@/constants/Pronunciation';
+import { useIsOnline } from '@/hooks/useIsOnline';
+import { usePronunciationCheck } from '@/hooks/usePronunciationCheck';
+import { PronunciationResult } from '@/services/pronunciationService';
+import { TTS } from '@/services/ttsService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AlignedSentence, scoreColor } from '../pronunciation/AlignedSentence';
+import { Paywall } from '../subscription/Paywall';
+
+interface ShadowingPanelProps {
+  text: string;
+  language: string;
+  isPremium: boolean;
+}
+
+// Most frequent words to retry shown in the session summary
+const MAX_SUMMARY_WORDS = 10;
+
+/**
+ * Shadowing: each sentence of `text` is played, the learner repeats it right
+ * after (recording starts when playback ends) and the attempt is scored
+ * before moving on. Scores only last for the session.
+ */
+export const ShadowingPanel: React.FC<ShadowingPanelProps> = ({ text, language, isPremium }) => {
+  const sentences = useMemo(() => splitSentences(text), [text]);
+  const [index, setIndex] = useState(0);
+  const [results, setResults] = useState<(PronunciationResult | null)[]>(() => sentences.map(() => null));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const [paywallVisible, setPaywallVisible] = useState(false);
+  // Bumped on every play/stop so a finished earlier playback does not start recording
+  const playGeneration = useRef(0);
+
+  const { isRecording, isChecking, start, stopAndCheck } = usePronunciationCheck(() => setPaywallVisible(true));
+  const isOnline = useIsOnline();
+
+  useEffect(() => {
+    const generation = playGeneration;
+    return () => {
+      generation.current++;
+      TTS.stop();
+    };
+  }, []);
+
+  const sentence = sentences[index] ?? '';
+  const result = results[index];
+  const isBusy = isRecording || isChecking;
+
+  // Play sentence `at`; when `thenRecord`, start recording the learner as soon as it ends
+  const play = (at: number, thenRecord: boolean) => {
+    const generation = ++playGeneration.current;
+    const finish = (recordNow: boolean) => {
+      if (playGeneration.current !== generation) return;
+      setIsPlaying(false);
+      if (recordNow) start();
+    };
+    setIsPlaying(true);
+    TTS.speak(sentences[at], {
+      language,
+      isPremium,
+      onDone: () => finish(thenRecord && isOnline),
+      onError: () => finish(false),
+    });
+  };
+
+  const stopPlaying = () => {
+    playGeneration.current++;
+    TTS.stop();
+    setIsPlaying(false);
+  };
+
+  const select = (at: number, thenRecord: boolean) => {
+    setIndex(at);
+    setShowSummary(false);
+    play(at, thenRecord);
+  };
+
+  const handleMicPress = async () => {
+    if (!isRecording) {
+      stopPlaying();
+      await start();
+      return;
+    }
+    const checked = await stopAndCheck(sentence, language);
+    if (checked) setResults(prev => prev.map((r, i) => (i === index ? checked : r)));
+  };
+
+  const handleNext = () => {
+    if (index < sentences.length - 1) {
+      select(index + 1, true);
+    } else {
+      stopPlaying();
+      setShowSummary(true);
+    }
+  };
+
+  const handleRestart = () => {
+    stopPlaying();
+    setResults(sentences.map(() => null));
+    setIndex(0);
+    setShowSummary(false);
+  };
+
+  const scored = results.filter((r): r is PronunciationResult => r !== null);
+  const average = scored.length
+    ? Math.round(scored.reduce((sum, r) => sum + r.score, 0) / scored.length)
+    : 0;
+  const summaryWords = useMemo(() => {
+    const counts = new Map<string, number>();
+    results.forEach(r => r?.retryWords.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1)));
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SUMMARY_WORDS)
+      .map(([word]) => word);
+  }, [results]);
+
+  if (!sentences.length) {
+    return <Text style={styles.emptyText}>This story has no sentences to practice.</Text>;
+  }
+
+  const sentenceList = (
+    <View style={styles.card}>
+      <Text style={styles.label}>SENTENCES</Text>
+      {sentences.map((item, i) => (
+        <TouchableOpacity
+          key={i}
+          onPress={() => select(i, false)}
+          disabled={isBusy}
+          style={[styles.listRow, i === index && !showSummary && styles.listRowActive]}
+        >
+          <Text style={styles.listText} numberOfLines={2}>{item}</Text>
+          {results[i] ? (
+            <View style={[styles.miniScore, { backgroundColor: scoreColor(results[i]!.score) }]}>
+              <Text style={styles.miniScoreText}>{results[i]!.score}</Text>
+            </View>
+          ) : (
+            <Ionicons name="play-circle-outline" size={22} color="#B0B7C3" />
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={styles.scrollView}
+      contentContainerStyle={styles.scrollContent}
+      showsVerticalScrollIndicator={false}
+    >
+      <Paywall
+        visible={paywallVisible}
+        onClose={() => setPaywallVisible(false)}
+        feature="Pronunciation Practice"
+      />
+
+      {showSummary ? (
+        <View style={[styles.card, styles.summaryCard]}>
+          <Ionicons name={average >= 85 ? 'trophy' : 'ribbon'} size={48} color={average >= 85 ? '#FFD700' : '#1976FF'} />
+          <Text style={styles.summaryTitle}>Session Complete</Text>
+          <Text style={styles.summaryText}>
+            {scored.length} of {sentences.length} sentences shadowed · average score {average}
+          </Text>
+          {summaryWords.length > 0 && (
+            <>
+              <Text style={[styles.label, styles.summaryLabel]}>WORDS TO WORK ON</Text>
+              <View style={styles.chips}>
+                {summaryWords.map(word => (
+                  <TouchableOpacity key={word} onPress={() => TTS.speak(word, { language, isPremium })} style={styles.chip}>
+                    <Ionicons name="volume-medium-outline" size={14} color="#1976FF" />
+                    <Text style={styles.chipText}>{word}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+          <TouchableOpacity onPress={handleRestart} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>Start Over</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <View style={styles.progressRow}>
+            <Text style={styles.label}>SENTENCE {index + 1} OF {sentences.length}</Text>
+            <TouchableOpacity onPress={() => (isPlaying ? stopPlaying() : play(index, false))} disabled={isBusy}>
+              <Ionicons name={isPlaying ? 'stop-circle-outline' : 'refresh'} size={22} color="#1976FF" />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${(scored.length / sentences.length) * 100}%` }]} />
+          </View>
+
+          {result ? (
+            <AlignedSentence words={result.words} language={language} style={styles.sentence} />
+          ) : (
+            <Text style={styles.sentence}>{sentence}</Text>
+          )}
+
+          {result && (
+            <View style={styles.scoreRow}>
+              <View style={[styles.scoreBadge, { backgroundColor: scoreColor(result.score) }]}>
+                <Text style={styles.scoreText}>{result.score}</Text>
+              </View>
+              <Text style={styles.transcript} numberOfLines={3}>
+                {result.transcript || '…nothing we could make out'}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.controls}>
+            {isChecking ? (
+              <ActivityIndicator size="large" color="#1976FF" />
+            ) : (
+              <TouchableOpacity
+                onPress={isRecording || result ? handleMicPress : () => play(index, true)}
+                disabled={isPlaying || (!isOnline && !isRecording)}
+                style={[
+                  styles.mainButton,
+                  isRecording && styles.mainButtonRecording,
+                  (isPlaying || (!isOnline && !isRecording)) && { opacity: 0.5 },
+                ]}
+              >
+                <Ionicons name={isRecording ? 'stop' : result ? 'mic' : 'play'} size={28} color="#fff" />
+              </TouchableOpacity>
+            )}
+            {result && !isBusy && (
+              <TouchableOpacity onPress={handleNext} style={styles.nextButton}>
+                <Text style={styles.nextButtonText}>
+                  {index < sentences.length - 1 ? 'Next' : 'Finish'}
+                </Text>
+                <Ionicons name="arrow-forward" size={18} color="#fff" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.hint}>
+            {!isOnline
+              ? 'Shadowing needs a connection to score you'
+              : isPlaying
+                ? 'Listen…'
+                : isRecording
+                  ? 'Now repeat it, then tap to stop'
+                  : isChecking
+                    ? 'Checking…'
+                    : result
+                      ? 'Tap the mic to try again'
+                      : 'Tap play, then repeat the sentence after it'}
+          </Text>
+        </View>
+      )}
+
+      {sentenceList}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingTop: 0,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 24,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#A0A0A0',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  progressTrack: {
+    height: 4,
+    backgroundColor: '#E8ECEF',
+    borderRadius: 2,
+    marginBottom: 16,
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#1976FF',
+    borderRadius: 2,
+  },
+  sentence: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+    lineHeight: 30,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 12,
+  },
+  scoreBadge: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scoreText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  transcript: {
+    flex: 1,
+    fontSize: 15,
+    color: '#687076',
+    fontStyle: 'italic',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    gap: 16,
+  },
+  mainButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#1976FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mainButtonRecording: {
+    backgroundColor: '#FF4D4F',
+  },
+  nextButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#43B581',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+    gap: 6,
+  },
+  nextButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  hint: {
+    marginTop: 12,
+    textAlign: 'center',
+    fontSize: 13,
+    color: '#687076',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    gap: 12,
+  },
+  listRowActive: {
+    backgroundColor: '#F0F7FF',
+  },
+  listText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#11181C',
+  },
+  miniScore: {
+    minWidth: 32,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  miniScoreText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  summaryCard: {
+    alignItems: 'center',
+  },
+  summaryTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#11181C',
+    marginTop: 12,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: '#687076',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  summaryLabel: {
+    marginTop: 20,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FFF1F0',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+  },
+  chipText: {
+    color: '#11181C',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  secondaryButton: {
+    marginTop: 24,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    backgroundColor: '#E6F0FF',
+  },
+  secondaryButtonText: {
+    color: '#1976FF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#687076',
+    margin: 20,
+  },
+});
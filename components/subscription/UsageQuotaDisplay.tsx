@@ -18,6 +18,10 @@ const ACTION_LABELS: Record<ActionType, string> = {
   verb_conjugation: 'Conjugations',
   language_detection: 'Detections',
   chat_message: 'Chat Messages',
+  story_generation: 'Stories',
+  text_to_speech: 'Premium Voice Playback',
+  pronunciation_check: 'Pronunciation Checks',
+  translation_features: 'Translation Details',
 };
 
 export const UsageQuotaDisplay: React.FC<UsageQuotaDisplayProps> = ({
@@ -2,6 +2,10 @@ import React from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
+import { INPUT_LIMITS } from '@/constants/InputLimits';
+
+// translation enhancements (enhance-translation) only take this much text
+const MAX_LENGTH = INPUT_LIMITS.translationText.maxLength;
 
 interface InputCardProps {
   draftInputText: string;
@@ -46,6 +50,7 @@ export const InputCard: React.FC<InputCardProps> = ({
       style={styles.textInput}
       value={draftInputText}
       onChangeText={setDraftInputText}
+      maxLength={MAX_LENGTH}
       placeholder="Type or paste text..."
       placeholderTextColor="#A0A0A0"
       multiline
@@ -60,7 +65,7 @@ export const InputCard: React.FC<InputCardProps> = ({
     <View style={styles.toolbar}>
       <TouchableOpacity
         onPress={async () => {
-          const text = await Clipboard.getStringAsync();
+          const text = (await Clipboard.getStringAsync()).slice(0, MAX_LENGTH);
           if (text) {
             setDraftInputText(text);
             if (!inputFocused) {
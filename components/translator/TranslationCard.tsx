@@ -1,9 +1,10 @@
+import { supportsFeature } from '@/constants/Languages';
 import { TTS } from '@/services/ttsService';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { MotiView } from 'moti';
 import React from 'react';
-import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
 
 interface TranslationCardProps {
@@ -18,6 +19,11 @@ interface TranslationCardProps {
   pronunciation?: string;
   meaning?: string;
   isPremium?: boolean;
+  isSaved?: boolean;
+  onSaveToDeck?: () => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
+  onPractice?: () => void;
 }
 
 export const TranslationCard: React.FC<TranslationCardProps> = ({
@@ -31,7 +37,12 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
   handleNewTranslation,
   pronunciation,
   meaning,
-  isPremium = false
+  isPremium = false,
+  isSaved = false,
+  onSaveToDeck,
+  isFavorite = false,
+  onToggleFavorite,
+  onPractice
 }) => {
   return (
     <Animated.View
@@ -102,20 +113,42 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
 
           <View style={styles.footer}>
             <View style={styles.leftActions}>
-              <TouchableOpacity
-                onPress={() => {
-                  if (translatedText) {
-                    TTS.speak(translatedText, { language: targetLang || 'en', isPremium });
-                  }
-                }}
-                style={styles.actionIcon}
-              >
-                <Ionicons name="volume-high-outline" size={24} color="#1976FF" />
-              </TouchableOpacity>
+              {supportsFeature(targetLang, 'tts') && (
+                <TouchableOpacity
+                  onPress={() => {
+                    if (translatedText) {
+                      TTS.speak(translatedText, { language: targetLang || 'en', isPremium });
+                    }
+                  }}
+                  style={styles.actionIcon}
+                >
+                  <Ionicons name="volume-high-outline" size={24} color="#1976FF" />
+                </TouchableOpacity>
+              )}
+
+              {onPractice && (
+                <TouchableOpacity onPress={onPractice} style={styles.actionIcon}>
+                  <Ionicons name="mic-outline" size={24} color="#1976FF" />
+                </TouchableOpacity>
+              )}
 
-              <TouchableOpacity onPress={() => Alert.alert('Favorite pressed')} style={styles.actionIcon}>
-                <Ionicons name="heart-outline" size={24} color="#666" />
+              <TouchableOpacity onPress={onToggleFavorite} disabled={!onToggleFavorite} style={styles.actionIcon}>
+                <Ionicons
+                  name={isFavorite ? 'heart' : 'heart-outline'}
+                  size={24}
+                  color={isFavorite ? '#FF3B30' : '#666'}
+                />
               </TouchableOpacity>
+
+              {onSaveToDeck && (
+                <TouchableOpacity onPress={onSaveToDeck} disabled={isSaved} style={styles.actionIcon}>
+                  <Ionicons
+                    name={isSaved ? 'bookmark' : 'bookmark-outline'}
+                    size={24}
+                    color={isSaved ? '#1976FF' : '#666'}
+                  />
+                </TouchableOpacity>
+              )}
             </View>
 
             <TouchableOpacity
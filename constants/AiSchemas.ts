@@ -0,0 +1,2 @@
+/** Response types and schemas of the AI edge functions; check responses with parseAiResponse. */
+export * from '../supabase/functions/_shared/schemas';
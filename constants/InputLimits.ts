@@ -0,0 +1,2 @@
+/** Text limits the AI functions enforce, used as maxLength on the matching text fields. */
+export * from '../supabase/functions/_shared/inputLimits';
@@ -0,0 +1,2 @@
+/** The language registry: codes, display names and what each language supports. */
+export * from '../supabase/functions/_shared/languages';
@@ -0,0 +1,2 @@
+/** Grammar categories of tutor corrections, by the ids chat-tutor stores in user_mistakes. */
+export * from '../supabase/functions/_shared/mistakes';
@@ -0,0 +1,2 @@
+/** Word-level scoring behind check-pronunciation, and the result types it returns. */
+export * from '../supabase/functions/_shared/pronunciation';
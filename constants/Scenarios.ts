@@ -0,0 +1,2 @@
+/** The AI Tutor role-plays, the same catalog chat-tutor accepts as scenario_id. */
+export * from '../supabase/functions/_shared/scenarios';
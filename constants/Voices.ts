@@ -0,0 +1,2 @@
+/** Premium voices text-to-speech accepts, offered in the voice picker. */
+export * from '../supabase/functions/_shared/voices';
@@ -25,7 +25,7 @@ export const useAudioRecorder = () => {
             // Explicitly request permissions first
             const { granted } = await AudioModule.requestRecordingPermissionsAsync();
             if (!granted) {
-                Alert.alert('Permission needed', 'Microphone access is required for voice chat.');
+                Alert.alert('Permission needed', 'Microphone access is required to record your voice.');
                 return;
             }
 
@@ -0,0 +1,27 @@
+// Reminds guests to save their progress before they use up quota on a guest account
+import { useRouter } from 'expo-router';
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { shouldNudgeGuest } from '../services/accountService';
+
+/**
+ * Returns a function to call before a quota-gated action. For guests it shows,
+ * at most once a day, a prompt leading to the save-progress flow in Settings.
+ * It never blocks the action itself.
+ */
+export const useGuestNudge = () => {
+  const router = useRouter();
+
+  return useCallback(async () => {
+    if (!(await shouldNudgeGuest())) return;
+
+    Alert.alert(
+      'Save Your Progress',
+      'You are using a guest account. Add your email so your deck, history and usage are not lost and follow you to other devices.',
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Save Progress', onPress: () => router.push({ pathname: '/Settings', params: { saveProgress: '1' } }) },
+      ]
+    );
+  }, [router]);
+};
@@ -0,0 +1,8 @@
+import { useNetInfo } from '@react-native-community/netinfo';
+import { isReachable } from '../services/network';
+
+/**
+ * Whether the device has a usable connection. Starts out true, until NetInfo
+ * has reported otherwise.
+ */
+export const useIsOnline = () => isReachable(useNetInfo());
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+import { OfflineError } from '../services/network';
+import { checkPronunciation, PronunciationResult } from '../services/pronunciationService';
+import { TTS } from '../services/ttsService';
+import { UsageLimitExceededError } from '../services/usageService';
+import { useAudioRecorder } from './useAudioRecorder';
+import { useFeatureAccess } from './useFeatureAccess';
+import { useGuestNudge } from './useGuestNudge';
+
+/**
+ * Record the learner reading a sentence and score it with check-pronunciation.
+ * `onLimitReached` is called instead of recording (or with the response) when
+ * the daily quota is used up, typically to open the paywall. Failures are
+ * alerted, except being offline, which the offline banner already covers.
+ */
+export const usePronunciationCheck = (onLimitReached: () => void) => {
+  const { startRecording, stopRecording, isRecording } = useAudioRecorder();
+  const { canPerformAction, isPremium } = useFeatureAccess();
+  const nudgeGuest = useGuestNudge();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const start = async () => {
+    if (!isPremium && !canPerformAction('pronunciation_check')) {
+      onLimitReached();
+      return;
+    }
+    nudgeGuest();
+    await TTS.stop();
+    await startRecording();
+  };
+
+  // Resolves to null when nothing was recorded or the check failed
+  const stopAndCheck = async (expectedText: string, language: string | null): Promise<PronunciationResult | null> => {
+    setIsChecking(true);
+    try {
+      const recording = await stopRecording();
+      if (!recording?.base64) {
+        Alert.alert('Recording Error', 'No audio data captured. Please try again.');
+        return null;
+      }
+      return await checkPronunciation({ audioBase64: recording.base64, expectedText, language });
+    } catch (err) {
+      if (err instanceof UsageLimitExceededError) {
+        onLimitReached();
+      } else if (!(err instanceof OfflineError)) {
+        Alert.alert('Error', 'Failed to check your pronunciation: ' + (err as Error).message);
+      }
+      return null;
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return { isRecording, isChecking, start, stopAndCheck };
+};
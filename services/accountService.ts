@@ -0,0 +1,167 @@
+/**
+ * Account Service - turning guest sessions into permanent accounts
+ *
+ * A guest is an anonymous Supabase user. Saving their progress links an email
+ * to that same user, so every row they own (usage, deck, history, stories)
+ * stays theirs: the email is confirmed first, then a password is set.
+ * If the email already has an account, the guest signs in to it instead and
+ * the merge-guest-account Edge Function moves their data across.
+ */
+
+import { supabase } from '@/utils/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isAuthApiError } from '@supabase/supabase-js';
+import { authRedirectUrl } from './authService';
+
+// Email being linked, kept until the password step is done
+const PENDING_EMAIL_KEY = 'guestUpgradeEmail';
+const NUDGE_KEY = 'guestNudgeShownAt';
+const NUDGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// The confirmation link reopens the save-progress sheet at the password step
+const CONFIRM_REDIRECT = '/Settings?saveProgress=1';
+
+export type GuestUpgradeStatus =
+    /** Signed in with a permanent account (or not at all) */
+    | 'account'
+    /** Anonymous, no email added yet */
+    | 'guest'
+    /** Email added, waiting for the user to open the confirmation link */
+    | 'awaitingConfirmation'
+    /** Email confirmed; a password is still needed to sign in with it */
+    | 'needsPassword';
+
+/**
+ * The email belongs to an existing account, so it cannot be linked to the guest.
+ */
+export class AccountExistsError extends Error {
+    email: string;
+
+    constructor(email: string) {
+        super(`An account already exists for ${email}`);
+        this.name = 'AccountExistsError';
+        this.email = email;
+    }
+}
+
+/**
+ * Signed in to the existing account, but the guest's data could not be moved.
+ */
+export class GuestMergeError extends Error {
+    constructor() {
+        super('You are signed in, but your guest progress could not be moved to this account.');
+        this.name = 'GuestMergeError';
+    }
+}
+
+export const isGuestSession = async (): Promise<boolean> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return !!session?.user.is_anonymous;
+};
+
+/**
+ * Where the current user is in the upgrade flow. Reads the user from the
+ * server, so a confirmation made in the mail app shows up here.
+ */
+export const getGuestUpgradeStatus = async (): Promise<{ status: GuestUpgradeStatus; email: string | null }> => {
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) return { status: 'account', email: null };
+
+    const pendingEmail = await AsyncStorage.getItem(PENDING_EMAIL_KEY);
+    if (user.is_anonymous) {
+        return user.new_email
+            ? { status: 'awaitingConfirmation', email: user.new_email }
+            : { status: 'guest', email: null };
+    }
+    if (pendingEmail) {
+        // The session's token still says anonymous until it is refreshed
+        await supabase.auth.refreshSession();
+        return { status: 'needsPassword', email: user.email ?? pendingEmail };
+    }
+    return { status: 'account', email: user.email ?? null };
+};
+
+/**
+ * Add `email` to the guest user and send the confirmation link.
+ * Throws AccountExistsError when the email is already registered.
+ */
+export const startGuestUpgrade = async (email: string): Promise<void> => {
+    const { error } = await supabase.auth.updateUser(
+        { email: email.trim() },
+        { emailRedirectTo: authRedirectUrl(CONFIRM_REDIRECT) },
+    );
+    if (error) {
+        if (isAuthApiError(error) && (error.code === 'email_exists' || error.code === 'user_already_exists')) {
+            throw new AccountExistsError(email.trim());
+        }
+        console.error('Link email error:', error);
+        throw error;
+    }
+    await AsyncStorage.setItem(PENDING_EMAIL_KEY, email.trim());
+};
+
+export const resendUpgradeConfirmation = async (email: string): Promise<void> => {
+    const { error } = await supabase.auth.resend({
+        type: 'email_change',
+        email,
+        options: { emailRedirectTo: authRedirectUrl(CONFIRM_REDIRECT) },
+    });
+    if (error) {
+        console.error('Resend confirmation error:', error);
+        throw error;
+    }
+};
+
+/**
+ * Set the password for the newly linked email, completing the upgrade.
+ */
+export const finishGuestUpgrade = async (password: string): Promise<void> => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) {
+        console.error('Set password error:', error);
+        throw error;
+    }
+    await AsyncStorage.removeItem(PENDING_EMAIL_KEY);
+};
+
+/**
+ * Sign in to an existing account and move the current guest's data into it.
+ * Resolves to the number of rows moved per table. If only the move fails,
+ * the user is still signed in to the account and GuestMergeError is thrown.
+ */
+export const mergeGuestIntoAccount = async (email: string, password: string): Promise<Record<string, number>> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user.is_anonymous) {
+        throw new Error('Not signed in as a guest');
+    }
+    // Proves to the function that this device held the guest session
+    const guestToken = session.access_token;
+
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (signInError) {
+        console.error('Sign in for merge error:', signInError);
+        throw signInError;
+    }
+    await AsyncStorage.removeItem(PENDING_EMAIL_KEY);
+
+    const { data, error } = await supabase.functions.invoke('merge-guest-account', {
+        body: { guest_token: guestToken },
+    });
+    if (error || data?.error) {
+        console.error('Merge guest account error:', error ?? data.error);
+        throw new GuestMergeError();
+    }
+    return data.moved ?? {};
+};
+
+/**
+ * Whether to remind a guest to save their progress now; at most once a day.
+ */
+export const shouldNudgeGuest = async (): Promise<boolean> => {
+    if (!(await isGuestSession())) return false;
+
+    const lastShown = Number(await AsyncStorage.getItem(NUDGE_KEY)) || 0;
+    if (Date.now() - lastShown < NUDGE_INTERVAL_MS) return false;
+
+    await AsyncStorage.setItem(NUDGE_KEY, String(Date.now()));
+    return true;
+};
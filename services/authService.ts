@@ -0,0 +1,147 @@
+/**
+ * Auth Service - sign-in flows that leave the app and come back
+ *
+ * Password reset, magic links, email confirmation and Google/Apple OAuth all
+ * end in a redirect to linquafacile://auth/callback (exp://…/--/auth/callback
+ * in Expo Go). The client uses the PKCE flow, so the redirect carries a
+ * one-time `code` that is exchanged for a session on this device; the
+ * app/auth/callback route does that via createSessionFromParams.
+ *
+ * Redirect URLs must be allow-listed in Supabase Auth (see supabase/config.toml).
+ */
+
+import { supabase } from '@/utils/supabase';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+
+export type OAuthProvider = 'google' | 'apple';
+
+const CALLBACK_PATH = 'auth/callback';
+
+// Codes already exchanged (or being exchanged). On Android an OAuth redirect
+// both resolves openAuthSessionAsync and opens the callback route.
+const exchanges = new Map<string, Promise<void>>();
+
+/**
+ * The URL auth emails and providers redirect to. `next` is the app path to
+ * open once signed in.
+ */
+export const authRedirectUrl = (next?: string): string =>
+    Linking.createURL(CALLBACK_PATH, next ? { queryParams: { next } } : undefined);
+
+// Supabase puts errors (and implicit-flow tokens) in the query or the fragment
+const readAuthParams = (url: string): Record<string, string> => {
+    const params: Record<string, string> = {};
+    const [withoutFragment, fragment = ''] = url.split('#');
+    const query = withoutFragment.split('?')[1] ?? '';
+    for (const part of [query, fragment]) {
+        new URLSearchParams(part).forEach((value, key) => {
+            params[key] = value;
+        });
+    }
+    return params;
+};
+
+const exchangeCode = async (code: string): Promise<void> => {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+        console.error('Exchange code error:', error);
+        throw error;
+    }
+};
+
+/**
+ * Sign in with the code (or tokens) from an auth redirect's parameters.
+ * Throws with the server's description when the link was rejected or expired.
+ */
+export const createSessionFromParams = async (params: Record<string, string | undefined>): Promise<void> => {
+    if (params.error || params.error_code) {
+        throw new Error(params.error_description?.replace(/\+/g, ' ') || 'This link is invalid or has expired.');
+    }
+
+    if (params.code) {
+        let exchange = exchanges.get(params.code);
+        if (!exchange) {
+            exchange = exchangeCode(params.code);
+            exchanges.set(params.code, exchange);
+        }
+        return exchange;
+    }
+
+    if (params.access_token && params.refresh_token) {
+        const { error } = await supabase.auth.setSession({
+            access_token: params.access_token,
+            refresh_token: params.refresh_token,
+        });
+        if (error) {
+            console.error('Set session error:', error);
+            throw error;
+        }
+        return;
+    }
+
+    throw new Error('This link is missing its sign-in code.');
+};
+
+export const createSessionFromUrl = (url: string): Promise<void> =>
+    createSessionFromParams(readAuthParams(url));
+
+/**
+ * Email a link that signs the user in and opens the new password screen.
+ */
+export const sendPasswordReset = async (email: string): Promise<void> => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: authRedirectUrl('/reset-password'),
+    });
+    if (error) {
+        console.error('Password reset error:', error);
+        throw error;
+    }
+};
+
+/**
+ * Email a one-tap sign-in link. Creates the account if the email is new.
+ */
+export const sendMagicLink = async (email: string): Promise<void> => {
+    const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: authRedirectUrl() },
+    });
+    if (error) {
+        console.error('Magic link error:', error);
+        throw error;
+    }
+};
+
+/**
+ * Set a new password for the signed-in (e.g. just recovered) user.
+ */
+export const updatePassword = async (password: string): Promise<void> => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) {
+        console.error('Update password error:', error);
+        throw error;
+    }
+};
+
+/**
+ * Sign in with Google or Apple in an in-app browser session.
+ * Resolves to false if the user closed the browser without signing in.
+ */
+export const signInWithOAuth = async (provider: OAuthProvider): Promise<boolean> => {
+    const redirectTo = authRedirectUrl();
+    const { data, error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: { redirectTo, skipBrowserRedirect: true },
+    });
+    if (error) {
+        console.error(`${provider} sign in error:`, error);
+        throw error;
+    }
+
+    const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+    if (result.type !== 'success') return false;
+
+    await createSessionFromUrl(result.url);
+    return true;
+};
@@ -1,42 +1,38 @@
 import Constants from 'expo-constants';
+import { CEFR_RESPONSE_SCHEMA, CEFRResponse, parseAiResponse } from '../constants/AiSchemas';
+import { getFunctionHeaders } from '../utils/supabase';
+import { isOnline, OfflineError } from './network';
+import { cacheResponse, getCachedResponse } from './responseCache';
+import { checkMeteredResponse } from './usageService';
+
+export type { CEFRAnalysis, CEFRResponse, CEFRResult } from '../constants/AiSchemas';
 
 const supabaseFunctionUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_CALL_OPENAI_URL;
-const supabaseAnonKey = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
-export const fetchCEFRLevels = async (sentence: string, levels: string[], dynamicCheck: boolean) => {
+export const fetchCEFRLevels = async (sentence: string, levels: string[], dynamicCheck: boolean): Promise<CEFRResponse> => {
     if (!supabaseFunctionUrl) throw new Error('Supabase function URL not set in env');
-    if (!supabaseAnonKey) throw new Error('Supabase anon key not set in env');
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`,
-    };
-    const body: any = { sentence, levels, dynamic: dynamicCheck };
+    const cacheKey = JSON.stringify([sentence.trim(), [...levels].sort(), dynamicCheck]);
+
+    // Offline, a sentence checked before is answered from the device
+    if (!(await isOnline())) {
+        const cached = await getCachedResponse<CEFRResponse>('cefr', cacheKey);
+        if (cached) return cached;
+        throw new OfflineError('You are offline. Sentences you have checked before are still available.');
+    }
+
+    const body = { sentence, levels, dynamic: dynamicCheck };
     const response = await fetch(supabaseFunctionUrl, {
         method: 'POST',
-        headers,
+        headers: await getFunctionHeaders(),
         body: JSON.stringify(body),
     });
+    await checkMeteredResponse(response, 'cefr_analysis');
 
     if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`Failed to fetch CEFR breakdown: ${errorText}`);
     }
-    return await response.json();
+    const result = parseAiResponse(CEFR_RESPONSE_SCHEMA, await response.json());
+    await cacheResponse('cefr', cacheKey, result);
+    return result;
 };
-
-export interface CEFRAnalysis {
-  level: string;
-  justification: string;
-}
-
-export interface CEFRResult {
-  level: string;
-  sentence: string;
-  explanation: string;
-}
-
-export interface CEFRResponse {
-  input: string;
-  analysis: CEFRAnalysis;
-  results: CEFRResult[];
-}
@@ -1,5 +1,24 @@
 
-import { supabase } from '@/utils/supabase';
+import {
+    CHAT_RESPONSE_SCHEMA,
+    ChatCorrection,
+    ChatResponse,
+    parseAiResponse,
+    SCENARIO_EVALUATION_SCHEMA,
+    ScenarioEvaluation,
+    ScenarioProgress,
+    SESSION_REPORT_SCHEMA,
+    SessionReport,
+} from '@/constants/AiSchemas';
+import { getFunctionHeaders, supabase } from '@/utils/supabase';
+import Constants from 'expo-constants';
+import { useUsageStore } from '../app/store/useUsageStore';
+import { assertOnline, isNetworkError, OfflineError } from './network';
+import { checkMeteredInvoke, usageLimitErrorFromBody } from './usageService';
+
+export type { ChatCorrection, ChatResponse, ScenarioEvaluation, ScenarioProgress, SessionReport } from '@/constants/AiSchemas';
+
+const supabaseUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL;
 
 export interface ChatMessage {
     role: 'user' | 'assistant' | 'system';
@@ -9,16 +28,30 @@ export interface ChatMessage {
     translation?: string;
     cachedTranslation?: string;
     isTranslating?: boolean;
+    /** Assistant reply still arriving from a streamed response */
+    isStreaming?: boolean;
+    /** End-of-scenario feedback; a role 'system' message whose content is the summary */
+    evaluation?: ScenarioEvaluation;
 }
 
-export interface ChatResponse {
-    reply: string;
-    correction: {
-        original: string;
-        corrected: string;
-        explanation: string;
-    } | null;
-    user_transcript?: string | null;
+/** The role-play a conversation is held in, and the goals reached so far. */
+export interface TutorScenarioState {
+    id: string;
+    goalsMet: string[];
+}
+
+const scenarioPayload = (scenario?: TutorScenarioState) =>
+    scenario ? { scenario_id: scenario.id, goals_met: scenario.goalsMet } : {};
+
+/**
+ * chat-tutor refused the message as sent (400, e.g. longer than it accepts),
+ * so it should not stay in the conversation.
+ */
+export class TutorInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TutorInputError';
+    }
 }
 
 export const sendMessageToTutor = async (
@@ -26,8 +59,10 @@ export const sendMessageToTutor = async (
     targetLang: string,
     userLevel: string,
     audioBase64?: string,
-    sourceLang: string = 'en'
+    sourceLang: string = 'en',
+    scenario?: TutorScenarioState
 ): Promise<ChatResponse> => {
+    await assertOnline();
 
     // Prepare payload
     const payload = {
@@ -35,17 +70,271 @@ export const sendMessageToTutor = async (
         target_lang: targetLang,
         user_level: userLevel,
         audio_base64: audioBase64 || null,
-        source_lang: sourceLang
+        source_lang: sourceLang,
+        ...scenarioPayload(scenario)
     };
 
     const { data, error } = await supabase.functions.invoke('chat-tutor', {
         body: payload
     });
 
+    await checkMeteredInvoke(error, 'chat_message');
+    if (isNetworkError(error)) throw new OfflineError();
+    if (error?.context instanceof Response && error.context.status === 400) {
+        const body = await error.context.json().catch(() => null);
+        throw new TutorInputError(body?.error || 'Message not accepted');
+    }
     if (error) {
         console.error('Chat Tutor Error:', error);
         throw new Error(error.message || 'Failed to connect to AI Tutor');
     }
 
-    return data as ChatResponse;
+    return parseAiResponse(CHAT_RESPONSE_SCHEMA, data);
+};
+
+/**
+ * Ask chat-tutor for the end-of-scenario evaluation of a role-play
+ * conversation. Counts as one chat message against the daily quota.
+ */
+export const evaluateScenario = async (
+    messages: ChatMessage[],
+    targetLang: string,
+    userLevel: string,
+    sourceLang: string,
+    scenario: TutorScenarioState
+): Promise<ScenarioEvaluation> => {
+    await assertOnline();
+
+    const { data, error } = await supabase.functions.invoke('chat-tutor', {
+        body: {
+            messages,
+            target_lang: targetLang,
+            user_level: userLevel,
+            source_lang: sourceLang,
+            evaluate: true,
+            ...scenarioPayload(scenario)
+        }
+    });
+
+    await checkMeteredInvoke(error, 'chat_message');
+    if (isNetworkError(error)) throw new OfflineError();
+    if (error) {
+        console.error('Scenario evaluation error:', error);
+        throw new Error(error.message || 'Failed to connect to AI Tutor');
+    }
+
+    return parseAiResponse(SCENARIO_EVALUATION_SCHEMA, data?.evaluation);
+};
+
+/** Corrections the tutor made in a thread, oldest first. */
+export const getCorrections = (messages: ChatMessage[]): ChatCorrection[] =>
+    messages.flatMap(m => {
+        if (m.role !== 'system' || m.evaluation) return [];
+        try {
+            return [JSON.parse(m.content) as ChatCorrection];
+        } catch {
+            return [];
+        }
+    });
+
+/**
+ * Ask chat-tutor for an end-of-session report on a thread: its corrections
+ * grouped by grammar topic, strengths, an estimated CEFR level and exercises
+ * to do next. Counts as one chat message against the daily quota.
+ */
+export const requestSessionReport = async (
+    messages: ChatMessage[],
+    targetLang: string,
+    userLevel: string,
+    sourceLang: string
+): Promise<SessionReport> => {
+    await assertOnline();
+
+    const { data, error } = await supabase.functions.invoke('chat-tutor', {
+        body: {
+            messages,
+            corrections: getCorrections(messages),
+            target_lang: targetLang,
+            user_level: userLevel,
+            source_lang: sourceLang,
+            report: true
+        }
+    });
+
+    await checkMeteredInvoke(error, 'chat_message');
+    if (isNetworkError(error)) throw new OfflineError();
+    if (error) {
+        console.error('Session report error:', error);
+        throw new Error(error.message || 'Failed to connect to AI Tutor');
+    }
+
+    return parseAiResponse(SESSION_REPORT_SCHEMA, data?.report);
+};
+
+export interface TutorStreamHandlers {
+    /** Whisper transcript of a voice message, sent before the reply */
+    onTranscript?: (text: string) => void;
+    /** Called for every chunk of the reply, with the text received so far */
+    onReplyDelta?: (delta: string, replySoFar: string) => void;
+    onCorrection?: (correction: ChatCorrection | null) => void;
+    /** Goals reached so far, sent after the correction in role-play conversations */
+    onScenario?: (progress: ScenarioProgress) => void;
+}
+
+/**
+ * Thrown when the streaming request could not be made at all (network or
+ * platform failure) and nothing came back, so callers can retry with
+ * sendMessageToTutor.
+ */
+export class TutorStreamUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TutorStreamUnavailableError';
+    }
+}
+
+/**
+ * Same request as sendMessageToTutor, but chat-tutor answers with server-sent
+ * events so the reply can be shown as it is generated. React Native's fetch
+ * cannot read a response body incrementally, so this uses XMLHttpRequest,
+ * whose responseText grows as chunks arrive.
+ */
+export const streamMessageToTutor = async (
+    messages: ChatMessage[],
+    targetLang: string,
+    userLevel: string,
+    handlers: TutorStreamHandlers,
+    audioBase64?: string,
+    sourceLang: string = 'en',
+    scenario?: TutorScenarioState
+): Promise<ChatResponse> => {
+    if (!supabaseUrl) {
+        throw new TutorStreamUnavailableError('Supabase URL not set in env');
+    }
+    await assertOnline();
+
+    const headers = await getFunctionHeaders();
+    const payload = {
+        messages,
+        target_lang: targetLang,
+        user_level: userLevel,
+        audio_base64: audioBase64 || null,
+        source_lang: sourceLang,
+        stream: true,
+        ...scenarioPayload(scenario)
+    };
+
+    return new Promise<ChatResponse>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        let readLength = 0;
+        let buffer = '';
+        let reply = '';
+        let result: unknown = null;
+        let streamError: string | null = null;
+        let receivedBytes = false;
+
+        const handleEvent = (rawEvent: string) => {
+            let event = 'message';
+            let data = '';
+            for (const line of rawEvent.split('\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                else if (line.startsWith('data:')) data += line.slice(5).trim();
+            }
+            if (!data) return;
+            const parsed = JSON.parse(data);
+
+            switch (event) {
+                case 'transcript':
+                    handlers.onTranscript?.(parsed.text);
+                    break;
+                case 'reply':
+                    reply += parsed.delta;
+                    handlers.onReplyDelta?.(parsed.delta, reply);
+                    break;
+                case 'correction':
+                    handlers.onCorrection?.(parsed.correction);
+                    break;
+                case 'scenario':
+                    handlers.onScenario?.(parsed);
+                    break;
+                case 'done':
+                    result = parsed;
+                    break;
+                case 'error':
+                    streamError = parsed.error;
+                    break;
+            }
+        };
+
+        // Only complete events (terminated by a blank line) are handled
+        const readEvents = () => {
+            buffer += xhr.responseText.slice(readLength);
+            readLength = xhr.responseText.length;
+            const events = buffer.split('\n\n');
+            buffer = events.pop() ?? '';
+            events.forEach(handleEvent);
+        };
+
+        xhr.open('POST', `${supabaseUrl}/functions/v1/chat-tutor`);
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+        xhr.onprogress = () => {
+            receivedBytes = true;
+            if (xhr.status !== 200) return;
+            try {
+                readEvents();
+            } catch (err) {
+                console.error('Invalid AI Tutor stream event:', err);
+                xhr.abort();
+                reject(err);
+            }
+        };
+
+        xhr.onload = () => {
+            const contentType = xhr.getResponseHeader('Content-Type') ?? '';
+
+            if (xhr.status !== 200) {
+                let body: any = null;
+                try { body = JSON.parse(xhr.responseText); } catch { /* not JSON */ }
+                const limitError = usageLimitErrorFromBody(xhr.status, body, 'chat_message');
+                console.error('Chat Tutor stream error:', xhr.status, xhr.responseText);
+                if (xhr.status === 400) {
+                    reject(new TutorInputError(body?.error || 'Message not accepted'));
+                    return;
+                }
+                reject(limitError ?? new Error(body?.error || 'Failed to connect to AI Tutor'));
+                return;
+            }
+
+            useUsageStore.getState().incrementUsage('chat_message');
+
+            try {
+                // A deployment without streaming support answers with the plain JSON response
+                if (contentType.includes('application/json')) {
+                    resolve(parseAiResponse(CHAT_RESPONSE_SCHEMA, JSON.parse(xhr.responseText)));
+                    return;
+                }
+
+                readEvents();
+                if (buffer.trim()) handleEvent(buffer);
+
+                if (result) {
+                    resolve(parseAiResponse(CHAT_RESPONSE_SCHEMA, result));
+                } else {
+                    reject(new Error(streamError || 'AI Tutor stream ended unexpectedly'));
+                }
+            } catch (err) {
+                console.error('Invalid AI Tutor response:', err);
+                reject(err);
+            }
+        };
+
+        // Once the server has answered, the message is charged: retrying it would charge it again
+        const failure = (message: string) =>
+            (receivedBytes ? new Error(message) : new TutorStreamUnavailableError(message));
+        xhr.onerror = () => reject(failure('AI Tutor stream failed'));
+        xhr.ontimeout = () => reject(failure('AI Tutor stream timed out'));
+
+        xhr.send(JSON.stringify(payload));
+    });
 };
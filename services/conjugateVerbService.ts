@@ -1,14 +1,16 @@
 import Constants from 'expo-constants';
-import { supabase } from '../utils/supabase';
+import {
+  CONJUGATION_RESPONSE_SCHEMA,
+  ConjugationResponse,
+  ConjugationTree,
+  parseAiResponse,
+} from '../constants/AiSchemas';
+import { getFunctionHeaders, supabase } from '../utils/supabase';
+import { checkMeteredResponse } from './usageService';
 
-const supabaseFunctionUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_CONJUGATE_VERB_URL;
-const supabaseAnonKey = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+export type { ConjugationResponse } from '../constants/AiSchemas';
 
-export interface ConjugationResponse {
-  infinitive: string;
-  language: string;
-  conjugation: Record<string, any>;
-}
+const supabaseFunctionUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_CONJUGATE_VERB_URL;
 
 export const conjugateVerbFromEdge = async (
   infinitive: string,
@@ -18,38 +20,24 @@ export const conjugateVerbFromEdge = async (
     console.error('Supabase conjugate-verb function URL not set in env');
     throw new Error('Supabase conjugate-verb function URL not set in env');
   }
-  if (!supabaseAnonKey) {
-    console.error('Supabase anon key not set in env');
-    throw new Error('Supabase anon key not set in env');
-  }
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${supabaseAnonKey}`,
-  };
   const res = await fetch(supabaseFunctionUrl, {
     method: 'POST',
-    headers,
+    headers: await getFunctionHeaders(),
     body: JSON.stringify({ infinitive, language }),
   });
+  await checkMeteredResponse(res, 'verb_conjugation');
   if (!res.ok) {
     const errorText = await res.text();
     console.error('Conjugate verb error:', errorText);
     throw new Error(`Failed to conjugate verb: ${errorText}`);
   }
-  // Ensure the response matches the format in the function's index.ts
-  const data = await res.json();
-  if (!data.infinitive || !data.language || !data.conjugation) {
-    console.error('Unexpected conjugate-verb response format:', data);
-    throw new Error('Unexpected conjugate-verb response format');
-  }
-
-  return data;
+  return parseAiResponse(CONJUGATION_RESPONSE_SCHEMA, await res.json());
 };
 
 export const upsertVerbConjugation = async (
   infinitive: string,
   language: string,
-  conjugation: any,
+  conjugation: ConjugationTree,
   source: string = 'manual'
 ) => {
   const { data, error } = await supabase
@@ -69,3 +57,38 @@ export const upsertVerbConjugation = async (
   }
   return data;
 };
+
+export const getConjugationFromSupabase = async (
+  infinitive: string,
+  language: string
+): Promise<ConjugationResponse | null> => {
+  const { data, error } = await supabase
+    .from('verb_conjugations')
+    .select('infinitive, language, conjugation')
+    .eq('infinitive', infinitive.toLowerCase())
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Fetch verb_conjugations error:', error);
+    return null;
+  }
+  return data;
+};
+
+/**
+ * Read a conjugation table back from verb_conjugations, generating and storing
+ * it through conjugate-verb when it has not been cached yet.
+ */
+export const getConjugation = async (
+  infinitive: string,
+  language: string
+): Promise<ConjugationResponse> => {
+  const inf = infinitive.toLowerCase();
+  const stored = await getConjugationFromSupabase(inf, language);
+  if (stored) return stored;
+
+  const generated = await conjugateVerbFromEdge(inf, language);
+  await upsertVerbConjugation(inf, language, generated.conjugation);
+  return generated;
+};
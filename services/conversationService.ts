@@ -0,0 +1,209 @@
+import { supabase } from '@/utils/supabase';
+import { ChatCorrection, ChatMessage, ScenarioEvaluation } from './chatService';
+import { createQueuedOperation } from './offlineQueue';
+
+export interface Conversation {
+    id: string;
+    title: string;
+    targetLang: string;
+    sourceLang: string;
+    userLevel: string;
+    /** Role-play scenario from constants/Scenarios, if the thread is one */
+    scenarioId?: string | null;
+    goalsMet?: string[];
+    messages: ChatMessage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface ChatMessageRow {
+    position: number;
+    role: ChatMessage['role'];
+    content: string;
+    is_voice: boolean | null;
+    correction: ChatCorrection | null;
+    evaluation: ScenarioEvaluation | null;
+}
+
+interface ChatConversationRow {
+    id: string;
+    title: string;
+    target_lang: string;
+    source_lang: string;
+    user_level: string;
+    scenario_id: string | null;
+    goals_met: string[] | null;
+    created_at: string;
+    updated_at: string;
+    chat_messages?: ChatMessageRow[];
+}
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const parseCorrection = (message: ChatMessage): ChatCorrection | null => {
+    if (message.role !== 'system' || message.evaluation) return null;
+    try {
+        return JSON.parse(message.content);
+    } catch {
+        return null;
+    }
+};
+
+/** Messages still waiting on the tutor (voice being transcribed, a reply still streaming) are not persisted. */
+export const getPersistableMessages = (messages: ChatMessage[]): ChatMessage[] =>
+    messages
+        .filter(m => !m.isTranscribing && !m.isStreaming)
+        .map(({ role, content, isVoice, cachedTranslation, evaluation }) => ({
+            role,
+            content,
+            ...(isVoice ? { isVoice } : {}),
+            ...(cachedTranslation ? { cachedTranslation } : {}),
+            ...(evaluation ? { evaluation } : {}),
+        }));
+
+const fromRow = (row: ChatConversationRow): Conversation => ({
+    id: row.id,
+    title: row.title,
+    targetLang: row.target_lang,
+    sourceLang: row.source_lang,
+    userLevel: row.user_level,
+    scenarioId: row.scenario_id,
+    goalsMet: row.goals_met ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messages: [...(row.chat_messages ?? [])]
+        .sort((a, b) => a.position - b.position)
+        .map(m => ({
+            role: m.role,
+            // Corrections are rendered from the JSON content, like a live chat-tutor response
+            content: m.role === 'system' && m.correction ? JSON.stringify(m.correction) : m.content,
+            ...(m.is_voice ? { isVoice: true } : {}),
+            ...(m.evaluation ? { evaluation: m.evaluation } : {}),
+        })),
+});
+
+/**
+ * Fetch all of the current user's conversations, newest first.
+ */
+export const fetchConversations = async (): Promise<Conversation[]> => {
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('id, title, target_lang, source_lang, user_level, scenario_id, goals_met, created_at, updated_at, chat_messages(position, role, content, is_voice, correction, evaluation)')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+    if (error) {
+        console.error('Fetch conversations error:', error);
+        throw error;
+    }
+    return (data as ChatConversationRow[]).map(fromRow);
+};
+
+/**
+ * Upsert a conversation and its messages. Messages are keyed by position,
+ * so saving the same thread repeatedly is idempotent. Saves of one thread
+ * must not overlap (queueConversationSave runs them in turn): the trim of an
+ * older save would delete the messages a newer one added.
+ */
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error: conversationError } = await supabase
+        .from('chat_conversations')
+        .upsert({
+            id: conversation.id,
+            user_id: userId,
+            title: conversation.title,
+            target_lang: conversation.targetLang,
+            source_lang: conversation.sourceLang,
+            user_level: conversation.userLevel,
+            scenario_id: conversation.scenarioId ?? null,
+            goals_met: conversation.goalsMet ?? [],
+            created_at: conversation.createdAt,
+        }, { onConflict: 'id' });
+
+    if (conversationError) {
+        console.error('Save conversation error:', conversationError);
+        throw conversationError;
+    }
+
+    const messages = getPersistableMessages(conversation.messages);
+    if (messages.length > 0) {
+        const { error: messagesError } = await supabase
+            .from('chat_messages')
+            .upsert(messages.map((m, position) => ({
+                conversation_id: conversation.id,
+                user_id: userId,
+                position,
+                role: m.role,
+                content: m.content,
+                is_voice: !!m.isVoice,
+                correction: parseCorrection(m),
+                evaluation: m.evaluation ?? null,
+            })), { onConflict: 'conversation_id,position' });
+
+        if (messagesError) {
+            console.error('Save chat messages error:', messagesError);
+            throw messagesError;
+        }
+    }
+
+    // Drop rows left over from messages that were removed locally
+    const { error: trimError } = await supabase
+        .from('chat_messages')
+        .delete()
+        .eq('conversation_id', conversation.id)
+        .gte('position', messages.length);
+
+    if (trimError) {
+        console.error('Trim chat messages error:', trimError);
+        throw trimError;
+    }
+};
+
+export const renameConversationRemote = async (id: string, title: string): Promise<void> => {
+    const { error } = await supabase
+        .from('chat_conversations')
+        .update({ title })
+        .eq('id', id);
+
+    if (error) {
+        console.error('Rename conversation error:', error);
+        throw error;
+    }
+};
+
+export const deleteConversationRemote = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Delete conversation error:', error);
+        throw error;
+    }
+};
+
+const conversationKey = (id: string) => `conversation:${id}`;
+
+// A save rewrites the whole thread, so the latest one queued is all that needs sending
+export const queueConversationSave = createQueuedOperation(
+    'conversation.save', saveConversation, conversation => conversationKey(conversation.id)
+);
+// Renames have their own key so they do not replace a pending save of the messages
+export const queueConversationRename = createQueuedOperation(
+    'conversation.rename',
+    ({ id, title }: { id: string; title: string }) => renameConversationRemote(id, title),
+    ({ id }) => `conversationTitle:${id}`
+);
+export const queueConversationDelete = createQueuedOperation(
+    'conversation.delete', deleteConversationRemote, conversationKey
+);
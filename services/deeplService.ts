@@ -1,56 +1,18 @@
-// DeepL API service for translation using HTTP fetch
+// DeepL translation service. Requests go through the `translate` edge function,
+// which holds the DeepL API key and meters usage.
+import { getLanguagesWithFeature, supportsFeature } from '@/constants/Languages';
 import Constants from 'expo-constants';
+import { getFunctionHeaders } from '../utils/supabase';
+import { assertOnline, OfflineError } from './network';
+import { checkMeteredResponse, UsageLimitExceededError } from './usageService';
 
-const DEEPL_API_URL = 'https://api-free.deepl.com/v2/translate';
-// Use 'https://api.deepl.com/v2/translate' for paid accounts
-
-// Language code mapping from app codes to DeepL codes
-const LANGUAGE_CODE_MAPPING: { [key: string]: string } = {
-  'en': 'EN',
-  'es': 'ES',
-  'fr': 'FR',
-  'de': 'DE',
-  'it': 'IT',
-  'pt': 'PT',
-  'ru': 'RU',
-  'ja': 'JA',
-  'ko': 'KO',
-  'zh': 'ZH',
-  'ar': 'AR',
-  'hi': 'HI',
-  'tr': 'TR',
-  'pl': 'PL',
-  'nl': 'NL',
-  'sv': 'SV',
-  'da': 'DA',
-  'no': 'NB',
-  'fi': 'FI',
-  'cs': 'CS',
-  'sk': 'SK',
-  'sl': 'SL',
-  'et': 'ET',
-  'lv': 'LV',
-  'lt': 'LT',
-  'bg': 'BG',
-  'ro': 'RO',
-  'el': 'EL',
-  'hu': 'HU',
-  'uk': 'UK',
-  'id': 'ID',
-};
+const supabaseUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL;
+const OFFLINE_MESSAGE = 'You are offline. Translations in your history are still available.';
 
 export interface TranslationRequest {
   text: string;
   sourceLanguage: string;
   targetLanguage: string;
-  apiKey?: string;
-}
-
-export interface TranslationResponse {
-  translations: Array<{
-    detected_source_language?: string;
-    text: string;
-  }>;
 }
 
 export interface TranslationResult {
@@ -68,102 +30,59 @@ export class DeepLTranslationError extends Error {
 export const translateWithDeepL = async (
   request: TranslationRequest
 ): Promise<TranslationResult> => {
-  const { text, sourceLanguage, targetLanguage, apiKey } = request;
+  const { text, sourceLanguage, targetLanguage } = request;
 
-  // Use provided API key or fallback to environment variable
-  const deeplApiKey = apiKey || Constants.expoConfig?.extra?.EXPO_PUBLIC_DEEPL_API_KEY;
-
-  if (!deeplApiKey) {
-    throw new DeepLTranslationError('API key is required. Provide it in the request or set DEEPL_API_KEY environment variable.');
+  if (!supabaseUrl) {
+    throw new DeepLTranslationError('Supabase URL not set in env');
   }
 
   if (!text.trim()) {
     throw new DeepLTranslationError('Text to translate cannot be empty');
   }
 
-  // Map language codes to DeepL format
-  const sourceLang = LANGUAGE_CODE_MAPPING[sourceLanguage];
-  const targetLang = LANGUAGE_CODE_MAPPING[targetLanguage];
-
-  if (!targetLang) {
+  if (!supportsFeature(targetLanguage, 'translation')) {
     throw new DeepLTranslationError(`Unsupported target language: ${targetLanguage}`);
   }
 
-  try {
-    // Prepare the request body as JSON
-    const requestBody: any = {
-      text: [text], // DeepL API expects text as an array
-      target_lang: targetLang,
-    };
-
-    // Only add source_lang if it's not auto-detect and is supported
-    if (sourceLanguage !== 'auto' && sourceLang) {
-      requestBody.source_lang = sourceLang;
-    }
+  await assertOnline(OFFLINE_MESSAGE);
 
-    const response = await fetch(DEEPL_API_URL, {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/translate`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `DeepL-Auth-Key ${deeplApiKey}`,
-      },
-      body: JSON.stringify(requestBody),
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify({ text, sourceLanguage, targetLanguage }),
     });
 
+    await checkMeteredResponse(response, 'translation');
+
     if (!response.ok) {
+      // The function maps DeepL status codes to the same messages and passes the status through
       let errorMessage = `HTTP error! status: ${response.status}`;
-
-      switch (response.status) {
-        case 400:
-          errorMessage = 'Bad request. Please check your input.';
-          break;
-        case 403:
-          errorMessage = 'Invalid API key or insufficient permissions.';
-          break;
-        case 413:
-          errorMessage = 'Text too long for translation.';
-          break;
-        case 429:
-          errorMessage = 'Too many requests. Please try again later.';
-          break;
-        case 456:
-          errorMessage = 'Quota exceeded. Please check your DeepL account.';
-          break;
-        case 503:
-          errorMessage = 'Service temporarily unavailable. Please try again later.';
-          break;
-        default:
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.message || errorMessage;
-          } catch {
-            // Keep default error message if JSON parsing fails
-          }
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // Keep default error message if JSON parsing fails
       }
 
       throw new DeepLTranslationError(errorMessage, response.status);
     }
 
-    const data: TranslationResponse = await response.json();
+    const data: TranslationResult = await response.json();
 
-    if (!data.translations || data.translations.length === 0) {
+    if (!data.translatedText) {
       throw new DeepLTranslationError('No translation received from DeepL API');
     }
 
-    const translation = data.translations[0];
-
-    return {
-      translatedText: translation.text,
-      detectedSourceLanguage: translation.detected_source_language?.toLowerCase(),
-    };
+    return data;
 
   } catch (error) {
-    if (error instanceof DeepLTranslationError) {
+    if (error instanceof DeepLTranslationError || error instanceof UsageLimitExceededError) {
       throw error;
     }
 
     if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new DeepLTranslationError('Network error. Please check your internet connection.');
+      throw new OfflineError(OFFLINE_MESSAGE);
     }
 
     throw new DeepLTranslationError(
@@ -174,10 +93,10 @@ export const translateWithDeepL = async (
 
 // Helper function to check if a language is supported by DeepL
 export const isLanguageSupported = (languageCode: string): boolean => {
-  return languageCode === 'auto' || languageCode in LANGUAGE_CODE_MAPPING;
+  return languageCode === 'auto' || supportsFeature(languageCode, 'translation');
 };
 
 // Helper function to get supported languages
 export const getSupportedLanguages = (): string[] => {
-  return Object.keys(LANGUAGE_CODE_MAPPING);
+  return getLanguagesWithFeature('translation').map(lang => lang.code);
 };
@@ -1,8 +1,8 @@
 import Constants from 'expo-constants';
-import { supabase } from '../utils/supabase';
+import { getFunctionHeaders } from '../utils/supabase';
+import { checkMeteredResponse } from './usageService';
 
 const supabaseFunctionUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_CALL_DETECT_LANGUAGE_URL;
-const supabaseAnonKey = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
 export const detectLanguageFromEdge = async (sentence: string): Promise<string> => {
     if (!sentence || sentence.trim().length < 5) {
@@ -12,19 +12,12 @@ export const detectLanguageFromEdge = async (sentence: string): Promise<string>
         console.error('Supabase Detect Language function URL not set in env');
         throw new Error('Supabase Detect Language function URL not set in env');
     }
-    if (!supabaseAnonKey) {
-        console.error('Supabase anon key not set in env');
-        throw new Error('Supabase anon key not set in env');
-    }
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`,
-    };
     const res = await fetch(supabaseFunctionUrl, {
         method: 'POST',
-        headers,
+        headers: await getFunctionHeaders(),
         body: JSON.stringify({ sentence }),
     });
+    await checkMeteredResponse(res, 'language_detection');
     if (!res.ok) {
         const errorText = await res.text();
         console.warn('sentence:', sentence);
@@ -1,23 +1,33 @@
+import { getLanguageName, supportsFeature } from '@/constants/Languages';
 import { detectLanguageFromEdge } from './detectLanguage';
-import { analyzeVerbsFromEdge } from './analyzeVerbs';
+import { analyzeVerbsFromEdge, VerbAnalysis } from './analyzeVerbs';
 import { getFromLocal, getFromSupabase, saveToLocal, saveToSupabase } from './verbCache';
-import { conjugateVerbFromEdge, upsertVerbConjugation } from "@/services/conjugateVerbService";
 
-export const getVerbData = async (sentence: string) => {
-    const language = await detectLanguageFromEdge(sentence);
+export interface VerbDataResult {
+    language: string;
+    results: VerbAnalysis[];
+}
+
+/** Verbs of `sentence`; pass `detectedLanguage` when the caller has already detected it. */
+export const getVerbData = async (sentence: string, detectedLanguage?: string): Promise<VerbDataResult> => {
+    const language = detectedLanguage ?? await detectLanguageFromEdge(sentence);
+    if (!supportsFeature(language, 'conjugation')) {
+        throw new Error(`Verb tables are not available for ${getLanguageName(language)} yet.`);
+    }
     const gptVerbs = await analyzeVerbsFromEdge(sentence, language);
     if (!gptVerbs || gptVerbs.length === 0) {
         console.warn('No verbs found in the sentence:', sentence);
         return { language, results: [] };
     }
-    const results = [];
+    const results: VerbAnalysis[] = [];
 
     for (const verb of gptVerbs) {
         const inf = verb.infinitive.toLowerCase();
         let cached = await getFromLocal(inf, language);
         if (cached) {
             console.log(`Found cached verb data for ${inf} in ${language}`);
-            results.push(cached);
+            // The cache only tells us the conjugation exists; report the form seen in this sentence
+            results.push(verb);
             continue; // Skip to the next verb if we have a local cache
         }
 
@@ -27,26 +37,20 @@ export const getVerbData = async (sentence: string) => {
             if (cached) {
                 await saveToLocal(inf, language, cached);
                 console.log(`Found cached verb analysis for ${inf} in ${language} from Supabase`);
-                results.push(cached);
+                results.push(verb);
                 continue; // Skip to the next verb if we have a Supabase cache
             }
         }
 
         if (!cached) {
             await saveToLocal(inf, language, verb);
-            // Always upsert into verb_analysis before upserting conjugation
+            // The conjugation table is generated when the verb is opened (getConjugation)
             await saveToSupabase(inf, language, verb);
             console.log(`Saved verb analysis for ${inf} in ${language} to local storage and Supabase`);
-
-            const conjugationData = await conjugateVerbFromEdge(inf, language);
-            console.log(JSON.stringify(conjugationData, null, 2));
-            await upsertVerbConjugation(inf, language, conjugationData.conjugation);
-
-            cached = verb;
         }
 
 
-        results.push(cached);
+        results.push(verb);
     }
 
 
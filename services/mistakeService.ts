@@ -0,0 +1,81 @@
+import { supabase } from '@/utils/supabase';
+import { assertOnline } from './network';
+
+/**
+ * How often the AI Tutor has corrected the learner for one grammar category
+ * (see constants/Mistakes) in one language. Written by chat-tutor only.
+ */
+export interface MistakeStat {
+    id: string;
+    language: string;
+    category: string;
+    count: number;
+    /** Latest first, at most 3 */
+    examples: { original: string; corrected: string }[];
+    firstSeenAt: string;
+    lastSeenAt: string;
+}
+
+interface MistakeRow {
+    id: string;
+    language: string;
+    category: string;
+    count: number;
+    examples: { original: string; corrected: string }[] | null;
+    first_seen_at: string;
+    last_seen_at: string;
+}
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const fromRow = (row: MistakeRow): MistakeStat => ({
+    id: row.id,
+    language: row.language,
+    category: row.category,
+    count: row.count,
+    examples: row.examples ?? [],
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+});
+
+/**
+ * Fetch the current user's mistake counts in every language, most frequent first.
+ */
+export const fetchMistakes = async (): Promise<MistakeStat[]> => {
+    await assertOnline();
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('user_mistakes')
+        .select('id, language, category, count, examples, first_seen_at, last_seen_at')
+        .eq('user_id', userId)
+        .order('count', { ascending: false });
+
+    if (error) {
+        console.error('Fetch mistakes error:', error);
+        throw error;
+    }
+    return (data as MistakeRow[]).map(fromRow);
+};
+
+/**
+ * Forget a category the learner has worked on, so the tutor stops targeting
+ * it until it comes up again.
+ */
+export const resetMistake = async (id: string): Promise<void> => {
+    await assertOnline();
+
+    const { error } = await supabase
+        .from('user_mistakes')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Reset mistake error:', error);
+        throw error;
+    }
+};
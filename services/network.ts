@@ -0,0 +1,58 @@
+/**
+ * Network - connectivity checks shared by the services
+ *
+ * Requests that need the server call assertOnline() first, so being offline
+ * surfaces as an OfflineError the screens can handle quietly (the offline
+ * banner already explains it) instead of a generic failure alert.
+ * Background writes go through offlineQueue instead.
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { FunctionsFetchError } from '@supabase/supabase-js';
+
+/**
+ * The request needs a connection and there is none.
+ */
+export class OfflineError extends Error {
+    constructor(message = 'You are offline. Check your connection and try again.') {
+        super(message);
+        this.name = 'OfflineError';
+    }
+}
+
+// isInternetReachable is null until NetInfo has checked; only a definite false counts as offline
+export const isReachable = (state: NetInfoState) =>
+    state.isConnected !== false && state.isInternetReachable !== false;
+
+export const isOnline = async (): Promise<boolean> => isReachable(await NetInfo.fetch());
+
+/**
+ * Throw an OfflineError (with `message`, if given) when there is no connection.
+ */
+export const assertOnline = async (message?: string): Promise<void> => {
+    if (!(await isOnline())) throw new OfflineError(message);
+};
+
+/**
+ * Call `listener` when the device goes offline or comes back online.
+ * Returns an unsubscribe function.
+ */
+export const onConnectivityChange = (listener: (online: boolean) => void): (() => void) => {
+    let last: boolean | null = null;
+    return NetInfo.addEventListener(state => {
+        const online = isReachable(state);
+        if (online === last) return;
+        last = online;
+        listener(online);
+    });
+};
+
+/**
+ * Whether `error` means the request never reached the server, as opposed to
+ * the server rejecting it. PostgREST reports a failed fetch as an error object
+ * whose message is the fetch error's.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+    error instanceof OfflineError
+    || error instanceof FunctionsFetchError
+    || /network request failed|failed to fetch/i.test(String((error as { message?: unknown } | null)?.message ?? ''));
@@ -0,0 +1,198 @@
+/**
+ * Offline Queue - background writes that survive losing the connection
+ *
+ * Work the user is not waiting on (history, deck, library and chat sync,
+ * cache writes) runs through operations made with createQueuedOperation.
+ * When the device is offline or a write fails, the operation is saved to
+ * AsyncStorage and replayed in order when the connection returns, and on the
+ * next launch. Operations are plain data dispatched to the handler registered
+ * for their type, so a queue written before a restart can still be replayed.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isNetworkError, isOnline, onConnectivityChange } from './network';
+
+const QUEUE_KEY = 'offlineQueue';
+// Failures other than network errors are retried on later flushes, then dropped
+const MAX_ATTEMPTS = 5;
+
+interface QueuedOperation {
+    type: string;
+    payload: unknown;
+    /** A newer operation with the same key replaces this one, e.g. a delete replaces a pending save */
+    key: string;
+    attempts: number;
+    queuedAt: string;
+}
+
+const handlers = new Map<string, (payload: any) => Promise<void>>();
+// Latest write per key still being sent or queued; writes to one key run one after another
+const inProgress = new Map<string, Promise<void>>();
+// Open watchPendingWrites() calls; every write started meanwhile adds its key
+const watchers = new Set<Set<string>>();
+
+let queue: QueuedOperation[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let stopWatching: (() => void) | null = null;
+
+const loadQueue = (): Promise<void> => {
+    if (!loaded) {
+        loaded = AsyncStorage.getItem(QUEUE_KEY)
+            .then(json => {
+                // Operations queued before loading finished go after the stored ones
+                queue = [...(json ? JSON.parse(json) : []), ...queue];
+            })
+            .catch(error => console.error('Failed to read offline queue:', error));
+    }
+    return loaded;
+};
+
+const saveQueue = () => AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+    .catch(error => console.error('Failed to save offline queue:', error));
+
+const enqueue = async (type: string, payload: unknown, key: string) => {
+    await loadQueue();
+    queue = [
+        ...queue.filter(op => op.key !== key),
+        { type, payload, key, attempts: 0, queuedAt: new Date().toISOString() },
+    ];
+    await saveQueue();
+};
+
+const runFlush = async () => {
+    await loadQueue();
+    if (!(await isOnline())) return;
+
+    for (const op of [...queue]) {
+        // Replaced while an earlier operation was running
+        if (!queue.includes(op)) continue;
+        const handler = handlers.get(op.type);
+        if (!handler) continue;
+
+        try {
+            await handler(op.payload);
+            queue = queue.filter(queued => queued !== op);
+        } catch (error) {
+            // Offline again: keep everything for the next reconnect
+            if (isNetworkError(error)) break;
+            op.attempts += 1;
+            if (op.attempts >= MAX_ATTEMPTS) {
+                console.error(`Dropping queued ${op.type} after ${MAX_ATTEMPTS} attempts:`, error);
+                queue = queue.filter(queued => queued !== op);
+            } else {
+                console.error(`Queued ${op.type} failed:`, error);
+            }
+        }
+        await saveQueue();
+    }
+};
+
+/**
+ * Replay queued operations now. Runs one flush at a time; a call made during
+ * a flush runs another one after it, so operations queued meanwhile are sent too.
+ */
+export const flushQueue = (): Promise<void> => {
+    if (flushing) {
+        flushAgain = true;
+        return flushing;
+    }
+    flushing = (async () => {
+        do {
+            flushAgain = false;
+            await runFlush();
+        } while (flushAgain);
+    })().finally(() => {
+        flushing = null;
+    });
+    return flushing;
+};
+
+/** A write made with createQueuedOperation; `keyOf` names the record a payload writes. */
+export interface BackgroundWrite<T> {
+    (payload: T): Promise<void>;
+    keyOf: (payload: T) => string;
+}
+
+/**
+ * Make a background write that is queued instead of lost when it cannot
+ * reach the server. `handler` must throw when the write fails; `keyOf` names
+ * the record it writes, and writes to one record never overlap. The returned
+ * function never rejects.
+ */
+export const createQueuedOperation = <T>(
+    type: string,
+    handler: (payload: T) => Promise<void>,
+    keyOf: (payload: T) => string
+): BackgroundWrite<T> => {
+    handlers.set(type, handler);
+
+    const send = async (payload: T, key: string) => {
+        await loadQueue();
+        // Earlier writes to the same record must not land after this one
+        const waiting = queue.some(op => op.key === key);
+        if (!waiting && await isOnline()) {
+            try {
+                await handler(payload);
+                return;
+            } catch (error) {
+                console.error(`${type} failed, queued for retry:`, error);
+            }
+        }
+        await enqueue(type, payload, key);
+        if (waiting) flushQueue();
+    };
+
+    const write = (payload: T) => {
+        const key = keyOf(payload);
+        watchers.forEach(keys => keys.add(key));
+        // A write still running for this record (e.g. the previous chat save) finishes first
+        const current = (inProgress.get(key) ?? Promise.resolve()).then(() => send(payload, key));
+        inProgress.set(key, current);
+        current.finally(() => {
+            if (inProgress.get(key) === current) inProgress.delete(key);
+        });
+        return current;
+    };
+    return Object.assign(write, { keyOf });
+};
+
+/**
+ * Collect the keys of records that may not have reached the server: queued,
+ * being written now, or written before `stop()` is called. A sync opens this
+ * before fetching, so a record missing from the server's list can be told
+ * apart from one deleted on another device.
+ */
+export const watchPendingWrites = async () => {
+    await loadQueue();
+    const keys = new Set([...queue.map(op => op.key), ...inProgress.keys()]);
+    watchers.add(keys);
+    return {
+        has: (key: string) => keys.has(key),
+        stop: () => {
+            watchers.delete(keys);
+        },
+    };
+};
+
+/**
+ * Replay the queue now and whenever the connection comes back. Safe to call more than once.
+ */
+export const startOfflineQueue = () => {
+    if (!stopWatching) {
+        stopWatching = onConnectivityChange(online => {
+            if (online) flushQueue();
+        });
+    }
+    flushQueue();
+};
+
+/**
+ * Drop everything queued, on sign-out: the operations belong to that user.
+ */
+export const clearOfflineQueue = async (): Promise<void> => {
+    await loadQueue();
+    queue = [];
+    await AsyncStorage.removeItem(QUEUE_KEY);
+};
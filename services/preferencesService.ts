@@ -0,0 +1,90 @@
+import { supabase } from '@/utils/supabase';
+import { ThemePreference } from '../app/store/useThemeSettings';
+
+/** The settings kept in user_preferences, as the app stores them locally. */
+export interface UserPreferences {
+    sourceLang: string;
+    targetLang: string;
+    cefrLevels: string[];
+    cefrDynamicCheck: boolean;
+    /** Device voice identifier per language */
+    deviceVoices: Record<string, string>;
+    /** Premium voice id per language */
+    premiumVoices: Record<string, string>;
+    theme: ThemePreference;
+}
+
+export interface RemotePreferences {
+    preferences: UserPreferences;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface UserPreferencesRow {
+    native_language: string;
+    target_language: string;
+    cefr_levels_selected: string[] | null;
+    cefr_dynamic_check: boolean | null;
+    pronunciation_voice_map: Record<string, string> | null;
+    premium_voice_map: Record<string, string> | null;
+    theme: ThemePreference;
+    created_at: string;
+    updated_at: string;
+}
+
+const fromRow = (row: UserPreferencesRow): RemotePreferences => ({
+    preferences: {
+        sourceLang: row.native_language.toLowerCase(),
+        targetLang: row.target_language.toLowerCase(),
+        cefrLevels: row.cefr_levels_selected ?? [],
+        cefrDynamicCheck: row.cefr_dynamic_check ?? false,
+        deviceVoices: row.pronunciation_voice_map ?? {},
+        premiumVoices: row.premium_voice_map ?? {},
+        theme: row.theme,
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Fetch a user's preferences row, or null if there is none.
+ */
+export const fetchPreferences = async (userId: string): Promise<RemotePreferences | null> => {
+    const { data, error } = await supabase
+        .from('user_preferences')
+        .select('native_language, target_language, cefr_levels_selected, cefr_dynamic_check, pronunciation_voice_map, premium_voice_map, theme, created_at, updated_at')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Fetch preferences error:', error);
+        throw error;
+    }
+    return data ? fromRow(data as UserPreferencesRow) : null;
+};
+
+/**
+ * Write the user's preferences and return the row's new updated_at.
+ */
+export const savePreferences = async (userId: string, preferences: UserPreferences): Promise<string> => {
+    const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({
+            id: userId,
+            native_language: preferences.sourceLang,
+            target_language: preferences.targetLang,
+            cefr_levels_selected: preferences.cefrLevels,
+            cefr_dynamic_check: preferences.cefrDynamicCheck,
+            pronunciation_voice_map: preferences.deviceVoices,
+            premium_voice_map: preferences.premiumVoices,
+            theme: preferences.theme,
+        }, { onConflict: 'id' })
+        .select('updated_at')
+        .single();
+
+    if (error) {
+        console.error('Save preferences error:', error);
+        throw error;
+    }
+    return data.updated_at;
+};
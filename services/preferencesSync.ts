@@ -0,0 +1,208 @@
+/**
+ * Preferences Sync - settings follow the user across devices
+ *
+ * Languages, CEFR settings, theme and voices live in their own stores, which
+ * keep working from AsyncStorage offline. This module mirrors them to the
+ * user's user_preferences row: it hydrates the stores from Supabase on login
+ * and pushes local changes shortly after they are made. When both sides
+ * changed, the newer of the local change time and the row's updated_at wins.
+ * A push that fails (offline, signed out) stays pending for the next sync.
+ */
+
+import { supabase } from '@/utils/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCEFRSettings } from '../app/store/useCEFRSettings';
+import { useLanguageStore } from '../app/store/useLanguageStore';
+import { useThemeSettings } from '../app/store/useThemeSettings';
+import { fetchPreferences, savePreferences, UserPreferences } from './preferencesService';
+import { getVoiceMap, onVoiceChange, replaceVoiceMap } from './voicePreferences';
+
+const SYNC_STATE_KEY = 'preferencesSyncState';
+const PUSH_DELAY_MS = 1500;
+
+interface SyncState {
+    /** When the local settings last changed, or the updated_at they were last synced at */
+    updatedAt: string | null;
+    /** Local changes not yet written to Supabase */
+    pending: boolean;
+}
+
+const EMPTY_STATE: SyncState = { updatedAt: null, pending: false };
+
+let started: Promise<void> | null = null;
+let syncChain: Promise<void> = Promise.resolve();
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+// Set while remote settings are written into the stores, which must not count as local changes
+let applying = false;
+let lastSnapshot = '';
+// Bumped by every local change, so a sync can tell whether one came in while it ran
+let changeCount = 0;
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const loadSyncState = async (): Promise<SyncState> => {
+    try {
+        const json = await AsyncStorage.getItem(SYNC_STATE_KEY);
+        return json ? JSON.parse(json) : EMPTY_STATE;
+    } catch (error) {
+        console.error('Failed to read preferences sync state:', error);
+        return EMPTY_STATE;
+    }
+};
+
+const saveSyncState = (state: SyncState) => AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+
+// The synced fields held in zustand stores; voice maps report changes themselves
+const storeSnapshot = () => {
+    const { selectedLevels, dynamicCheck } = useCEFRSettings.getState();
+    const { sourceLang, targetLang } = useLanguageStore.getState();
+    const { themePreference } = useThemeSettings.getState();
+    return JSON.stringify([selectedLevels, dynamicCheck, sourceLang, targetLang, themePreference]);
+};
+
+const collectPreferences = async (): Promise<UserPreferences> => {
+    const { selectedLevels, dynamicCheck } = useCEFRSettings.getState();
+    const { sourceLang, targetLang } = useLanguageStore.getState();
+    return {
+        sourceLang,
+        targetLang,
+        cefrLevels: selectedLevels,
+        cefrDynamicCheck: dynamicCheck,
+        deviceVoices: await getVoiceMap('device'),
+        premiumVoices: await getVoiceMap('premium'),
+        theme: useThemeSettings.getState().themePreference,
+    };
+};
+
+const applyPreferences = async (preferences: UserPreferences) => {
+    applying = true;
+    try {
+        const cefr = useCEFRSettings.getState();
+        // Turning the dynamic check on clears the levels, so it goes first
+        cefr.setDynamicCheck(preferences.cefrDynamicCheck);
+        cefr.setSelectedLevels(preferences.cefrLevels);
+        const languages = useLanguageStore.getState();
+        languages.setSourceLang(preferences.sourceLang);
+        languages.setTargetLang(preferences.targetLang);
+        useThemeSettings.getState().setThemePreference(preferences.theme);
+        await replaceVoiceMap('device', preferences.deviceVoices);
+        await replaceVoiceMap('premium', preferences.premiumVoices);
+    } finally {
+        lastSnapshot = storeSnapshot();
+        applying = false;
+    }
+};
+
+const runSync = async () => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const changesAtStart = changeCount;
+    // A change made during the sync is newer than what was synced and stays pending
+    const changedMeanwhile = () => changeCount !== changesAtStart;
+
+    const state = await loadSyncState();
+    try {
+        const remote = await fetchPreferences(userId);
+        // Rows start out with defaults from the signup trigger; those never override local settings
+        const remoteWritten = !!remote && Date.parse(remote.updatedAt) > Date.parse(remote.createdAt);
+        const localNewer = state.pending
+            && (!remote || !state.updatedAt || Date.parse(state.updatedAt) >= Date.parse(remote.updatedAt));
+
+        if (remote && remoteWritten && !localNewer) {
+            if (changedMeanwhile()) return;
+            if (state.updatedAt !== remote.updatedAt) {
+                await applyPreferences(remote.preferences);
+            }
+            await saveSyncState({ updatedAt: remote.updatedAt, pending: false });
+            return;
+        }
+
+        if (!remoteWritten || state.pending) {
+            const updatedAt = await savePreferences(userId, await collectPreferences());
+            // A change made meanwhile stays pending, dated at the row so the next sync pushes it
+            await saveSyncState({ updatedAt, pending: changedMeanwhile() });
+        }
+    } catch (error) {
+        // Local settings still apply; the change stays pending
+        console.error('Preferences sync error:', error);
+    }
+};
+
+/**
+ * Hydrate the settings stores from AsyncStorage and start watching them for
+ * changes to push. Safe to call more than once.
+ */
+export const startPreferencesSync = (): Promise<void> => {
+    if (!started) {
+        started = (async () => {
+            const languagesHydrated = useLanguageStore.persist.hasHydrated()
+                ? Promise.resolve()
+                : new Promise<void>(resolve => {
+                    const unsubscribe = useLanguageStore.persist.onFinishHydration(() => {
+                        unsubscribe();
+                        resolve();
+                    });
+                });
+            await Promise.all([
+                useCEFRSettings.getState().hydrate(),
+                useThemeSettings.getState().hydrate(),
+                languagesHydrated,
+            ]);
+
+            lastSnapshot = storeSnapshot();
+            const handleStoreChange = () => {
+                if (applying) return;
+                const snapshot = storeSnapshot();
+                // Screens re-run hydrate(), which sets the same values again
+                if (snapshot === lastSnapshot) return;
+                lastSnapshot = snapshot;
+                markChanged();
+            };
+            useCEFRSettings.subscribe(handleStoreChange);
+            useLanguageStore.subscribe(handleStoreChange);
+            useThemeSettings.subscribe(handleStoreChange);
+            onVoiceChange(() => markChanged());
+        })();
+    }
+    return started;
+};
+
+/**
+ * Reconcile local settings with the user's user_preferences row: pull the row
+ * if it is newer, otherwise push pending local changes. Syncs run one at a time.
+ */
+export const syncPreferences = (): Promise<void> => {
+    syncChain = syncChain.then(async () => {
+        await startPreferencesSync();
+        await runSync();
+    });
+    return syncChain;
+};
+
+const markChanged = () => {
+    changeCount += 1;
+    saveSyncState({ updatedAt: new Date().toISOString(), pending: true })
+        .catch(error => console.error('Failed to save preferences sync state:', error));
+
+    // Several quick changes (e.g. ticking CEFR levels) become one write
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+        pushTimer = null;
+        syncPreferences();
+    }, PUSH_DELAY_MS);
+};
+
+/**
+ * Forget the sync state on sign-out; the settings themselves stay on the device.
+ */
+export const resetPreferencesSync = async (): Promise<void> => {
+    if (pushTimer) {
+        clearTimeout(pushTimer);
+        pushTimer = null;
+    }
+    await AsyncStorage.removeItem(SYNC_STATE_KEY);
+};
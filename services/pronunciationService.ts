@@ -0,0 +1,44 @@
+import type { PronunciationResult } from '@/constants/Pronunciation';
+import { supabase } from '@/utils/supabase';
+import { assertOnline, isNetworkError, OfflineError } from './network';
+import { checkMeteredInvoke } from './usageService';
+
+export type { AlignedWord, PronunciationResult, WordStatus } from '@/constants/Pronunciation';
+
+export interface CheckPronunciationParams {
+    /** The recording, as returned by useAudioRecorder */
+    audioBase64: string;
+    /** The sentence the learner was reading */
+    expectedText: string;
+    /** ISO 639-1 code; omitted, the language is detected from the audio */
+    language?: string | null;
+}
+
+export const checkPronunciation = async (params: CheckPronunciationParams): Promise<PronunciationResult> => {
+    const { audioBase64, expectedText, language } = params;
+    await assertOnline();
+
+    const { data, error } = await supabase.functions.invoke('check-pronunciation', {
+        body: {
+            audio_base64: audioBase64,
+            expected_text: expectedText,
+            language: language ?? null,
+        }
+    });
+
+    await checkMeteredInvoke(error, 'pronunciation_check');
+    if (isNetworkError(error)) throw new OfflineError();
+    if (error) {
+        console.error('Pronunciation Check Error:', error);
+        throw new Error(error.message || 'Failed to check pronunciation');
+    }
+
+    if (data?.error) {
+        throw new Error(data.error);
+    }
+    if (!Array.isArray(data?.words) || typeof data?.score !== 'number') {
+        throw new Error('Unexpected response from the pronunciation check');
+    }
+
+    return data as PronunciationResult;
+};
@@ -0,0 +1,66 @@
+/**
+ * Record Sync - merging a Supabase list into a store kept on the device
+ *
+ * The vocabulary deck, translation history, story library, conversations and
+ * session reports are written locally first and sent to Supabase through the
+ * offline queue. A sync fetches the server's list and merges it in. A record
+ * only the device has is kept while a write for it is still pending (the
+ * queue delivers it); otherwise it was deleted on another device and is
+ * removed here as well.
+ */
+
+import { BackgroundWrite, watchPendingWrites } from './offlineQueue';
+
+/** Pick the copy to keep of a record on both sides; `push` when Supabase is behind. */
+export type ResolveRecord<T> = (local: T, remote: T) => { record: T; push: boolean };
+
+/** The copy edited last wins. */
+export const newerRecord = <T extends { updatedAt: string }>(local: T, remote: T) =>
+    Date.parse(local.updatedAt) > Date.parse(remote.updatedAt)
+        ? { record: local, push: true }
+        : { record: remote, push: false };
+
+interface SyncOptions<T> {
+    fetchRemote: () => Promise<T[]>;
+    /** Read once the fetch is back, so records added meanwhile are kept */
+    getLocal: () => T[];
+    save: BackgroundWrite<T>;
+    resolve: ResolveRecord<T>;
+    /** Local records to keep although the server's list lacks them, e.g. never sent or outside the fetched page */
+    keepLocal?: (record: T, remote: T[]) => boolean;
+}
+
+/**
+ * Fetch the server's records and merge them with the local ones. Returns the
+ * merged list unsorted; throws when the fetch fails.
+ */
+export const syncRecords = async <T extends { id: string }>({
+    fetchRemote,
+    getLocal,
+    save,
+    resolve,
+    keepLocal,
+}: SyncOptions<T>): Promise<T[]> => {
+    const pending = await watchPendingWrites();
+    try {
+        const remote = await fetchRemote();
+        const local = getLocal();
+        const localById = new Map(local.map(record => [record.id, record]));
+        const remoteIds = new Set(remote.map(record => record.id));
+
+        const merged = remote.map(remoteRecord => {
+            const localRecord = localById.get(remoteRecord.id);
+            if (!localRecord) return remoteRecord;
+            const { record, push } = resolve(localRecord, remoteRecord);
+            if (push) save(record);
+            return record;
+        });
+
+        const unsynced = local.filter(record =>
+            !remoteIds.has(record.id) && (pending.has(save.keyOf(record)) || keepLocal?.(record, remote))
+        );
+        return [...unsynced, ...merged];
+    } finally {
+        pending.stop();
+    }
+};
@@ -0,0 +1,57 @@
+/**
+ * Response Cache - recent AI results kept on the device
+ *
+ * Lets a screen answer a request it has answered before while offline. Each
+ * feature keeps its MAX_ENTRIES most recent results in one AsyncStorage item;
+ * the server-side ai_response_cache still handles everything online.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const KEY_PREFIX = 'responseCache:';
+const MAX_ENTRIES = 50;
+
+interface CachedResponse<T> {
+    key: string;
+    value: T;
+    storedAt: string;
+}
+
+const readEntries = async <T>(feature: string): Promise<CachedResponse<T>[]> => {
+    try {
+        const json = await AsyncStorage.getItem(KEY_PREFIX + feature);
+        return json ? JSON.parse(json) : [];
+    } catch (error) {
+        console.error(`Failed to read ${feature} response cache:`, error);
+        return [];
+    }
+};
+
+export const getCachedResponse = async <T>(feature: string, key: string): Promise<T | null> => {
+    const entries = await readEntries<T>(feature);
+    return entries.find(entry => entry.key === key)?.value ?? null;
+};
+
+/**
+ * Remember `value` as the result for `key`, dropping the oldest entries past MAX_ENTRIES.
+ */
+export const cacheResponse = async <T>(feature: string, key: string, value: T): Promise<void> => {
+    const entries = await readEntries<T>(feature);
+    const updated = [
+        { key, value, storedAt: new Date().toISOString() },
+        ...entries.filter(entry => entry.key !== key),
+    ].slice(0, MAX_ENTRIES);
+    try {
+        await AsyncStorage.setItem(KEY_PREFIX + feature, JSON.stringify(updated));
+    } catch (error) {
+        console.error(`Failed to write ${feature} response cache:`, error);
+    }
+};
+
+/**
+ * Forget every cached result, e.g. on sign-out.
+ */
+export const clearResponseCache = async (): Promise<void> => {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(KEY_PREFIX)));
+};
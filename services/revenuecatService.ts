@@ -204,7 +204,8 @@ export const getSubscriptionStatus = (customerInfo: CustomerInfo): SubscriptionS
 };
 
 /**
- * Sync subscription state from RevenueCat to Supabase
+ * Sync subscription state from RevenueCat to the local store and link the
+ * RevenueCat id on the Supabase profile
  */
 export const syncSubscriptionToSupabase = async (
   userId: string,
@@ -222,16 +223,11 @@ export const syncSubscriptionToSupabase = async (
       expiresAt = activeEntitlements[0].expirationDate;
     }
 
-    // Update Supabase user profile
+    // Subscription columns are written by the revenuecat-webhook only;
+    // the client just links its RevenueCat id to the profile.
     const { error } = await supabase
       .from('user_profiles')
-      .update({
-        subscription_tier: tier,
-        subscription_status: status,
-        subscription_expires_at: expiresAt,
-        subscription_platform: Platform.OS as 'ios' | 'android',
-        revenuecat_app_user_id: userId,
-      })
+      .update({ revenuecat_app_user_id: userId })
       .eq('id', userId);
 
     if (error) {
@@ -0,0 +1,109 @@
+import { supabase } from '@/utils/supabase';
+import { SessionReport } from './chatService';
+import { createQueuedOperation } from './offlineQueue';
+
+/** A finished AI Tutor session and the report chat-tutor wrote on it. */
+export interface SavedSessionReport {
+    id: string;
+    /** null once the thread has been deleted */
+    conversationId: string | null;
+    title: string;
+    targetLang: string;
+    sourceLang: string;
+    report: SessionReport;
+    createdAt: string;
+}
+
+interface SessionReportRow {
+    id: string;
+    conversation_id: string | null;
+    title: string;
+    target_lang: string;
+    source_lang: string;
+    report: SessionReport;
+    created_at: string;
+}
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const fromRow = (row: SessionReportRow): SavedSessionReport => ({
+    id: row.id,
+    conversationId: row.conversation_id,
+    title: row.title,
+    targetLang: row.target_lang,
+    sourceLang: row.source_lang,
+    report: row.report,
+    createdAt: row.created_at,
+});
+
+/**
+ * Fetch the current user's session reports, newest first.
+ */
+export const fetchSessionReports = async (): Promise<SavedSessionReport[]> => {
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('chat_session_reports')
+        .select('id, conversation_id, title, target_lang, source_lang, report, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Fetch session reports error:', error);
+        throw error;
+    }
+    return (data as SessionReportRow[]).map(fromRow);
+};
+
+/**
+ * Upsert a report. Reports are never edited, so saving one twice is harmless.
+ */
+export const saveSessionReport = async (saved: SavedSessionReport): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+        .from('chat_session_reports')
+        .upsert({
+            id: saved.id,
+            user_id: userId,
+            conversation_id: saved.conversationId,
+            title: saved.title,
+            target_lang: saved.targetLang,
+            source_lang: saved.sourceLang,
+            cefr_level: saved.report.cefr_level,
+            report: saved.report,
+            created_at: saved.createdAt,
+        }, { onConflict: 'id' });
+
+    if (error) {
+        console.error('Save session report error:', error);
+        throw error;
+    }
+};
+
+export const deleteSessionReportRemote = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('chat_session_reports')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Delete session report error:', error);
+        throw error;
+    }
+};
+
+const reportKey = (id: string) => `sessionReport:${id}`;
+
+// Reports are saved once, then only ever deleted
+export const queueSessionReportSave = createQueuedOperation(
+    'sessionReport.save', saveSessionReport, saved => reportKey(saved.id)
+);
+export const queueSessionReportDelete = createQueuedOperation(
+    'sessionReport.delete', deleteSessionReportRemote, reportKey
+);
@@ -0,0 +1,166 @@
+import { supabase } from '@/utils/supabase';
+import { createQueuedOperation } from './offlineQueue';
+import { GeneratedStory, StoryQuestion } from './storyService';
+
+export interface QuizAnswer {
+    questionIndex: number;
+    selectedAnswer: string;
+    isCorrect: boolean;
+}
+
+/** One completed run through a story's quiz. Retakes add attempts. */
+export interface QuizAttempt {
+    id: string;
+    answers: QuizAnswer[];
+    correctCount: number;
+    totalQuestions: number;
+    completedAt: string;
+}
+
+export interface SavedStory extends GeneratedStory {
+    id: string;
+    targetLang: string;
+    sourceLang: string | null;
+    cefrLevel: string;
+    /** null when the AI picked the topic */
+    topic: string | null;
+    /** Oldest first */
+    attempts: QuizAttempt[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface QuizAttemptRow {
+    id: string;
+    answers: QuizAnswer[];
+    correct_count: number;
+    total_questions: number;
+    completed_at: string;
+}
+
+interface StoryRow {
+    id: string;
+    title: string;
+    story: string;
+    questions: StoryQuestion[];
+    target_lang: string;
+    source_lang: string | null;
+    cefr_level: string;
+    topic: string | null;
+    created_at: string;
+    updated_at: string;
+    story_quiz_attempts: QuizAttemptRow[] | null;
+}
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const fromRow = (row: StoryRow): SavedStory => ({
+    id: row.id,
+    title: row.title,
+    story: row.story,
+    questions: row.questions,
+    targetLang: row.target_lang,
+    sourceLang: row.source_lang,
+    cefrLevel: row.cefr_level,
+    topic: row.topic,
+    attempts: (row.story_quiz_attempts ?? [])
+        .map(attempt => ({
+            id: attempt.id,
+            answers: attempt.answers,
+            correctCount: attempt.correct_count,
+            totalQuestions: attempt.total_questions,
+            completedAt: attempt.completed_at,
+        }))
+        .sort((a, b) => Date.parse(a.completedAt) - Date.parse(b.completedAt)),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Fetch the current user's stories with their quiz attempts, newest first.
+ */
+export const fetchStoryLibrary = async (): Promise<SavedStory[]> => {
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('stories')
+        .select('id, title, story, questions, target_lang, source_lang, cefr_level, topic, created_at, updated_at, story_quiz_attempts(id, answers, correct_count, total_questions, completed_at)')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+    if (error) {
+        console.error('Fetch story library error:', error);
+        throw error;
+    }
+    return (data as StoryRow[]).map(fromRow);
+};
+
+/**
+ * Upsert a story and insert any of its attempts Supabase does not have yet.
+ * Attempts are never edited, so existing ones are left untouched.
+ */
+export const saveStory = async (story: SavedStory): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error: storyError } = await supabase
+        .from('stories')
+        .upsert({
+            id: story.id,
+            user_id: userId,
+            title: story.title,
+            story: story.story,
+            questions: story.questions,
+            target_lang: story.targetLang,
+            source_lang: story.sourceLang,
+            cefr_level: story.cefrLevel,
+            topic: story.topic,
+            created_at: story.createdAt,
+        }, { onConflict: 'id' });
+
+    if (storyError) {
+        console.error('Save story error:', storyError);
+        throw storyError;
+    }
+
+    if (story.attempts.length > 0) {
+        const { error: attemptsError } = await supabase
+            .from('story_quiz_attempts')
+            .upsert(story.attempts.map(attempt => ({
+                id: attempt.id,
+                story_id: story.id,
+                user_id: userId,
+                answers: attempt.answers,
+                correct_count: attempt.correctCount,
+                total_questions: attempt.totalQuestions,
+                completed_at: attempt.completedAt,
+            })), { onConflict: 'id', ignoreDuplicates: true });
+
+        if (attemptsError) {
+            console.error('Save quiz attempts error:', attemptsError);
+            throw attemptsError;
+        }
+    }
+};
+
+export const deleteStoryRemote = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('stories')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Delete story error:', error);
+        throw error;
+    }
+};
+
+const storyKey = (id: string) => `story:${id}`;
+
+// A story and its quiz attempts are written together: one pending save per story
+export const queueStorySave = createQueuedOperation('story.save', saveStory, story => storyKey(story.id));
+export const queueStoryDelete = createQueuedOperation('story.delete', deleteStoryRemote, storyKey);
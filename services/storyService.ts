@@ -1,16 +1,9 @@
+import { GENERATED_STORY_SCHEMA, GeneratedStory, parseAiResponse } from '@/constants/AiSchemas';
 import { supabase } from '@/utils/supabase';
+import { assertOnline, isNetworkError, OfflineError } from './network';
+import { checkMeteredInvoke } from './usageService';
 
-export interface StoryQuestion {
-    question: string;
-    options: string[];
-    correctAnswer: string;
-}
-
-export interface GeneratedStory {
-    title: string;
-    story: string;
-    questions: StoryQuestion[];
-}
+export type { GeneratedStory, StoryQuestion } from '@/constants/AiSchemas';
 
 export interface GenerateStoryParams {
     targetLang: string;
@@ -20,6 +13,8 @@ export interface GenerateStoryParams {
 
 export const generateStory = async (params: GenerateStoryParams): Promise<GeneratedStory> => {
     const { targetLang, cefrLevel, topic } = params;
+    const offlineMessage = 'You are offline. Stories in your library can still be read.';
+    await assertOnline(offlineMessage);
 
     const { data, error } = await supabase.functions.invoke('generate-story', {
         body: {
@@ -29,6 +24,8 @@ export const generateStory = async (params: GenerateStoryParams): Promise<Genera
         }
     });
 
+    await checkMeteredInvoke(error, 'story_generation');
+    if (isNetworkError(error)) throw new OfflineError(offlineMessage);
     if (error) {
         console.error('Story Generation Error:', error);
         throw new Error(error.message || 'Failed to generate story');
@@ -38,10 +35,5 @@ export const generateStory = async (params: GenerateStoryParams): Promise<Genera
         throw new Error(data.error);
     }
 
-    if (!data?.title || !data?.story || !data?.questions) {
-        console.error('Invalid story response:', data);
-        throw new Error('Invalid response from story generation');
-    }
-
-    return data as GeneratedStory;
+    return parseAiResponse(GENERATED_STORY_SCHEMA, data);
 };
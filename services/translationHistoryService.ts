@@ -0,0 +1,146 @@
+import { supabase } from '@/utils/supabase';
+import { createQueuedOperation } from './offlineQueue';
+import { TranslationFeatureResult } from './translatorFeatures';
+
+export interface TranslationHistoryEntry {
+    id: string;
+    inputText: string;
+    outputText: string;
+    sourceLang: string;
+    targetLang: string;
+    detectedSourceLang: string | null;
+    features: TranslationFeatureResult | null;
+    isFavorite: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface TranslationHistoryRow {
+    id: string;
+    input_text: string;
+    output_text: string;
+    source_lang: string;
+    target_lang: string;
+    detected_source_lang: string | null;
+    features: TranslationFeatureResult | null;
+    is_favorite: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+const COLUMNS = 'id, input_text, output_text, source_lang, target_lang, detected_source_lang, features, is_favorite, created_at, updated_at';
+
+/** History is only synced for registered accounts; guests keep it on the device. */
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user || user.is_anonymous) return null;
+    return user.id;
+};
+
+const fromRow = (row: TranslationHistoryRow): TranslationHistoryEntry => ({
+    id: row.id,
+    inputText: row.input_text,
+    outputText: row.output_text,
+    sourceLang: row.source_lang,
+    targetLang: row.target_lang,
+    detectedSourceLang: row.detected_source_lang,
+    features: row.features,
+    isFavorite: row.is_favorite,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Fetch the most recent history entries, newest first.
+ */
+export const fetchTranslationHistory = async (limit: number): Promise<TranslationHistoryEntry[]> => {
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('translation_history')
+        .select(COLUMNS)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Fetch translation history error:', error);
+        throw error;
+    }
+    return (data as TranslationHistoryRow[]).map(fromRow);
+};
+
+/**
+ * Full-text search over input and output text, for entries older than the
+ * ones kept on the device.
+ */
+export const searchTranslationHistory = async (query: string, limit: number): Promise<TranslationHistoryEntry[]> => {
+    const userId = await getUserId();
+    if (!userId || !query.trim()) return [];
+
+    const { data, error } = await supabase
+        .from('translation_history')
+        .select(COLUMNS)
+        .eq('user_id', userId)
+        .textSearch('search_vector', query.trim(), { type: 'websearch', config: 'simple' })
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Search translation history error:', error);
+        throw error;
+    }
+    return (data as TranslationHistoryRow[]).map(fromRow);
+};
+
+export const saveTranslationHistoryEntry = async (entry: TranslationHistoryEntry): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+        .from('translation_history')
+        .upsert({
+            id: entry.id,
+            user_id: userId,
+            input_text: entry.inputText,
+            output_text: entry.outputText,
+            source_lang: entry.sourceLang,
+            target_lang: entry.targetLang,
+            detected_source_lang: entry.detectedSourceLang,
+            features: entry.features,
+            is_favorite: entry.isFavorite,
+            created_at: entry.createdAt,
+        }, { onConflict: 'id' });
+
+    if (error) {
+        console.error('Save translation history error:', error);
+        throw error;
+    }
+};
+
+export const deleteTranslationHistoryEntry = async (id: string): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+        .from('translation_history')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Delete translation history error:', error);
+        throw error;
+    }
+};
+
+const historyKey = (id: string) => `translationHistory:${id}`;
+
+// Features, stars and re-translations all resave the whole entry
+export const queueTranslationHistorySave = createQueuedOperation(
+    'translationHistory.save', saveTranslationHistoryEntry, entry => historyKey(entry.id)
+);
+export const queueTranslationHistoryDelete = createQueuedOperation(
+    'translationHistory.delete', deleteTranslationHistoryEntry, historyKey
+);
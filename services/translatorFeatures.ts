@@ -1,27 +1,28 @@
+import { parseAiResponse, TRANSLATION_FEATURES_SCHEMA, TranslationFeatureResult } from '../constants/AiSchemas';
 import { supabase } from '../utils/supabase';
+import { checkMeteredInvoke } from './usageService';
 
-export interface TranslationFeatureResult {
-  pronunciation?: string;
-  meaning?: string;
-  examples?: any[];
-  synonyms?: any[];
-  tone?: any[];
-}
+export type { TranslationFeatureResult } from '../constants/AiSchemas';
 
+/**
+ * Pronunciation for the translated text, plus meaning, examples, synonyms and
+ * tone for premium users (enhance-translation reads the tier itself).
+ */
 export const fetchTranslationFeatures = async (
   text: string,
   sourceLang: string,
-  targetLang: string,
-  isPremium: boolean
+  targetLang: string
 ): Promise<TranslationFeatureResult> => {
   const { data, error } = await supabase.functions.invoke('enhance-translation', {
-    body: { text, sourceLang, targetLang, isPremium },
+    body: { text, sourceLang, targetLang },
   });
 
+  await checkMeteredInvoke(error, 'translation_features');
+
   if (error) {
     console.error(`Error fetching features:`, error);
     throw new Error(`Failed to fetch features`);
   }
 
-  return data;
+  return parseAiResponse(TRANSLATION_FEATURES_SCHEMA, data);
 };
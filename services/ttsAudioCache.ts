@@ -0,0 +1,190 @@
+/**
+ * TTS Audio Cache - premium speech kept on the device
+ *
+ * Every clip fetched from the text-to-speech function is saved under a key
+ * derived from its text, voice and language, so replaying a chat reply or a
+ * story paragraph plays the local file, with or without a connection.
+ * An index in AsyncStorage records each file's size and last use; once the
+ * cache grows past MAX_CACHE_BYTES the least recently played clips are removed.
+ * Word timings, when a clip was fetched with them, sit beside it as JSON.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+const INDEX_KEY = 'ttsAudioCacheIndex';
+export const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface CacheEntry {
+    size: number;
+    lastUsed: number;
+}
+
+type CacheIndex = Record<string, CacheEntry>;
+
+/** A word of the clip's text (by character offset) and when it is spoken, in seconds. */
+export interface WordTiming {
+    charIndex: number;
+    charLength: number;
+    start: number;
+    end: number;
+}
+
+// Document directory rather than Paths.cache, which the OS may clear
+const cacheDir = new Directory(Paths.document, 'tts-cache');
+
+let indexPromise: Promise<CacheIndex> | null = null;
+
+const loadIndex = (): Promise<CacheIndex> => {
+    if (!indexPromise) {
+        indexPromise = AsyncStorage.getItem(INDEX_KEY)
+            .then(json => (json ? JSON.parse(json) : {}))
+            .catch(error => {
+                console.error('Failed to read TTS cache index:', error);
+                return {};
+            });
+    }
+    return indexPromise;
+};
+
+const saveIndex = async (index: CacheIndex) => {
+    try {
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    } catch (error) {
+        console.error('Failed to save TTS cache index:', error);
+    }
+};
+
+const fileFor = (key: string) => new File(cacheDir, `${key}.mp3`);
+const timingsFileFor = (key: string) => new File(cacheDir, `${key}.words.json`);
+
+const deleteClip = (key: string) => {
+    for (const file of [fileFor(key), timingsFileFor(key)]) {
+        if (file.exists) file.delete();
+    }
+};
+
+/**
+ * cyrb53: a fast 53-bit string hash. Collisions are negligible for a cache of
+ * a few thousand clips, and it needs no native crypto module.
+ */
+const hash53 = (input: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Cache key for a clip. `voice` should be the voice actually requested
+ * (undefined means the function's default voice).
+ */
+export const ttsCacheKey = (text: string, voice: string | undefined, language: string): string =>
+    hash53(JSON.stringify([voice ?? 'default', language, text.normalize('NFC').trim()]));
+
+/**
+ * The cached clip for `key`, or null. Marks it as recently used.
+ */
+export async function getCachedAudio(key: string): Promise<File | null> {
+    const index = await loadIndex();
+    const entry = index[key];
+    if (!entry) return null;
+
+    const file = fileFor(key);
+    if (!file.exists) {
+        // Removed outside the app (e.g. a restore without documents)
+        delete index[key];
+        await saveIndex(index);
+        return null;
+    }
+
+    entry.lastUsed = Date.now();
+    await saveIndex(index);
+    return file;
+}
+
+/**
+ * Remove least recently used clips until the cache fits in MAX_CACHE_BYTES.
+ * `keepKey` (the clip just added) is never removed.
+ */
+const evict = (index: CacheIndex, keepKey: string) => {
+    let total = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+    const oldestFirst = Object.entries(index).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [key, entry] of oldestFirst) {
+        if (total <= MAX_CACHE_BYTES) break;
+        if (key === keepKey) continue;
+        try {
+            deleteClip(key);
+        } catch (error) {
+            console.warn('Failed to delete cached TTS clip:', error);
+        }
+        delete index[key];
+        total -= entry.size;
+    }
+};
+
+/**
+ * Save a clip (base64 mp3) under `key` and return its file.
+ */
+export async function storeAudio(key: string, base64Audio: string): Promise<File> {
+    if (!cacheDir.exists) {
+        cacheDir.create({ intermediates: true });
+    }
+    const file = fileFor(key);
+    file.write(base64Audio, { encoding: 'base64' });
+
+    const index = await loadIndex();
+    index[key] = { size: file.size ?? 0, lastUsed: Date.now() };
+    evict(index, key);
+    await saveIndex(index);
+    return file;
+}
+
+/**
+ * Word timings saved with the clip for `key`, or null if it was cached without them.
+ */
+export async function getCachedTimings(key: string): Promise<WordTiming[] | null> {
+    const file = timingsFileFor(key);
+    if (!file.exists) return null;
+    try {
+        return JSON.parse(await file.text());
+    } catch (error) {
+        console.warn('Failed to read cached TTS timings:', error);
+        return null;
+    }
+}
+
+/**
+ * Save word timings for the clip stored under `key`.
+ */
+export async function storeTimings(key: string, words: WordTiming[]): Promise<void> {
+    const index = await loadIndex();
+    const entry = index[key];
+    if (!entry) return;
+
+    const file = timingsFileFor(key);
+    file.write(JSON.stringify(words));
+    entry.size += file.size ?? 0;
+    await saveIndex(index);
+}
+
+/**
+ * Delete every cached clip.
+ */
+export async function clearAudioCache(): Promise<void> {
+    const index = await loadIndex();
+    try {
+        if (cacheDir.exists) cacheDir.delete();
+    } catch (error) {
+        console.error('Failed to clear TTS cache:', error);
+    }
+    Object.keys(index).forEach(key => delete index[key]);
+    await saveIndex(index);
+}
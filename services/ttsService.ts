@@ -1,30 +1,47 @@
 /**
  * TTS Service - Unified text-to-speech interface
  * 
- * Premium users get ElevenLabs TTS via Edge Function
+ * Premium users get ElevenLabs TTS via Edge Function, cached on the device
+ * (see ttsAudioCache) so replays play a local file
  * Free users get device TTS via expo-speech
+ *
+ * Both report the word being spoken through `onWord`: device speech from its
+ * boundary events, premium audio from word timestamps sent with the clip.
  */
 
 import { supabase } from '@/utils/supabase';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AudioPlayer, createAudioPlayer } from 'expo-audio';
-import { File, Paths } from 'expo-file-system';
+import { File } from 'expo-file-system';
 import * as Speech from 'expo-speech';
+import { getCachedAudio, getCachedTimings, storeAudio, storeTimings, ttsCacheKey, WordTiming } from './ttsAudioCache';
+import { checkMeteredResponse } from './usageService';
+import { getDeviceVoice, getPremiumVoice } from './voicePreferences';
 
 // Types
+/** The word being spoken, as a character range of the text passed to speak() */
+export interface WordBoundary {
+    charIndex: number;
+    charLength: number;
+}
+
 interface TTSOptions {
     language?: string;
     isPremium?: boolean;
+    /** Premium voice; defaults to the one chosen for `language` in the voice picker */
     voiceId?: string;
+    /** Character offset to start speaking from (e.g. a tapped word) */
+    startAt?: number;
     onStart?: () => void;
     onDone?: () => void;
     onError?: (error: Error) => void;
+    onWord?: (word: WordBoundary) => void;
 }
 
+type TTSCallbacks = Pick<TTSOptions, 'onStart' | 'onDone' | 'onError' | 'onWord'>;
+
 // Module state
 let currentPlayer: AudioPlayer | null = null;
 let isSpeaking = false;
-let currentTempFile: File | null = null;
 
 /**
  * Speak text using TTS
@@ -39,39 +56,70 @@ export async function speak(
         language = 'en',
         isPremium = false,
         voiceId,
+        startAt = 0,
         onStart,
         onDone,
-        onError
+        onError,
+        onWord
     } = options;
+    const callbacks = { onStart, onDone, onError, onWord };
 
     // Stop any current playback
     await stop();
 
     if (isPremium) {
         try {
-            await speakWithElevenLabs(text, language, voiceId, { onStart, onDone, onError });
+            const voice = voiceId ?? await getPremiumVoice(language);
+            await speakWithElevenLabs(text, language, voice, startAt, callbacks);
         } catch (error) {
             console.warn('ElevenLabs TTS failed, falling back to device TTS:', error);
             // Fallback to device TTS on error
-            await speakWithDevice(text, language, { onStart, onDone, onError });
+            await speakWithDevice(text, language, startAt, callbacks);
         }
     } else {
-        await speakWithDevice(text, language, { onStart, onDone, onError });
+        await speakWithDevice(text, language, startAt, callbacks);
     }
 }
 
 /**
- * Speak using ElevenLabs via Edge Function
+ * Speak using ElevenLabs via Edge Function. Clips heard before are played
+ * from the device cache without a request, so they also work offline.
+ * Word timings are only requested when the caller listens for words.
  */
 async function speakWithElevenLabs(
     text: string,
     language: string,
-    voiceId?: string,
-    callbacks?: { onStart?: () => void; onDone?: () => void; onError?: (error: Error) => void }
+    voiceId: string,
+    startAt: number,
+    callbacks: TTSCallbacks
 ): Promise<void> {
-    callbacks?.onStart?.();
+    callbacks.onStart?.();
     isSpeaking = true;
 
+    const withTimings = !!callbacks.onWord;
+    const cacheKey = ttsCacheKey(text, voiceId, language);
+    const cachedFile = await getCachedAudio(cacheKey);
+    const cachedTimings = cachedFile && withTimings ? await getCachedTimings(cacheKey) : null;
+    if (cachedFile && (!withTimings || cachedTimings)) {
+        await playFile(cachedFile, cachedTimings ?? [], startAt, callbacks);
+        return;
+    }
+
+    const { file, words } = await fetchAudio(text, language, voiceId, cacheKey, withTimings);
+    await playFile(file, words, startAt, callbacks);
+}
+
+/**
+ * Synthesize `text` through the text-to-speech Edge Function and save the
+ * clip (and its word timings, if asked for) to the device cache under `cacheKey`.
+ */
+async function fetchAudio(
+    text: string,
+    language: string,
+    voiceId: string,
+    cacheKey: string,
+    withTimings: boolean
+): Promise<{ file: File; words: WordTiming[] }> {
     // Get the supabase URL and session for auth
     const { data: { session } } = await supabase.auth.getSession();
     const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL ||
@@ -88,14 +136,24 @@ async function speakWithElevenLabs(
             'Authorization': `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ text, language, voice: voiceId }),
+        body: JSON.stringify({ text, language, voice: voiceId, with_timings: withTimings }),
     });
 
+    await checkMeteredResponse(response, 'text_to_speech');
     if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`OpenAI TTS API error: ${response.status} - ${errorText}`);
     }
 
+    // With timings the clip comes back as base64 inside JSON
+    if (withTimings) {
+        const { audio, words } = await response.json() as { audio: string; words: WordTiming[] };
+        const file = await storeAudio(cacheKey, audio);
+        // An empty list means timing failed on the server; fetch again next time
+        if (words.length) await storeTimings(cacheKey, words);
+        return { file, words };
+    }
+
     // Get the audio blob directly
     const audioBlob = await response.blob();
     console.log('Audio blob size:', audioBlob.size, 'type:', audioBlob.type);
@@ -113,57 +171,70 @@ async function speakWithElevenLabs(
 
     const base64Audio = await base64Promise;
 
-    // Write to temporary file using new expo-file-system API
-    currentTempFile = new File(Paths.cache, `tts_audio_${Date.now()}.mp3`);
-    await currentTempFile.write(base64Audio, { encoding: 'base64' });
+    return { file: await storeAudio(cacheKey, base64Audio), words: [] };
+}
 
+/**
+ * Play an audio file with expo-audio, from the first word at or after
+ * `startAt`, reporting each word in `words` as playback reaches it
+ */
+async function playFile(
+    file: File,
+    words: WordTiming[],
+    startAt: number,
+    callbacks: TTSCallbacks
+): Promise<void> {
     // Create audio player and play
-    currentPlayer = createAudioPlayer({ uri: currentTempFile.uri });
+    const player = createAudioPlayer({ uri: file.uri });
+    currentPlayer = player;
 
-    // Set up completion handling
-    const checkCompletion = setInterval(() => {
-        if (currentPlayer && !currentPlayer.playing && currentPlayer.currentTime > 0) {
-            clearInterval(checkCompletion);
-            isSpeaking = false;
-            callbacks?.onDone?.();
-            cleanup();
-        }
-    }, 100);
+    const firstWord = words.find(word => word.charIndex >= startAt);
+    if (startAt > 0 && firstWord) {
+        await player.seekTo(firstWord.start);
+    }
 
-    currentPlayer.play();
-}
+    let started = false;
+    let wordIndex = -1;
 
-/**
- * Clean up temporary audio file
- */
-async function cleanup(): Promise<void> {
-    try {
-        if (currentTempFile && currentTempFile.exists) {
-            await currentTempFile.delete();
+    // Follow playback: report word changes, then completion
+    const followPlayback = setInterval(() => {
+        // Replaced or stopped by another speak() call
+        if (currentPlayer !== player) {
+            clearInterval(followPlayback);
+            return;
         }
-        currentTempFile = null;
-    } catch (e) {
-        // Ignore cleanup errors
-    }
+        if (player.playing) {
+            started = true;
+            const time = player.currentTime;
+            let index = wordIndex;
+            while (index + 1 < words.length && words[index + 1].start <= time) index++;
+            if (index !== wordIndex && index >= 0) {
+                wordIndex = index;
+                callbacks.onWord?.({ charIndex: words[index].charIndex, charLength: words[index].charLength });
+            }
+        } else if (started) {
+            clearInterval(followPlayback);
+            isSpeaking = false;
+            callbacks.onDone?.();
+        }
+    }, 50);
+
+    player.play();
 }
 
 /**
- * Speak using device TTS (expo-speech)
+ * Speak using device TTS (expo-speech). Boundary events are reported on
+ * iOS and Android; the web voice may not send them.
  */
 async function speakWithDevice(
     text: string,
     language: string,
-    callbacks?: { onStart?: () => void; onDone?: () => void; onError?: (error: Error) => void }
+    startAt: number,
+    callbacks: TTSCallbacks
 ): Promise<void> {
-    // Get user's preferred voice from AsyncStorage
-    const voiceMapJson = await AsyncStorage.getItem('pronunciationVoiceMap');
-    let voiceMap: Record<string, string> = {};
-    if (voiceMapJson) {
-        voiceMap = JSON.parse(voiceMapJson);
-    }
-
+    // The voice chosen in the voice picker, if any
     const langCode = language.split('-')[0];
-    const selectedVoiceId = voiceMap[langCode];
+    const selectedVoiceId = await getDeviceVoice(language);
 
     // Get available voices and find best match
     const voices = await Speech.getAvailableVoicesAsync();
@@ -172,18 +243,26 @@ async function speakWithDevice(
         || voices[0];
 
     isSpeaking = true;
-    callbacks?.onStart?.();
+    callbacks.onStart?.();
 
-    Speech.speak(text, {
+    const { onWord } = callbacks;
+    Speech.speak(text.slice(startAt), {
         language,
         voice: selectedVoice?.identifier,
+        // Offsets are relative to the spoken slice
+        onBoundary: onWord
+            ? (event: WordBoundary) => onWord({
+                charIndex: event.charIndex + startAt,
+                charLength: event.charLength,
+            })
+            : undefined,
         onDone: () => {
             isSpeaking = false;
-            callbacks?.onDone?.();
+            callbacks.onDone?.();
         },
         onError: (error) => {
             isSpeaking = false;
-            callbacks?.onError?.(error as unknown as Error);
+            callbacks.onError?.(error as unknown as Error);
         },
         onStopped: () => {
             isSpeaking = false;
@@ -1,4 +1,6 @@
-// Usage tracking service for API limit enforcement
+// Usage tracking service for API limit enforcement. Usage is logged only by the
+// metered edge functions (_shared/usage.ts); the app reads it and mirrors it locally.
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '../utils/supabase';
 import { useUsageStore, ActionType } from '../app/store/useUsageStore';
 
@@ -62,76 +64,60 @@ export const checkUsageLimit = async (
 };
 
 /**
- * Log usage and check limit atomically
- * Returns true if action was logged, false if limit exceeded
+ * The UsageLimitExceededError for a quota rejection (402/429 with a
+ * usage_limit_exceeded body), or null for any other response. For callers
+ * that read the body themselves, e.g. streaming over XMLHttpRequest.
  */
-export const logUsage = async (
-  userId: string,
-  actionType: ActionType,
-  metadata?: Record<string, any>
-): Promise<{ success: boolean; used: number; dailyLimit: number; remaining: number }> => {
-  try {
-    const { data, error } = await supabase.rpc('log_usage', {
-      p_user_id: userId,
-      p_action_type: actionType,
-      p_metadata: metadata || {},
-    });
-
-    if (error) {
-      console.error('Failed to log usage:', error);
-      // Return success on error to not block users
-      return { success: true, used: 0, dailyLimit: -1, remaining: -1 };
-    }
-
-    if (data && data.length > 0) {
-      const result = data[0];
-
-      // Update local store
-      useUsageStore.getState().incrementUsage(actionType);
-
-      return {
-        success: result.success,
-        used: result.used,
-        dailyLimit: result.daily_limit,
-        remaining: result.remaining,
-      };
-    }
-
-    return { success: true, used: 0, dailyLimit: -1, remaining: -1 };
-  } catch (error) {
-    console.error('Log usage error:', error);
-    return { success: true, used: 0, dailyLimit: -1, remaining: -1 };
+export const usageLimitErrorFromBody = (
+  status: number,
+  body: any,
+  actionType: ActionType
+): UsageLimitExceededError | null => {
+  if ((status !== 402 && status !== 429) || body?.error !== 'usage_limit_exceeded') {
+    return null;
   }
+  return new UsageLimitExceededError(
+    body.action_type ?? actionType,
+    body.remaining ?? 0,
+    body.daily_limit ?? 0
+  );
 };
 
 /**
- * Check and log usage - throws if limit exceeded
- * Use this before performing an action
+ * Check an edge function response for a server-side quota rejection (402/429).
+ * Throws UsageLimitExceededError when the limit was hit; on success mirrors the
+ * usage the function logged into the local store.
  */
-export const checkAndLogUsage = async (
-  userId: string,
-  actionType: ActionType,
-  metadata?: Record<string, any>
+export const checkMeteredResponse = async (
+  response: Response,
+  actionType: ActionType
 ): Promise<void> => {
-  const result = await logUsage(userId, actionType, metadata);
+  if (response.status === 402 || response.status === 429) {
+    const body = await response.clone().json().catch(() => null);
+    const limitError = usageLimitErrorFromBody(response.status, body, actionType);
+    if (limitError) throw limitError;
+  }
 
-  if (!result.success) {
-    throw new UsageLimitExceededError(actionType, result.remaining, result.dailyLimit);
+  if (response.ok) {
+    useUsageStore.getState().incrementUsage(actionType);
   }
 };
 
 /**
- * Wrapper function to add usage tracking to any service function
- * Use this to wrap existing service calls with usage tracking
+ * Same as checkMeteredResponse for calls made with supabase.functions.invoke,
+ * which surfaces non-2xx responses on error.context
  */
-export const withUsageTracking = <TArgs extends any[], TResult>(
-  actionType: ActionType,
-  serviceFn: (...args: TArgs) => Promise<TResult>
-) => {
-  return async (userId: string, ...args: TArgs): Promise<TResult> => {
-    await checkAndLogUsage(userId, actionType);
-    return serviceFn(...args);
-  };
+export const checkMeteredInvoke = async (
+  error: unknown,
+  actionType: ActionType
+): Promise<void> => {
+  if (!error) {
+    useUsageStore.getState().incrementUsage(actionType);
+    return;
+  }
+  if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+    await checkMeteredResponse(error.context, actionType);
+  }
 };
 
 /**
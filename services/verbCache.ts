@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {supabase} from "@/utils/supabase";
+import { createQueuedOperation } from './offlineQueue';
 
 export const getFromLocal = async (infinitive: string, language: string) => {
     const key = `verb:${language}:${infinitive.toLowerCase()}`;
@@ -23,8 +24,24 @@ export const getFromSupabase = async (infinitive: string, language: string) => {
     return error || !data ? null : data.analysis;
 };
 
+interface VerbAnalysisRow {
+    infinitive: string;
+    language: string;
+    analysis: any;
+}
+
+// Shared cache write: retried from the offline queue if it does not get through
+const queueVerbAnalysisSave = createQueuedOperation(
+    'verbAnalysis.save',
+    async (row: VerbAnalysisRow) => {
+        const { error } = await supabase.from('verb_analysis').upsert(row);
+        if (error) throw error;
+    },
+    row => `verbAnalysis:${row.language}:${row.infinitive}`
+);
+
 export const saveToSupabase = async (infinitive: string, language: string, analysis: any) => {
-    await supabase.from('verb_analysis').upsert({
+    await queueVerbAnalysisSave({
         infinitive: infinitive.toLowerCase(),
         language,
         analysis,
@@ -0,0 +1,137 @@
+import { supabase } from '@/utils/supabase';
+import { SrsState } from '@/utils/srs';
+import { createQueuedOperation } from './offlineQueue';
+
+export type VocabularySource = 'translation' | 'synonym' | 'correction' | 'story';
+
+export interface VocabularyItem extends SrsState {
+    id: string;
+    /** Word or phrase in the language being learned */
+    term: string;
+    /** Meaning in the learner's language; may be empty (e.g. tutor corrections) */
+    translation: string;
+    language: string;
+    sourceLang: string | null;
+    /** Sentence or explanation the term was saved from */
+    context: string | null;
+    source: VocabularySource;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface VocabularyItemRow {
+    id: string;
+    term: string;
+    translation: string;
+    language: string;
+    source_lang: string | null;
+    context: string | null;
+    source: VocabularySource;
+    ease_factor: number | string;
+    interval_days: number;
+    repetitions: number;
+    lapses: number;
+    due_at: string;
+    last_reviewed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const getUserId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+};
+
+const fromRow = (row: VocabularyItemRow): VocabularyItem => ({
+    id: row.id,
+    term: row.term,
+    translation: row.translation,
+    language: row.language,
+    sourceLang: row.source_lang,
+    context: row.context,
+    source: row.source,
+    // NUMERIC columns come back as strings
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Fetch the current user's whole deck, soonest due first.
+ */
+export const fetchVocabulary = async (): Promise<VocabularyItem[]> => {
+    const userId = await getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+        .from('vocabulary_items')
+        .select('*')
+        .eq('user_id', userId)
+        .order('due_at', { ascending: true });
+
+    if (error) {
+        console.error('Fetch vocabulary error:', error);
+        throw error;
+    }
+    return (data as VocabularyItemRow[]).map(fromRow);
+};
+
+/**
+ * Insert or update a card, including its scheduling state.
+ */
+export const saveVocabularyItem = async (item: VocabularyItem): Promise<void> => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+        .from('vocabulary_items')
+        .upsert({
+            id: item.id,
+            user_id: userId,
+            term: item.term,
+            translation: item.translation,
+            language: item.language,
+            source_lang: item.sourceLang,
+            context: item.context,
+            source: item.source,
+            ease_factor: item.easeFactor,
+            interval_days: item.intervalDays,
+            repetitions: item.repetitions,
+            lapses: item.lapses,
+            due_at: item.dueAt,
+            last_reviewed_at: item.lastReviewedAt,
+            created_at: item.createdAt,
+        }, { onConflict: 'id' });
+
+    if (error) {
+        console.error('Save vocabulary item error:', error);
+        throw error;
+    }
+};
+
+export const deleteVocabularyItemRemote = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('vocabulary_items')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Delete vocabulary item error:', error);
+        throw error;
+    }
+};
+
+const vocabularyKey = (id: string) => `vocabulary:${id}`;
+
+// A delete shares the key of the card's save, so it replaces a save still queued
+export const queueVocabularySave = createQueuedOperation(
+    'vocabulary.save', saveVocabularyItem, item => vocabularyKey(item.id)
+);
+export const queueVocabularyDelete = createQueuedOperation(
+    'vocabulary.delete', deleteVocabularyItemRemote, vocabularyKey
+);
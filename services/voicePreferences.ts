@@ -0,0 +1,84 @@
+/**
+ * Voice Preferences - which voice reads each language
+ *
+ * Device voices (expo-speech identifiers) are kept under `pronunciationVoiceMap`
+ * and premium voices (see constants/Voices) under `premiumVoiceMap`, both keyed
+ * by ISO 639-1 code. ttsService looks them up on every speak() call, so a
+ * choice made in the voice picker applies to chat, translator and stories.
+ * Both maps are synced to user_preferences by preferencesSync.
+ */
+
+import { DEFAULT_PREMIUM_VOICE, isPremiumVoice } from '@/constants/Voices';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type VoiceKind = 'device' | 'premium';
+
+export type VoiceMap = Record<string, string>;
+
+const MAP_KEYS: Record<VoiceKind, string> = {
+    device: 'pronunciationVoiceMap',
+    premium: 'premiumVoiceMap',
+};
+
+const listeners = new Set<(kind: VoiceKind) => void>();
+
+/**
+ * Call `listener` whenever the user changes a voice. Returns an unsubscribe function.
+ */
+export const onVoiceChange = (listener: (kind: VoiceKind) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/** "it-IT" and "IT" are both stored under "it". */
+export const voiceLanguageKey = (language: string) => language.split('-')[0].toLowerCase();
+
+/**
+ * All saved choices of one kind.
+ */
+export const getVoiceMap = async (kind: VoiceKind): Promise<VoiceMap> => {
+    try {
+        const json = await AsyncStorage.getItem(MAP_KEYS[kind]);
+        return json ? JSON.parse(json) : {};
+    } catch (error) {
+        console.error(`Failed to read ${kind} voice map:`, error);
+        return {};
+    }
+};
+
+/**
+ * The saved device voice identifier for `language`, if any.
+ */
+export const getDeviceVoice = async (language: string): Promise<string | undefined> => {
+    const map = await getVoiceMap('device');
+    return map[voiceLanguageKey(language)];
+};
+
+/**
+ * The premium voice for `language`: the saved choice, or the default voice.
+ */
+export const getPremiumVoice = async (language: string): Promise<string> => {
+    const map = await getVoiceMap('premium');
+    const voice = map[voiceLanguageKey(language)];
+    return isPremiumVoice(voice) ? voice : DEFAULT_PREMIUM_VOICE;
+};
+
+/**
+ * Save the voice to use for `language`.
+ */
+export const setVoice = async (kind: VoiceKind, language: string, voiceId: string): Promise<VoiceMap> => {
+    const map = { ...(await getVoiceMap(kind)), [voiceLanguageKey(language)]: voiceId };
+    await AsyncStorage.setItem(MAP_KEYS[kind], JSON.stringify(map));
+    listeners.forEach(listener => listener(kind));
+    return map;
+};
+
+/**
+ * Replace a whole map, e.g. with the one synced from another device.
+ * Does not notify onVoiceChange listeners.
+ */
+export const replaceVoiceMap = async (kind: VoiceKind, map: VoiceMap): Promise<void> => {
+    await AsyncStorage.setItem(MAP_KEYS[kind], JSON.stringify(map));
+};
@@ -0,0 +1,143 @@
+// supabase/functions/_shared/cache.ts
+// Cache for AI responses, in the ai_response_cache table. Entries are keyed by
+// what actually determines the answer (feature, prompt version, normalized
+// input, language, options) rather than the prompt text, so rewording a prompt
+// only needs a version bump. Every lookup is counted in ai_cache_stats; expired
+// rows are removed by a nightly pg_cron job and can be purged by hand with
+// purge_ai_cache() (see the 20260215_ai_response_cache migration).
+//
+// A cache failure never fails the request: it is logged and treated as a miss.
+
+import { AiSchema, validateAiResponse } from './schemas.ts';
+import { createAdminClient } from './usage.ts';
+
+export type CacheFeature =
+  | 'cefr_analysis'
+  | 'verb_analysis'
+  | 'verb_conjugation'
+  | 'language_detection'
+  | 'translation_features';
+
+// Stories and tutor replies are not cached: a new answer is expected every time
+export const CACHE_TTL_DAYS: Record<CacheFeature, number> = {
+  cefr_analysis: 30,
+  verb_analysis: 90,
+  verb_conjugation: 365,
+  language_detection: 180,
+  translation_features: 90,
+};
+
+export interface CacheKey {
+  feature: CacheFeature;
+  /** Bump when the prompt or response shape changes to stop serving old entries */
+  promptVersion: number;
+  input: string;
+  language?: string | null;
+  /** Any other request options that change the response */
+  params?: Record<string, unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Unicode NFC, trimmed, runs of whitespace collapsed (mirrored in purge_ai_cache). */
+export const normalizeInput = (input: string) => input.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+const sortedParams = (params: Record<string, unknown> = {}) =>
+  Object.fromEntries(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)));
+
+async function hashKey(key: CacheKey): Promise<string> {
+  const canonical = JSON.stringify([
+    key.feature,
+    key.promptVersion,
+    key.language?.toLowerCase() ?? null,
+    normalizeInput(key.input),
+    sortedParams(key.params),
+  ]);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const recordLookup = async (feature: CacheFeature, cacheKey: string, hit: boolean) => {
+  const { error } = await createAdminClient().rpc('record_ai_cache_lookup', {
+    p_feature: feature,
+    p_cache_key: cacheKey,
+    p_hit: hit,
+  });
+  if (error) console.error('[cache] record_ai_cache_lookup failed:', error);
+};
+
+async function readEntry<T>(cacheKey: string, schema?: AiSchema<T>): Promise<T | null> {
+  const { data, error } = await createAdminClient()
+    .from('ai_response_cache')
+    .select('response, expires_at')
+    .eq('cache_key', cacheKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[cache] read failed:', error);
+    return null;
+  }
+  // Expired rows linger until the nightly eviction
+  if (!data || Date.parse(data.expires_at) <= Date.now()) return null;
+  if (schema) {
+    const result = validateAiResponse(schema, data.response);
+    if (!result.ok) {
+      console.warn(`[cache] ignoring invalid ${schema.name} entry:`, result.errors.slice(0, 3));
+      return null;
+    }
+    return result.value;
+  }
+  return data.response as T;
+}
+
+async function writeEntry(cacheKey: string, key: CacheKey, response: unknown) {
+  const now = Date.now();
+  const { error } = await createAdminClient().from('ai_response_cache').upsert({
+    cache_key: cacheKey,
+    feature: key.feature,
+    prompt_version: key.promptVersion,
+    language: key.language?.toLowerCase() ?? null,
+    input: normalizeInput(key.input),
+    params: sortedParams(key.params),
+    response,
+    hit_count: 0,
+    last_hit_at: null,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + CACHE_TTL_DAYS[key.feature] * DAY_MS).toISOString(),
+  }, { onConflict: 'cache_key' });
+  if (error) console.error('[cache] write failed:', error);
+}
+
+interface CachedOptions<T> {
+  /** Cached entries that no longer validate count as misses */
+  schema?: AiSchema<T>;
+  /** Return false to skip caching a result, e.g. a fallback answer */
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Return the cached response for `key`, or run `produce`, cache its result and
+ * return that.
+ */
+export async function cached<T>(
+  key: CacheKey,
+  produce: () => Promise<T>,
+  options: CachedOptions<T> = {}
+): Promise<{ value: T; hit: boolean }> {
+  let cacheKey: string | null = null;
+  try {
+    cacheKey = await hashKey(key);
+    const hit = await readEntry(cacheKey, options.schema);
+    await recordLookup(key.feature, cacheKey, hit !== null);
+    if (hit !== null) {
+      console.log(`[CACHE HIT] ${key.feature}`, cacheKey);
+      return { value: hit, hit: true };
+    }
+  } catch (err) {
+    console.error('[cache] lookup failed:', err);
+  }
+
+  const value = await produce();
+  if (cacheKey && (options.shouldCache?.(value) ?? true)) await writeEntry(cacheKey, key, value);
+  return { value, hit: false };
+}
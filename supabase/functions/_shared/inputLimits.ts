@@ -0,0 +1,22 @@
+// supabase/functions/_shared/inputLimits.ts
+// How much user text each feature accepts. The functions enforce these through
+// userInput() in prompts.ts; the app caps its text fields at the same lengths
+// so nothing it lets the user type gets refused.
+
+export interface InputLimit {
+  maxLength: number;
+  /** Refuse text that looks like an override attempt instead of only logging it */
+  rejectOverrides?: boolean;
+}
+
+export const INPUT_LIMITS = {
+  cefrSentence: { maxLength: 500 },
+  verbSentence: { maxLength: 500 },
+  // A single verb, as returned by analyze-verbs
+  verbInfinitive: { maxLength: 60, rejectOverrides: true },
+  translationText: { maxLength: 500 },
+  detectionText: { maxLength: 1000 },
+  // A topic has no reason to contain instructions
+  storyTopic: { maxLength: 120, rejectOverrides: true },
+  chatMessage: { maxLength: 1000 },
+} satisfies Record<string, InputLimit>;
@@ -0,0 +1,97 @@
+// supabase/functions/_shared/languages.ts
+// The one list of languages the app knows about, and what each one supports.
+
+export type LanguageFeature =
+  | 'translation'
+  | 'cefr'
+  | 'conjugation'
+  | 'tts'
+  | 'tutor'
+  | 'story'
+  | 'pronunciation';
+
+export interface LanguageInfo {
+  /** ISO 639-1 code, used for language settings throughout the app */
+  code: string;
+  /** ISO 639-3 code */
+  iso639_3: string;
+  /** Code franc reports for this language (its macrolanguage member where they differ) */
+  franc: string;
+  /** DeepL source_lang code, or null when DeepL does not cover the language */
+  deepl: string | null;
+  /** DeepL target_lang code where it differs from `deepl`: DeepL wants a regional variant */
+  deeplTarget?: string;
+  /** English display name */
+  name: string;
+  /** Name in the language itself */
+  nativeName: string;
+  features: readonly LanguageFeature[];
+}
+
+// Fully supported: every feature, prompts and conjugation templates tuned for them
+const CORE: readonly LanguageFeature[] = ['translation', 'cefr', 'conjugation', 'tts', 'tutor', 'story', 'pronunciation'];
+// Translation and speech only
+const TRANSLATION_ONLY: readonly LanguageFeature[] = ['translation', 'tts', 'pronunciation'];
+
+export const LANGUAGES: readonly LanguageInfo[] = [
+  { code: 'en', iso639_3: 'eng', franc: 'eng', deepl: 'EN', deeplTarget: 'EN-US', name: 'English', nativeName: 'English', features: CORE },
+  { code: 'es', iso639_3: 'spa', franc: 'spa', deepl: 'ES', name: 'Spanish', nativeName: 'Español', features: CORE },
+  { code: 'fr', iso639_3: 'fra', franc: 'fra', deepl: 'FR', name: 'French', nativeName: 'Français', features: CORE },
+  { code: 'de', iso639_3: 'deu', franc: 'deu', deepl: 'DE', name: 'German', nativeName: 'Deutsch', features: CORE },
+  { code: 'it', iso639_3: 'ita', franc: 'ita', deepl: 'IT', name: 'Italian', nativeName: 'Italiano', features: CORE },
+  { code: 'pt', iso639_3: 'por', franc: 'por', deepl: 'PT', deeplTarget: 'PT-BR', name: 'Portuguese', nativeName: 'Português', features: CORE },
+  { code: 'ru', iso639_3: 'rus', franc: 'rus', deepl: 'RU', name: 'Russian', nativeName: 'Русский', features: CORE },
+  { code: 'ja', iso639_3: 'jpn', franc: 'jpn', deepl: 'JA', name: 'Japanese', nativeName: '日本語', features: CORE },
+  { code: 'ko', iso639_3: 'kor', franc: 'kor', deepl: 'KO', name: 'Korean', nativeName: '한국어', features: CORE },
+  { code: 'zh', iso639_3: 'zho', franc: 'cmn', deepl: 'ZH', name: 'Chinese', nativeName: '中文', features: CORE },
+  { code: 'ar', iso639_3: 'ara', franc: 'arb', deepl: 'AR', name: 'Arabic', nativeName: 'العربية', features: TRANSLATION_ONLY },
+  { code: 'hi', iso639_3: 'hin', franc: 'hin', deepl: 'HI', name: 'Hindi', nativeName: 'हिन्दी', features: TRANSLATION_ONLY },
+  { code: 'tr', iso639_3: 'tur', franc: 'tur', deepl: 'TR', name: 'Turkish', nativeName: 'Türkçe', features: TRANSLATION_ONLY },
+  { code: 'pl', iso639_3: 'pol', franc: 'pol', deepl: 'PL', name: 'Polish', nativeName: 'Polski', features: TRANSLATION_ONLY },
+  { code: 'nl', iso639_3: 'nld', franc: 'nld', deepl: 'NL', name: 'Dutch', nativeName: 'Nederlands', features: TRANSLATION_ONLY },
+  { code: 'sv', iso639_3: 'swe', franc: 'swe', deepl: 'SV', name: 'Swedish', nativeName: 'Svenska', features: TRANSLATION_ONLY },
+  { code: 'da', iso639_3: 'dan', franc: 'dan', deepl: 'DA', name: 'Danish', nativeName: 'Dansk', features: TRANSLATION_ONLY },
+  { code: 'no', iso639_3: 'nor', franc: 'nob', deepl: 'NB', name: 'Norwegian', nativeName: 'Norsk', features: TRANSLATION_ONLY },
+  { code: 'fi', iso639_3: 'fin', franc: 'fin', deepl: 'FI', name: 'Finnish', nativeName: 'Suomi', features: TRANSLATION_ONLY },
+  { code: 'cs', iso639_3: 'ces', franc: 'ces', deepl: 'CS', name: 'Czech', nativeName: 'Čeština', features: TRANSLATION_ONLY },
+  { code: 'sk', iso639_3: 'slk', franc: 'slk', deepl: 'SK', name: 'Slovak', nativeName: 'Slovenčina', features: TRANSLATION_ONLY },
+  { code: 'sl', iso639_3: 'slv', franc: 'slv', deepl: 'SL', name: 'Slovenian', nativeName: 'Slovenščina', features: TRANSLATION_ONLY },
+  { code: 'et', iso639_3: 'est', franc: 'ekk', deepl: 'ET', name: 'Estonian', nativeName: 'Eesti', features: TRANSLATION_ONLY },
+  { code: 'lv', iso639_3: 'lav', franc: 'lvs', deepl: 'LV', name: 'Latvian', nativeName: 'Latviešu', features: TRANSLATION_ONLY },
+  { code: 'lt', iso639_3: 'lit', franc: 'lit', deepl: 'LT', name: 'Lithuanian', nativeName: 'Lietuvių', features: TRANSLATION_ONLY },
+  { code: 'bg', iso639_3: 'bul', franc: 'bul', deepl: 'BG', name: 'Bulgarian', nativeName: 'Български', features: TRANSLATION_ONLY },
+  { code: 'ro', iso639_3: 'ron', franc: 'ron', deepl: 'RO', name: 'Romanian', nativeName: 'Română', features: TRANSLATION_ONLY },
+  { code: 'el', iso639_3: 'ell', franc: 'ell', deepl: 'EL', name: 'Greek', nativeName: 'Ελληνικά', features: TRANSLATION_ONLY },
+  { code: 'hu', iso639_3: 'hun', franc: 'hun', deepl: 'HU', name: 'Hungarian', nativeName: 'Magyar', features: TRANSLATION_ONLY },
+  { code: 'uk', iso639_3: 'ukr', franc: 'ukr', deepl: 'UK', name: 'Ukrainian', nativeName: 'Українська', features: TRANSLATION_ONLY },
+  { code: 'id', iso639_3: 'ind', franc: 'ind', deepl: 'ID', name: 'Indonesian', nativeName: 'Bahasa Indonesia', features: TRANSLATION_ONLY },
+];
+
+/**
+ * Look a language up by any of the identifiers in use: ISO 639-1 code
+ * ("it"), ISO 639-3 or franc code ("ita"), or English name in any case
+ * ("italian", as returned by detect-language).
+ */
+export function findLanguage(value: string | null | undefined): LanguageInfo | undefined {
+  if (!value) return undefined;
+  const key = value.trim().toLowerCase();
+  return LANGUAGES.find(lang =>
+    lang.code === key ||
+    lang.iso639_3 === key ||
+    lang.franc === key ||
+    lang.name.toLowerCase() === key
+  );
+}
+
+export function supportsFeature(value: string | null | undefined, feature: LanguageFeature): boolean {
+  return !!findLanguage(value)?.features.includes(feature);
+}
+
+export function getLanguagesWithFeature(feature: LanguageFeature): LanguageInfo[] {
+  return LANGUAGES.filter(lang => lang.features.includes(feature));
+}
+
+/** English name for display and prompts; unknown values are returned unchanged. */
+export function getLanguageName(value: string): string {
+  return findLanguage(value)?.name ?? value;
+}
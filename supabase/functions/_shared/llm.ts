@@ -0,0 +1,382 @@
+// supabase/functions/_shared/llm.ts
+// LLM provider layer shared by the edge functions. A function describes what
+// it needs (messages, temperature, JSON output) and the configured provider
+// handles the API call, retries and cleaning up the JSON it returns. JSON that
+// does not parse or match the requested schema is sent back to the model with
+// the problems listed, a bounded number of times.
+//
+// Configuration (all optional):
+// - LLM_PROVIDER / LLM_PROVIDER_<FUNCTION>: "openai" (default) or "fake"
+// - LLM_MODEL / LLM_MODEL_<FUNCTION>: model name, e.g. LLM_MODEL_CHAT_TUTOR=gpt-4o
+// - LLM_MAX_RETRIES: retries after the first attempt (default 2)
+// - LLM_MAX_REPAIRS: re-prompts for JSON that fails validation (default 2)
+// - LLM_FAKE_FIXTURES: path to a JSON file of canned responses for the fake
+//   provider, keyed by function name
+// <FUNCTION> is the function name in upper snake case (chat-tutor -> CHAT_TUTOR).
+
+import { AiSchema, SchemaNode, validateAiResponse } from './schemas.ts';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest<T = unknown> {
+  messages: LlmMessage[];
+  temperature?: number;
+  /** Ask for a JSON object with this shape; the validated object is returned as `data` */
+  jsonSchema?: AiSchema<T>;
+  /** Ask for a JSON object without a schema */
+  json?: boolean;
+}
+
+export interface CompletionResult<T = unknown> {
+  /** Raw text returned by the model */
+  text: string;
+  /** Parsed JSON when `json` or `jsonSchema` was requested, otherwise null */
+  data: T | null;
+  model: string;
+  provider: string;
+}
+
+export interface LlmClient {
+  readonly provider: string;
+  readonly model: string;
+  complete<T = unknown>(request: CompletionRequest<T>): Promise<CompletionResult<T>>;
+  /** Text completion delivered as content deltas */
+  stream(request: Omit<CompletionRequest, 'json' | 'jsonSchema'>): AsyncIterable<string>;
+}
+
+interface LlmProvider {
+  name: string;
+  complete(model: string, request: CompletionRequest): Promise<string>;
+  stream(model: string, request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public status?: number, public retryable = false) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+class RetryAfterError extends LlmError {
+  constructor(message: string, status: number, public retryAfterMs: number) {
+    super(message, status, true);
+  }
+}
+
+/** The model kept returning JSON that did not parse or match the schema. */
+export class LlmValidationError extends LlmError {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'LlmValidationError';
+  }
+}
+
+const envKey = (functionName: string) => functionName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+const envFor = (name: string, functionName: string) =>
+  Deno.env.get(`${name}_${envKey(functionName)}`) ?? Deno.env.get(name);
+
+/** A non-negative whole number from the environment; unset or invalid values use `fallback`. */
+const envCount = (name: string, fallback: number) => {
+  const raw = Deno.env.get(name);
+  const value = Number(raw);
+  if (raw === undefined || raw.trim() === '' || !Number.isInteger(value) || value < 0) {
+    if (raw) console.warn(`Invalid ${name} "${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run `attempt`, retrying retryable LlmErrors with exponential backoff and
+ * jitter (0.5s, 1s, 2s, ...). A Retry-After delay from the provider wins.
+ */
+async function withRetries<T>(attempt: () => Promise<T>, maxRetries: number): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (!(err instanceof LlmError) || !err.retryable || retry >= maxRetries) throw err;
+
+      const retryAfterMs = err instanceof RetryAfterError ? err.retryAfterMs : 0;
+      const delay = Math.max(retryAfterMs, 500 * 2 ** retry + Math.random() * 250);
+      console.warn(`LLM request failed (${err.message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Strip the markdown code fences models sometimes wrap JSON in, then parse. */
+export function parseJsonContent<T = unknown>(text: string): T {
+  const cleaned = text.trim().replace(/^```[a-zA-Z]*\s*/, '').replace(/```$/, '').trim();
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    throw new LlmError(`Model returned invalid JSON: ${cleaned.slice(0, 200)}`);
+  }
+}
+
+// ===========================================
+// OpenAI
+// ===========================================
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+
+const openAiResponseFormat = (request: CompletionRequest) => {
+  if (request.jsonSchema) {
+    return {
+      type: 'json_schema',
+      json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: false },
+    };
+  }
+  return request.json ? { type: 'json_object' } : undefined;
+};
+
+async function openAiRequest(model: string, request: CompletionRequest, stream: boolean): Promise<Response> {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new LlmError('Missing OpenAI API Key');
+
+  let res: Response;
+  try {
+    res = await fetch(OPENAI_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        response_format: openAiResponseFormat(request),
+        ...(stream ? { stream: true } : {}),
+      }),
+    });
+  } catch (err) {
+    throw new LlmError(`OpenAI request failed: ${(err as Error).message}`, undefined, true);
+  }
+
+  if (!res.ok) {
+    const errorText = await res.text();
+    const message = `OpenAI error ${res.status}: ${errorText}`;
+    const retryAfter = Number(res.headers.get('retry-after'));
+    if (res.status === 429 && retryAfter > 0) {
+      throw new RetryAfterError(message, res.status, retryAfter * 1000);
+    }
+    throw new LlmError(message, res.status, res.status === 429 || res.status >= 500);
+  }
+  return res;
+}
+
+const STREAM_DONE = Symbol('done');
+
+/** The text on one line of an OpenAI event stream, or STREAM_DONE for its closing [DONE]. */
+const streamDelta = (line: string): string | typeof STREAM_DONE | undefined => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return undefined;
+  const payload = trimmed.slice(5).trim();
+  if (payload === '[DONE]') return STREAM_DONE;
+  return JSON.parse(payload).choices?.[0]?.delta?.content || undefined;
+};
+
+const openAiProvider: LlmProvider = {
+  name: 'openai',
+
+  async complete(model, request) {
+    const res = await openAiRequest(model, request, false);
+    const data = await res.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) throw new LlmError('No content returned from OpenAI', undefined, true);
+    return content;
+  },
+
+  async *stream(model, request) {
+    const res = await openAiRequest(model, request, true);
+    if (!res.body) throw new LlmError('OpenAI returned an empty stream');
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const delta = streamDelta(line);
+        if (delta === STREAM_DONE) return;
+        if (delta) yield delta;
+      }
+    }
+
+    // Without [DONE] the last line may not end in a newline either
+    for (const line of (buffer + decoder.decode()).split('\n')) {
+      const delta = streamDelta(line);
+      if (delta === STREAM_DONE) return;
+      if (delta) yield delta;
+    }
+  },
+};
+
+// ===========================================
+// Fake (offline, deterministic)
+// ===========================================
+let fixtures: Record<string, unknown> | null = null;
+
+const loadFixtures = (): Record<string, unknown> => {
+  if (fixtures) return fixtures;
+  const path = Deno.env.get('LLM_FAKE_FIXTURES');
+  fixtures = {};
+  if (path) {
+    try {
+      fixtures = JSON.parse(Deno.readTextFileSync(path));
+    } catch (err) {
+      console.error(`Could not read LLM_FAKE_FIXTURES from ${path}:`, err);
+    }
+  }
+  return fixtures!;
+};
+
+/** A minimal value of the given JSON schema: its example, first enum value, empty-ish leaves. */
+function sampleFromSchema(schema: SchemaNode, key = 'value'): unknown {
+  if (schema.examples?.length) return schema.examples[0];
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) return sampleFromSchema(schema.anyOf[0], key);
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, child]) => [name, sampleFromSchema(child, name)])
+      );
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 1 }, () => sampleFromSchema(schema.items ?? {}, key));
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return `fake ${key}`;
+  }
+}
+
+const createFakeProvider = (functionName: string): LlmProvider => {
+  const respond = (request: CompletionRequest): string => {
+    const fixture = loadFixtures()[functionName];
+    if (fixture !== undefined) {
+      return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+    }
+    if (request.jsonSchema) return JSON.stringify(sampleFromSchema(request.jsonSchema.schema));
+    if (request.json) return '{}';
+
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    return `Fake response from ${functionName}: ${(lastUser?.content ?? '').trim().slice(0, 80)}`;
+  };
+
+  return {
+    name: 'fake',
+    complete: async (_model, request) => respond(request),
+    async *stream(_model, request) {
+      // Word by word, so streaming clients see several deltas
+      for (const word of respond(request).split(/(?<=\s)/)) {
+        yield word;
+      }
+    },
+  };
+};
+
+// ===========================================
+// Client
+// ===========================================
+
+/** Why `text` is not an acceptable JSON response, or [] when it is. */
+const jsonProblems = (text: string, schema?: AiSchema<unknown>): string[] => {
+  let data: unknown;
+  try {
+    data = parseJsonContent(text);
+  } catch (err) {
+    return [(err as Error).message];
+  }
+  if (!schema) return [];
+  const result = validateAiResponse(schema, data);
+  return result.ok ? [] : result.errors;
+};
+
+const repairPrompt = (errors: string[]) => `Your previous response was not valid:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Reply again with the complete corrected JSON object only, following the requested format exactly.`;
+
+/**
+ * The LLM client for one edge function. `defaultModel` applies unless
+ * LLM_MODEL_<FUNCTION> or LLM_MODEL overrides it.
+ */
+export function createLlm(functionName: string, options: { defaultModel: string }): LlmClient {
+  const providerName = envFor('LLM_PROVIDER', functionName) ?? 'openai';
+  const provider = providerName === 'fake' ? createFakeProvider(functionName) : openAiProvider;
+  if (providerName !== 'fake' && providerName !== 'openai') {
+    console.warn(`Unknown LLM_PROVIDER "${providerName}", using openai`);
+  }
+
+  const model = envFor('LLM_MODEL', functionName) ?? options.defaultModel;
+  const maxRetries = envCount('LLM_MAX_RETRIES', 2);
+  const maxRepairs = envCount('LLM_MAX_REPAIRS', 2);
+
+  return {
+    provider: provider.name,
+    model,
+
+    async complete<T = unknown>(request: CompletionRequest<T>): Promise<CompletionResult<T>> {
+      let messages = request.messages;
+      for (let repair = 0; ; repair++) {
+        const text = await withRetries(() => provider.complete(model, { ...request, messages }), maxRetries);
+        if (!request.jsonSchema && !request.json) {
+          return { text, data: null, model, provider: provider.name };
+        }
+
+        const errors = jsonProblems(text, request.jsonSchema);
+        if (errors.length === 0) {
+          return { text, data: parseJsonContent<T>(text), model, provider: provider.name };
+        }
+        if (repair >= maxRepairs) {
+          throw new LlmValidationError(
+            `Model response still invalid after ${repair + 1} attempts: ${errors.slice(0, 3).join('; ')}`,
+            errors
+          );
+        }
+
+        console.warn(`LLM response failed validation (${errors.slice(0, 3).join('; ')}), asking for a repair`);
+        messages = [
+          ...request.messages,
+          { role: 'assistant', content: text },
+          { role: 'user', content: repairPrompt(errors) },
+        ];
+      }
+    },
+
+    async *stream(request) {
+      // Only opening the stream is retried; a stream that fails midway has already sent text
+      const iterator = await withRetries(async () => {
+        const it = provider.stream(model, request)[Symbol.asyncIterator]();
+        const first = await it.next();
+        return { it, first };
+      }, maxRetries);
+
+      if (iterator.first.done) return;
+      yield iterator.first.value;
+      while (true) {
+        const next = await iterator.it.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    },
+  };
+}
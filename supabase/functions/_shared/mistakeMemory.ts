@@ -0,0 +1,58 @@
+// supabase/functions/_shared/mistakeMemory.ts
+// Long-term memory of a learner's mistakes for the AI Tutor. Every correction
+// is counted per user, language and grammar category (_shared/mistakes.ts) in
+// the user_mistakes table through record_user_mistake(), which also keeps the
+// latest few examples. The most frequent categories go back into the tutor's
+// system prompt (see the 20260412_user_mistakes migration).
+//
+// Like the AI cache, a failure here never fails the request: it is logged and
+// the tutor carries on without the memory.
+
+import { ChatCorrection } from './schemas.ts';
+import {
+  findMistakeCategory,
+  MistakeCategory,
+  RECURRING_LIMIT,
+  RECURRING_MIN_COUNT,
+  toMistakeCategoryId,
+} from './mistakes.ts';
+import { createAdminClient } from './usage.ts';
+
+export interface RecurringMistake {
+  category: MistakeCategory;
+  count: number;
+  /** Latest first */
+  examples: { original: string; corrected: string }[];
+}
+
+export async function recordMistake(userId: string, language: string, correction: ChatCorrection): Promise<void> {
+  const { error } = await createAdminClient().rpc('record_user_mistake', {
+    p_user_id: userId,
+    p_language: language,
+    p_category: toMistakeCategoryId(correction.category),
+    p_original: correction.original,
+    p_corrected: correction.corrected,
+  });
+  if (error) console.error('[mistakes] record failed:', error);
+}
+
+/** The learner's most frequent mistake categories in `language`, most frequent first. */
+export async function recurringMistakes(userId: string, language: string): Promise<RecurringMistake[]> {
+  const { data, error } = await createAdminClient()
+    .from('user_mistakes')
+    .select('category, count, examples')
+    .eq('user_id', userId)
+    .eq('language', language)
+    .gte('count', RECURRING_MIN_COUNT)
+    .order('count', { ascending: false })
+    .limit(RECURRING_LIMIT);
+
+  if (error) {
+    console.error('[mistakes] lookup failed:', error);
+    return [];
+  }
+  return (data ?? []).flatMap(row => {
+    const category = findMistakeCategory(row.category);
+    return category ? [{ category, count: row.count, examples: row.examples ?? [] }] : [];
+  });
+}
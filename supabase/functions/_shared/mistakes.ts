@@ -0,0 +1,43 @@
+// supabase/functions/_shared/mistakes.ts
+// Grammar categories the AI Tutor files its corrections under, so mistakes
+// can be counted across sessions (user_mistakes table) and labelled the same
+// way in the app.
+
+export interface MistakeCategory {
+  id: string;
+  /** Shown in the app */
+  label: string;
+  /** What belongs here, for the model */
+  description: string;
+}
+
+export const MISTAKE_CATEGORIES = [
+  { id: 'verb_tense', label: 'Verb tenses & moods', description: 'the wrong tense, aspect or mood (e.g. indicative instead of subjunctive)' },
+  { id: 'verb_conjugation', label: 'Verb conjugation', description: 'the right tense with the wrong form or ending for the subject' },
+  { id: 'agreement', label: 'Gender & agreement', description: 'gender, number or case not agreeing between nouns, adjectives and articles' },
+  { id: 'articles', label: 'Articles & determiners', description: 'a missing, extra or wrong article or determiner' },
+  { id: 'prepositions', label: 'Prepositions & particles', description: 'the wrong preposition, postposition or particle' },
+  { id: 'pronouns', label: 'Pronouns', description: 'the wrong pronoun, or one in the wrong form or place' },
+  { id: 'word_order', label: 'Word order', description: 'words in the wrong order' },
+  { id: 'word_choice', label: 'Word choice', description: 'the wrong word, a false friend or an unnatural expression' },
+  { id: 'spelling', label: 'Spelling & accents', description: 'misspelled words or missing or wrong accents' },
+  { id: 'other', label: 'Other', description: 'anything that fits none of the above' },
+] as const satisfies readonly MistakeCategory[];
+
+/** A category counts as recurring once it has come up this many times */
+export const RECURRING_MIN_COUNT = 2;
+/** How many recurring categories the tutor is told to target */
+export const RECURRING_LIMIT = 3;
+
+export type MistakeCategoryId = typeof MISTAKE_CATEGORIES[number]['id'];
+
+export const MISTAKE_CATEGORY_IDS: MistakeCategoryId[] = MISTAKE_CATEGORIES.map(category => category.id);
+
+export function findMistakeCategory(id: string | null | undefined): MistakeCategory | undefined {
+  return id ? MISTAKE_CATEGORIES.find(category => category.id === id) : undefined;
+}
+
+/** Corrections filed under an unknown category (or none, from before categories) count as 'other'. */
+export function toMistakeCategoryId(id: unknown): MistakeCategoryId {
+  return MISTAKE_CATEGORY_IDS.find(known => known === id) ?? 'other';
+}
@@ -0,0 +1,140 @@
+// supabase/functions/_shared/pronunciation.ts
+// Scores a spoken attempt by aligning its transcript word by word against the
+// sentence the learner meant to read.
+
+export type WordStatus = 'correct' | 'close' | 'wrong' | 'missed' | 'extra';
+
+export interface AlignedWord {
+  /** The word as written in the sentence; null for a word the learner added */
+  expected: string | null;
+  /** What was heard in its place; null for a word the learner skipped */
+  heard: string | null;
+  status: WordStatus;
+}
+
+export interface PronunciationResult {
+  transcript: string;
+  words: AlignedWord[];
+  /** 0-100: correct words count fully and close ones half, added words count against */
+  score: number;
+  /** Sentence words that were not read correctly, in order, without repeats */
+  retryWords: string[];
+}
+
+// Written without spaces, so compared character by character
+const UNSPACED_LANGUAGES = ['ja', 'zh'];
+
+/** Split a longer text (a story) into the sentences it is practiced in. */
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?。！？\n]+[.!?。！？]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+/** What goes between aligned words when showing them as a sentence. */
+export const wordSeparator = (language: string | null) =>
+  language && UNSPACED_LANGUAGES.includes(language) ? '' : ' ';
+
+// Words at least this similar, letter by letter, count as close rather than wrong
+const CLOSE_SIMILARITY = 0.75;
+
+interface Token {
+  text: string;
+  /** Lowercase letters and digits only */
+  key: string;
+  /** The key without accents, for spellings that differ only in diacritics */
+  loose: string;
+}
+
+const toToken = (text: string): Token => {
+  const key = text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+  return { text, key, loose: key.normalize('NFD').replace(/\p{M}/gu, '') };
+};
+
+function tokenize(text: string, language: string | null): Token[] {
+  const pieces = language && UNSPACED_LANGUAGES.includes(language)
+    ? Array.from(text.replace(/\s+/g, ''))
+    : text.split(/\s+/).map(word => word.replace(/^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu, ''));
+  return pieces.map(toToken).filter(token => token.key);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function compareWords(expected: Token, heard: Token): 'correct' | 'close' | 'wrong' {
+  if (expected.key === heard.key) return 'correct';
+  if (expected.loose === heard.loose) return 'close';
+  const longest = Math.max(expected.loose.length, heard.loose.length);
+  const similarity = 1 - editDistance(expected.loose, heard.loose) / longest;
+  return similarity >= CLOSE_SIMILARITY ? 'close' : 'wrong';
+}
+
+const SUBSTITUTION_COST = { correct: 0, close: 0.5, wrong: 1 };
+
+/**
+ * Align `transcript` against `expected` with a word-level edit distance
+ * (a close word costs half a substitution) and score the attempt.
+ * `language` is an ISO 639-1 code; Japanese and Chinese are compared per character.
+ */
+export function scorePronunciation(expected: string, transcript: string, language: string | null = null): PronunciationResult {
+  const target = tokenize(expected, language);
+  const spoken = tokenize(transcript, language);
+
+  // cost[i][j]: cheapest alignment of the first i target and first j spoken tokens
+  const cost = Array.from({ length: target.length + 1 }, (_, i) =>
+    Array.from({ length: spoken.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= target.length; i++) {
+    for (let j = 1; j <= spoken.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + SUBSTITUTION_COST[compareWords(target[i - 1], spoken[j - 1])],
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end, preferring a pairing over a skip plus an addition
+  const words: AlignedWord[] = [];
+  let i = target.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const status = compareWords(target[i - 1], spoken[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + SUBSTITUTION_COST[status]) {
+        words.unshift({ expected: target[i - 1].text, heard: spoken[j - 1].text, status });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      words.unshift({ expected: target[i - 1].text, heard: null, status: 'missed' });
+      i--;
+    } else {
+      words.unshift({ expected: null, heard: spoken[j - 1].text, status: 'extra' });
+      j--;
+    }
+  }
+
+  const count = (status: WordStatus) => words.filter(word => word.status === status).length;
+  const possible = target.length + count('extra');
+  const score = possible ? Math.round((100 * (count('correct') + count('close') / 2)) / possible) : 0;
+  const retryWords = [...new Set(
+    words
+      .filter(word => word.expected !== null && word.status !== 'correct' && word.status !== 'extra')
+      .map(word => word.expected as string)
+  )];
+
+  return { transcript, words, score, retryWords };
+}
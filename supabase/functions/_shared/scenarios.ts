@@ -0,0 +1,93 @@
+// supabase/functions/_shared/scenarios.ts
+// Role-play scenarios for the AI Tutor: who the tutor plays and what the
+// learner should manage to do in the conversation.
+
+export interface ScenarioGoal {
+  /** Stable id, stored in chat_conversations.goals_met */
+  id: string;
+  /** What the learner has to do, in English */
+  description: string;
+}
+
+export interface TutorScenario {
+  id: string;
+  title: string;
+  /** One line for the scenario picker */
+  summary: string;
+  /** Who the tutor plays, e.g. "a waiter at a small neighbourhood restaurant" */
+  tutorRole: string;
+  /** The scene as the tutor should picture it */
+  setting: string;
+  goals: readonly ScenarioGoal[];
+}
+
+export const SCENARIOS: readonly TutorScenario[] = [
+  {
+    id: 'restaurant',
+    title: 'Ordering at a Restaurant',
+    summary: 'Get a table, order a meal and pay the bill.',
+    tutorRole: 'a friendly waiter at a small neighbourhood restaurant',
+    setting: 'It is a busy evening. The learner has just walked in without a reservation.',
+    goals: [
+      { id: 'table', description: 'Ask for a table' },
+      { id: 'order_food', description: 'Order a main course' },
+      { id: 'order_drink', description: 'Order a drink' },
+      { id: 'dietary', description: 'Ask about an ingredient or a dietary need' },
+      { id: 'bill', description: 'Ask for the bill and pay' },
+    ],
+  },
+  {
+    id: 'job_interview',
+    title: 'Job Interview',
+    summary: 'Introduce yourself, talk about your experience and ask a question.',
+    tutorRole: 'a hiring manager interviewing the learner for an office job',
+    setting: 'A formal first-round interview in the manager\'s office.',
+    goals: [
+      { id: 'introduce', description: 'Introduce yourself' },
+      { id: 'experience', description: 'Describe your previous experience' },
+      { id: 'strength', description: 'Name a strength and give an example' },
+      { id: 'ask_question', description: 'Ask the interviewer a question about the job' },
+      { id: 'close', description: 'Thank the interviewer and say goodbye politely' },
+    ],
+  },
+  {
+    id: 'doctor_visit',
+    title: 'Visiting the Doctor',
+    summary: 'Describe your symptoms and understand the treatment.',
+    tutorRole: 'a calm, attentive general practitioner',
+    setting: 'A routine appointment at a local clinic. The learner has been feeling unwell for a few days.',
+    goals: [
+      { id: 'symptoms', description: 'Describe your symptoms' },
+      { id: 'duration', description: 'Say how long you have had them' },
+      { id: 'history', description: 'Answer a question about allergies or medication' },
+      { id: 'treatment', description: 'Ask how to take the treatment' },
+    ],
+  },
+  {
+    id: 'hotel_booking',
+    title: 'Booking a Hotel',
+    summary: 'Book a room for your dates and ask about the hotel.',
+    tutorRole: 'a receptionist answering the phone at a mid-sized hotel',
+    setting: 'The learner is calling the hotel to book a stay next month.',
+    goals: [
+      { id: 'dates', description: 'Give your arrival and departure dates' },
+      { id: 'room', description: 'Choose a type of room' },
+      { id: 'price', description: 'Ask about the price or what is included' },
+      { id: 'details', description: 'Give your name and contact details' },
+      { id: 'confirm', description: 'Confirm the booking' },
+    ],
+  },
+];
+
+export function findScenario(id: string | null | undefined): TutorScenario | undefined {
+  return id ? SCENARIOS.find(scenario => scenario.id === id) : undefined;
+}
+
+/** Goal ids of `scenario` among `ids`, in the scenario's order; unknown ids are dropped. */
+export function knownGoalIds(scenario: TutorScenario, ids: readonly string[]): string[] {
+  return scenario.goals.filter(goal => ids.includes(goal.id)).map(goal => goal.id);
+}
+
+export function isScenarioComplete(scenario: TutorScenario, goalsMet: readonly string[]): boolean {
+  return scenario.goals.every(goal => goalsMet.includes(goal.id));
+}
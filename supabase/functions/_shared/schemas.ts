@@ -0,0 +1,524 @@
+// supabase/functions/_shared/schemas.ts
+// The JSON the AI edge functions return, as TypeScript types plus the JSON
+// Schema each response is checked against. The functions validate model output
+// with these (see `jsonSchema` in llm.ts) and the app validates what it
+// receives with the same definitions.
+
+/** The subset of JSON Schema the validator below understands. */
+export interface SchemaNode {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  required?: readonly string[];
+  /** Schema for keys not listed in `properties`; false rejects them */
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  enum?: readonly string[];
+  anyOf?: SchemaNode[];
+  /** Used by the fake LLM provider as its canned value */
+  examples?: readonly unknown[];
+}
+
+export interface AiSchema<T> {
+  /** Identifier sent to the provider, e.g. "generated_story" */
+  name: string;
+  schema: SchemaNode;
+  /** Rules JSON Schema cannot express; returns one message per problem */
+  check?(value: T): string[];
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export class AiResponseError extends Error {
+  schemaName: string;
+  errors: string[];
+
+  constructor(schemaName: string, errors: string[]) {
+    super(`Invalid ${schemaName} response: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'AiResponseError';
+    this.schemaName = schemaName;
+    this.errors = errors;
+  }
+}
+
+// ===========================================
+// Validation
+// ===========================================
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesType = (type: NonNullable<SchemaNode['type']>, value: unknown) => {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Check `value` against `schema`. Returns one message per problem, each
+ * starting with the JSON path ("$.questions[2].options: expected array"),
+ * so they can be shown to the model when asking it to repair its output.
+ */
+export function validateSchema(schema: SchemaNode, value: unknown, path = '$'): string[] {
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map(variant => validateSchema(variant, value, path));
+    if (attempts.some(errors => errors.length === 0)) return [];
+    // Report the closest variant rather than every branch
+    return attempts.reduce((best, errors) => (errors.length < best.length ? errors : best));
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [`${path}: expected ${schema.type}, got ${describe(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${path}: must not be empty`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = properties[key];
+      if (childSchema) {
+        errors.push(...validateSchema(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateSchema(schema.additionalProperties, child, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Validate against the schema and then its `check` rules. */
+export function validateAiResponse<T>(definition: AiSchema<T>, value: unknown): ValidationResult<T> {
+  const errors = validateSchema(definition.schema, value);
+  if (errors.length === 0 && definition.check) errors.push(...definition.check(value as T));
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+/** Like validateAiResponse, but throws an AiResponseError for invalid data. */
+export function parseAiResponse<T>(definition: AiSchema<T>, value: unknown): T {
+  const result = validateAiResponse(definition, value);
+  if (!result.ok) throw new AiResponseError(definition.name, result.errors);
+  return result.value;
+}
+
+// ===========================================
+// Shapes
+// ===========================================
+const text: SchemaNode = { type: 'string', minLength: 1 };
+const cefrLevel: SchemaNode = { type: 'string', enum: ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] };
+
+// --- call-openai (CEFR checker) ---
+export interface CEFRAnalysis {
+  level: string;
+  justification: string;
+}
+
+export interface CEFRResult {
+  level: string;
+  sentence: string;
+  explanation: string;
+}
+
+export interface CEFRResponse {
+  input: string;
+  analysis: CEFRAnalysis;
+  results: CEFRResult[];
+}
+
+export const CEFR_RESPONSE_SCHEMA: AiSchema<CEFRResponse> = {
+  name: 'cefr_response',
+  schema: {
+    type: 'object',
+    required: ['input', 'analysis', 'results'],
+    properties: {
+      input: { type: 'string' },
+      analysis: {
+        type: 'object',
+        required: ['level', 'justification'],
+        properties: { level: cefrLevel, justification: text },
+      },
+      results: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['level', 'sentence', 'explanation'],
+          properties: { level: cefrLevel, sentence: text, explanation: text },
+        },
+      },
+    },
+  },
+};
+
+// --- analyze-verbs ---
+export interface VerbAnalysis {
+  form: string;
+  infinitive: string;
+  tense: string;
+  mood: string;
+  person: string;
+  number: string;
+}
+
+export interface VerbAnalysisResponse {
+  verbs: VerbAnalysis[];
+}
+
+export const VERB_ANALYSIS_SCHEMA: AiSchema<VerbAnalysisResponse> = {
+  name: 'verb_analysis',
+  schema: {
+    type: 'object',
+    required: ['verbs'],
+    properties: {
+      verbs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['form', 'infinitive', 'tense', 'mood', 'person', 'number'],
+          properties: {
+            form: text,
+            infinitive: text,
+            tense: { type: 'string' },
+            mood: { type: 'string' },
+            person: { type: 'string' },
+            number: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+};
+
+// --- conjugate-verb ---
+/** Nested groups (mood, tense, ...) down to the conjugated forms, keyed e.g. "1s" */
+export interface ConjugationTree {
+  [key: string]: string | ConjugationTree;
+}
+
+export interface ConjugationResponse {
+  infinitive: string;
+  language: string;
+  conjugation: ConjugationTree;
+}
+
+const conjugationProblems = (node: unknown, path: string): string[] => {
+  if (typeof node === 'string') return [];
+  if (!isObject(node)) return [`${path}: expected a form or a group of forms, got ${describe(node)}`];
+  if (Object.keys(node).length === 0) return [`${path}: must not be empty`];
+  return Object.entries(node).flatMap(([key, child]) => conjugationProblems(child, `${path}.${key}`));
+};
+
+export const CONJUGATION_RESPONSE_SCHEMA: AiSchema<ConjugationResponse> = {
+  name: 'conjugation_response',
+  schema: {
+    type: 'object',
+    required: ['infinitive', 'language', 'conjugation'],
+    properties: {
+      infinitive: text,
+      language: text,
+      conjugation: {
+        type: 'object',
+        additionalProperties: { anyOf: [{ type: 'string' }, { type: 'object' }] },
+        examples: [{ present: { '1s': 'form' } }],
+      },
+    },
+  },
+  // The depth differs per language, so the tree is walked here instead
+  check: value => conjugationProblems(value.conjugation, '$.conjugation'),
+};
+
+// --- generate-story ---
+export interface StoryQuestion {
+  question: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+export interface GeneratedStory {
+  title: string;
+  story: string;
+  questions: StoryQuestion[];
+}
+
+export const GENERATED_STORY_SCHEMA: AiSchema<GeneratedStory> = {
+  name: 'generated_story',
+  schema: {
+    type: 'object',
+    required: ['title', 'story', 'questions'],
+    properties: {
+      title: text,
+      story: text,
+      questions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['question', 'options', 'correctAnswer'],
+          properties: {
+            question: text,
+            options: { type: 'array', minItems: 2, items: text },
+            correctAnswer: text,
+          },
+          examples: [{ question: 'Question?', options: ['A', 'B', 'C', 'D'], correctAnswer: 'A' }],
+        },
+      },
+    },
+  },
+  check: value => value.questions.flatMap((q, i) => {
+    const problems: string[] = [];
+    if (!q.options.includes(q.correctAnswer)) {
+      problems.push(`$.questions[${i}].correctAnswer: must be exactly one of the options`);
+    }
+    if (new Set(q.options).size !== q.options.length) {
+      problems.push(`$.questions[${i}].options: must not repeat an option`);
+    }
+    return problems;
+  }),
+};
+
+// --- enhance-translation ---
+export interface TranslationExample {
+  /** Sentence in the target language */
+  target: string;
+  /** Its translation in the learner's language */
+  source: string;
+}
+
+export interface TranslationSynonym {
+  word: string;
+  nuance: string;
+}
+
+export interface TranslationTone {
+  tone: string;
+  text: string;
+  context: string;
+}
+
+/** Only `pronunciation` is returned on the free tier. */
+export interface TranslationFeatureResult {
+  pronunciation?: string;
+  meaning?: string;
+  examples?: TranslationExample[];
+  synonyms?: TranslationSynonym[];
+  tone?: TranslationTone[];
+}
+
+const objectArray = (keys: string[]): SchemaNode => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    required: keys,
+    properties: Object.fromEntries(keys.map(key => [key, text])),
+  },
+});
+
+/** What the app accepts: any subset of the fields, each well-formed. */
+export const TRANSLATION_FEATURES_SCHEMA: AiSchema<TranslationFeatureResult> = {
+  name: 'translation_features',
+  schema: {
+    type: 'object',
+    properties: {
+      pronunciation: text,
+      meaning: text,
+      examples: objectArray(['target', 'source']),
+      synonyms: objectArray(['word', 'nuance']),
+      tone: objectArray(['tone', 'text', 'context']),
+    },
+  },
+};
+
+/** Free tier model output */
+export const PRONUNCIATION_SCHEMA: AiSchema<TranslationFeatureResult> = {
+  name: 'translation_pronunciation',
+  schema: { ...TRANSLATION_FEATURES_SCHEMA.schema, required: ['pronunciation'] },
+};
+
+/** Premium model output */
+export const PREMIUM_TRANSLATION_FEATURES_SCHEMA: AiSchema<TranslationFeatureResult> = {
+  name: 'translation_features_premium',
+  schema: {
+    ...TRANSLATION_FEATURES_SCHEMA.schema,
+    required: ['pronunciation', 'meaning', 'examples', 'synonyms', 'tone'],
+  },
+};
+
+// --- chat-tutor ---
+export interface ChatCorrection {
+  original: string;
+  corrected: string;
+  explanation: string;
+  /** Id from _shared/mistakes.ts; chat-tutor files unknown ones under 'other'. Missing on older corrections. */
+  category?: string;
+}
+
+/** Model output: ids of the role-play goals the learner has achieved so far */
+export interface ScenarioGoalCheck {
+  goals_met: string[];
+}
+
+/** Where a role-play scenario stands after the learner's latest message */
+export interface ScenarioProgress extends ScenarioGoalCheck {
+  complete: boolean;
+}
+
+export interface ChatResponse {
+  reply: string;
+  correction: ChatCorrection | null;
+  /** Whisper transcript of a voice message, added by the function */
+  user_transcript?: string | null;
+  /** Added by the function when the conversation is a role-play scenario */
+  scenario?: ScenarioProgress | null;
+}
+
+/** End-of-scenario feedback; the text is in the learner's own language */
+export interface ScenarioEvaluation {
+  /** 1 (struggled) to 5 (handled it like a native) */
+  rating: number;
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+export const CHAT_CORRECTION_SCHEMA: AiSchema<ChatCorrection> = {
+  name: 'chat_correction',
+  schema: {
+    type: 'object',
+    required: ['original', 'corrected', 'explanation'],
+    properties: { original: text, corrected: text, explanation: text, category: { type: 'string', examples: ['verb_tense'] } },
+  },
+};
+
+export const SCENARIO_GOAL_CHECK_SCHEMA: AiSchema<ScenarioGoalCheck> = {
+  name: 'scenario_goal_check',
+  schema: {
+    type: 'object',
+    required: ['goals_met'],
+    properties: { goals_met: { type: 'array', items: text } },
+  },
+};
+
+export const SCENARIO_PROGRESS_SCHEMA: AiSchema<ScenarioProgress> = {
+  name: 'scenario_progress',
+  schema: {
+    type: 'object',
+    required: ['goals_met', 'complete'],
+    properties: { goals_met: { type: 'array', items: text }, complete: { type: 'boolean' } },
+  },
+};
+
+export const CHAT_RESPONSE_SCHEMA: AiSchema<ChatResponse> = {
+  name: 'chat_response',
+  schema: {
+    type: 'object',
+    required: ['reply', 'correction'],
+    properties: {
+      reply: text,
+      correction: { anyOf: [CHAT_CORRECTION_SCHEMA.schema, { type: 'null' }] },
+      user_transcript: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      scenario: { anyOf: [SCENARIO_PROGRESS_SCHEMA.schema, { type: 'null' }] },
+    },
+  },
+};
+
+export const SCENARIO_EVALUATION_SCHEMA: AiSchema<ScenarioEvaluation> = {
+  name: 'scenario_evaluation',
+  schema: {
+    type: 'object',
+    required: ['rating', 'summary', 'strengths', 'improvements'],
+    properties: {
+      rating: { type: 'integer', examples: [3] },
+      summary: text,
+      strengths: { type: 'array', items: text },
+      improvements: { type: 'array', items: text },
+    },
+  },
+  check: value => (value.rating >= 1 && value.rating <= 5 ? [] : ['$.rating: must be between 1 and 5']),
+};
+
+/** Corrections of one session that share a grammar point */
+export interface SessionReportTopic {
+  topic: string;
+  explanation: string;
+  examples: { original: string; corrected: string }[];
+}
+
+export interface SessionExercise {
+  title: string;
+  description: string;
+}
+
+/** End-of-session report on the learner's messages; the text is in the learner's own language */
+export interface SessionReport {
+  /** Estimated from the learner's messages in this session only */
+  cefr_level: string;
+  summary: string;
+  topics: SessionReportTopic[];
+  strengths: string[];
+  next_exercises: SessionExercise[];
+}
+
+export const SESSION_REPORT_SCHEMA: AiSchema<SessionReport> = {
+  name: 'session_report',
+  schema: {
+    type: 'object',
+    required: ['cefr_level', 'summary', 'topics', 'strengths', 'next_exercises'],
+    properties: {
+      cefr_level: cefrLevel,
+      summary: text,
+      topics: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['topic', 'explanation', 'examples'],
+          properties: { topic: text, explanation: text, examples: objectArray(['original', 'corrected']) },
+        },
+      },
+      strengths: { type: 'array', items: text },
+      next_exercises: objectArray(['title', 'description']),
+    },
+  },
+};
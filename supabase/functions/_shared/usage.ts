@@ -0,0 +1,145 @@
+// supabase/functions/_shared/usage.ts
+// Server-side quota enforcement shared by every metered edge function.
+// Resolves the caller from their JWT and records the action through the
+// log_usage database function, so limits hold regardless of the client.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ActionType =
+  | 'translation'
+  | 'cefr_analysis'
+  | 'verb_analysis'
+  | 'verb_conjugation'
+  | 'language_detection'
+  | 'chat_message'
+  | 'story_generation'
+  | 'text_to_speech'
+  | 'pronunciation_check'
+  | 'translation_features';
+
+export interface UsageGrant {
+  userId: string;
+  used: number;
+  dailyLimit: number;
+  remaining: number;
+}
+
+interface RequireUsageOptions {
+  headers?: Record<string, string>;
+  metadata?: Record<string, unknown>;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+
+export function createAdminClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false } }
+  );
+}
+
+/**
+ * Resolve the signed-in user behind the request's bearer token.
+ * Returns null for missing, expired or anon-key tokens.
+ */
+export async function getRequestUser(req: Request) {
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await createAdminClient().auth.getUser(token);
+  if (error || !data?.user) return null;
+  return data.user;
+}
+
+/**
+ * The caller's subscription tier, read from user_profiles on the server: a
+ * request body can't be trusted to say it. Anything unreadable counts as free.
+ */
+export async function getUserTier(userId: string): Promise<'free' | 'premium'> {
+  const { data, error } = await createAdminClient().rpc("get_user_tier", { p_user_id: userId });
+  if (error) console.error("[usage] get_user_tier failed:", error);
+  return data === "premium" ? "premium" : "free";
+}
+
+/**
+ * Log one unit of `actionType` for the caller. Resolves to the usage grant,
+ * or to a ready-to-return error Response:
+ * - 401 when the request carries no user session
+ * - 402 when the action is disabled on the caller's tier (daily_limit = 0)
+ * - 429 when the daily limit has been used up
+ */
+export async function requireUsage(
+  req: Request,
+  actionType: ActionType,
+  options: RequireUsageOptions = {}
+): Promise<UsageGrant | Response> {
+  const headers = options.headers ?? {};
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: "unauthorized", message: "A signed-in session is required" }, 401, headers);
+  }
+
+  const { data, error } = await createAdminClient().rpc("log_usage", {
+    p_user_id: user.id,
+    p_action_type: actionType,
+    p_metadata: options.metadata ?? {},
+  });
+
+  if (error || !data?.[0]) {
+    console.error("[usage] log_usage failed:", error);
+    return jsonResponse({ error: "usage_check_failed", message: "Could not verify usage limits" }, 500, headers);
+  }
+
+  const result = data[0];
+  if (!result.success) {
+    const disabled = result.daily_limit === 0;
+    return jsonResponse({
+      error: "usage_limit_exceeded",
+      message: disabled
+        ? `${actionType} is not available on your current plan`
+        : `Daily limit reached for ${actionType}`,
+      action_type: actionType,
+      used: result.used,
+      daily_limit: result.daily_limit,
+      remaining: result.remaining,
+    }, disabled ? 402 : 429, headers);
+  }
+
+  return {
+    userId: user.id,
+    used: result.used,
+    dailyLimit: result.daily_limit,
+    remaining: result.remaining,
+  };
+}
+
+/**
+ * Give back the unit requireUsage logged when the work it paid for failed
+ * upstream (e.g. DeepL answering 456 or 5xx). Best effort: a failed refund is
+ * only logged.
+ */
+export async function refundUsage(grant: UsageGrant, actionType: ActionType): Promise<void> {
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("usage_logs")
+    .select("id")
+    .eq("user_id", grant.userId)
+    .eq("action_type", actionType)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { error: deleteError } = data
+    ? await admin.from("usage_logs").delete().eq("id", data.id)
+    : { error: null };
+  if (error || deleteError) {
+    console.error("[usage] refund failed:", error ?? deleteError);
+  }
+}
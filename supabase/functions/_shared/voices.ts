@@ -0,0 +1,25 @@
+// supabase/functions/_shared/voices.ts
+// The premium (server) voices text-to-speech can use. Every one of them speaks
+// all supported languages; users pick one per language in the voice picker.
+
+export interface PremiumVoice {
+  /** OpenAI TTS voice name, sent as `voice` */
+  id: string;
+  name: string;
+  description: string;
+}
+
+export const PREMIUM_VOICES: readonly PremiumVoice[] = [
+  { id: 'alloy', name: 'Alloy', description: 'Neutral and even' },
+  { id: 'echo', name: 'Echo', description: 'Calm, male' },
+  { id: 'fable', name: 'Fable', description: 'Expressive, good for stories' },
+  { id: 'onyx', name: 'Onyx', description: 'Deep, male' },
+  { id: 'nova', name: 'Nova', description: 'Natural, warm female' },
+  { id: 'shimmer', name: 'Shimmer', description: 'Bright, female' },
+];
+
+export const DEFAULT_PREMIUM_VOICE = 'nova';
+
+export function isPremiumVoice(value: unknown): value is string {
+  return typeof value === 'string' && PREMIUM_VOICES.some(voice => voice.id === value);
+}
@@ -1,6 +1,15 @@
 import { serve as serveAnalyze } from "https://deno.land/std@0.192.0/http/server.ts";
+import { cached } from "../_shared/cache.ts";
+import { findLanguage } from "../_shared/languages.ts";
+import { createLlm, LlmError } from "../_shared/llm.ts";
+import { DATA_RULES, INPUT_LIMITS, inputErrorResponse, languageName, PromptInputError, userInput } from "../_shared/prompts.ts";
+import { VERB_ANALYSIS_SCHEMA, VerbAnalysis } from "../_shared/schemas.ts";
+import { requireUsage } from "../_shared/usage.ts";
 
-const OPENAI_API_KEY_ANALYZE = Deno.env.get("OPENAI_API_KEY");
+const llm = createLlm("analyze-verbs", { defaultModel: "gpt-4o" });
+
+// Cache version of the prompt below; bump when changing it
+const PROMPT_VERSION = 1;
 
 serveAnalyze(async (req) => {
     try {
@@ -9,8 +18,21 @@ serveAnalyze(async (req) => {
             return new Response(JSON.stringify({ error: "Missing sentence or language" }), { status: 400 });
         }
 
+        let sentenceBlock: string;
+        let languageLabel: string;
+        try {
+            sentenceBlock = userInput('sentence', sentence, INPUT_LIMITS.verbSentence);
+            languageLabel = languageName(language);
+        } catch (e) {
+            if (e instanceof PromptInputError) return inputErrorResponse(e);
+            throw e;
+        }
+
+        const usage = await requireUsage(req, 'verb_analysis', { metadata: { language } });
+        if (usage instanceof Response) return usage;
+
         const prompt = `
-For the sentence "${sentence}" in ${language}, return a JSON object with a 'verbs' array. Each verb should include:
+For the ${languageLabel} sentence in the user_input block below, return a JSON object with a 'verbs' array. Each verb should include:
 - form
 - infinitive
 - tense
@@ -33,39 +55,40 @@ Sample format:
     }
   ]
 }
-`;
 
-        const res = await fetch("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                Authorization: `Bearer ${OPENAI_API_KEY_ANALYZE}`,
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                model: "gpt-4o",
-                messages: [
-                    { role: "system", content: "You are a grammar tutor. Output only JSON." },
-                    { role: "user", content: prompt },
-                ],
-                temperature: 0.2,
-            }),
-        });
+${sentenceBlock}
+`;
 
-        const data = await res.json();
-        let verbs = [];
+        let verbs: VerbAnalysis[] = [];
         try {
-            let content = data.choices[0].message.content;
-            // Remove Markdown code block markers if present
-            content = content.replace(/^```[a-zA-Z]*\n?|```$/g, '').trim();
-            const parsed = JSON.parse(content);
-            verbs = parsed.verbs || [];
-            if (!Array.isArray(verbs) || verbs.length === 0) {
+            const { value } = await cached(
+                {
+                    feature: 'verb_analysis',
+                    promptVersion: PROMPT_VERSION,
+                    input: sentence,
+                    language: findLanguage(language)?.code ?? languageLabel,
+                },
+                async () => {
+                    const { data } = await llm.complete({
+                        messages: [
+                            { role: "system", content: `You are a grammar tutor. Output only JSON.\n${DATA_RULES}` },
+                            { role: "user", content: prompt },
+                        ],
+                        temperature: 0.2,
+                        jsonSchema: VERB_ANALYSIS_SCHEMA,
+                    });
+                    return data!;
+                },
+                { schema: VERB_ANALYSIS_SCHEMA }
+            );
+            verbs = value.verbs;
+            if (verbs.length === 0) {
                 console.warn(`No verbs found in the sentence: ${sentence}`);
-                console.warn('Raw OpenAI response:', data.choices[0].message.content);
             }
         } catch (err) {
-            console.error('Failed to parse OpenAI response as JSON:', data.choices[0].message.content);
-            return new Response(JSON.stringify({ error: 'Failed to parse OpenAI response as JSON' }), { status: 500 });
+            if (!(err instanceof LlmError)) throw err;
+            console.error('Failed to get verbs from the model:', err.message);
+            return new Response(JSON.stringify({ error: 'The model did not return a valid verb analysis' }), { status: 500 });
         }
 
         return new Response(JSON.stringify({ verbs }), {
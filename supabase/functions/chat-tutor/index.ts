@@ -1,5 +1,32 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getLanguageName, supportsFeature } from "../_shared/languages.ts";
+import { createLlm, LlmMessage } from "../_shared/llm.ts";
+import { recordMistake, recurringMistakes, RecurringMistake } from "../_shared/mistakeMemory.ts";
+import { MISTAKE_CATEGORIES, toMistakeCategoryId } from "../_shared/mistakes.ts";
+import {
+  DATA_RULES,
+  INPUT_LIMITS,
+  inputErrorResponse,
+  languageName,
+  plainValue,
+  PromptInputError,
+  userInput,
+} from "../_shared/prompts.ts";
+import { findScenario, isScenarioComplete, knownGoalIds, TutorScenario } from "../_shared/scenarios.ts";
+import {
+  CHAT_CORRECTION_SCHEMA,
+  CHAT_RESPONSE_SCHEMA,
+  ChatCorrection,
+  SCENARIO_EVALUATION_SCHEMA,
+  SCENARIO_GOAL_CHECK_SCHEMA,
+  ScenarioEvaluation,
+  ScenarioProgress,
+  SESSION_REPORT_SCHEMA,
+  SessionReport,
+  validateAiResponse,
+} from "../_shared/schemas.ts";
+import { requireUsage } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +36,301 @@ const corsHeaders = {
 // Helper for multi-part form data body (needed for Whisper API if we were doing raw fetch, but we might just use JSON with base64)
 // OpenAI Whisper API supports file uploads. We'll constructs a FormData object.
 
+const llm = createLlm("chat-tutor", { defaultModel: "gpt-4o-mini" }); // Fast and cheap
+
+// Streaming mode: the model writes the reply as plain text, then this marker, then the correction JSON
+const CORRECTION_MARKER = "<<<CORRECTION>>>";
+
+// Only the latest turns of a conversation are sent to the model
+const MAX_HISTORY_TURNS = 40;
+// Tutor replies are short; anything longer did not come from this function
+const MAX_ASSISTANT_TURN_LENGTH = 2000;
+
+/**
+ * The latest turns of the conversation sent by the app, as model messages.
+ * Learner turns become data blocks; anything claiming another role (e.g.
+ * "system") is dropped. Only the message being sent (`limitNewest`) is
+ * rejected when too long: earlier turns were accepted before and are cut to
+ * the limit instead, so an old message can't lock the learner out of their
+ * conversation.
+ */
+const toTutorHistory = (messages: unknown, limitNewest: boolean): LlmMessage[] => {
+  if (!Array.isArray(messages)) throw new PromptInputError("Missing messages");
+  const turns = messages
+    .filter(m => (m?.role === "user" || m?.role === "assistant") && typeof m.content === "string" && m.content.trim())
+    .slice(-MAX_HISTORY_TURNS);
+  return turns.map((m, i) => {
+    if (m.role === "assistant") {
+      return { role: "assistant" as const, content: m.content.slice(0, MAX_ASSISTANT_TURN_LENGTH) };
+    }
+    const isNewest = limitNewest && i === turns.length - 1;
+    const content = isNewest ? m.content : m.content.slice(0, INPUT_LIMITS.chatMessage.maxLength);
+    return { role: "user" as const, content: userInput("message", content, INPUT_LIMITS.chatMessage) };
+  });
+};
+
+// A report covers at most the latest corrections of a session
+const MAX_REPORT_CORRECTIONS = 50;
+
+/** Corrections the app collected during the session, as data blocks for the report prompt. */
+const toCorrectionBlocks = (corrections: unknown): string[] => {
+  if (!Array.isArray(corrections)) return [];
+  return corrections
+    .filter(c => typeof c?.original === "string" && typeof c?.corrected === "string")
+    .slice(-MAX_REPORT_CORRECTIONS)
+    .map(c => userInput(
+      "correction",
+      // Each part is a message the learner already got past the limit, so cut the block rather than refuse the report
+      `${c.original} -> ${c.corrected}${typeof c.explanation === "string" ? `\n${c.explanation}` : ""}`
+        .slice(0, INPUT_LIMITS.chatMessage.maxLength),
+      INPUT_LIMITS.chatMessage
+    ));
+};
+
+/** Role-play instructions: the scene, and the goals the learner has still to reach. */
+const scenarioPrompt = (scenario: TutorScenario, goalsMet: string[], targetLangName: string) => {
+  const remaining = scenario.goals.filter(goal => !goalsMet.includes(goal.id));
+  const steer = remaining.length
+    ? `Steer the scene so the learner gets a natural chance to:
+${remaining.map(goal => `- ${goal.description}`).join("\n")}
+Lead towards one of these at a time, the way ${scenario.tutorRole} would. Never list them or mention that this is an exercise.`
+    : "The learner has done everything the scene needs. Bring it to a natural close.";
+
+  return `You are role-playing as ${scenario.tutorRole}, talking with a learner of ${targetLangName}.
+Scene: ${scenario.setting}
+Stay in character and speak only ${targetLangName}. If the conversation has not started yet, open the scene with your first line.
+${steer}`;
+};
+
+const goalList = (scenario: TutorScenario) =>
+  scenario.goals.map(goal => `- ${goal.id}: ${goal.description}`).join("\n");
+
+/**
+ * Which goals of the scenario the learner has reached in `history`. Goals
+ * reported by the app stay met; a failed check reports no new ones rather
+ * than failing the reply.
+ */
+const checkScenarioGoals = async (
+  scenario: TutorScenario,
+  history: LlmMessage[],
+  goalsMet: string[]
+): Promise<ScenarioProgress> => {
+  let met = goalsMet;
+  if (history.some(m => m.role === "user")) {
+    const systemPrompt = `
+You are checking a language role-play: "${scenario.title}", where the learner talks with ${scenario.tutorRole}.
+The learner's goals (id: description):
+${goalList(scenario)}
+
+Read the conversation and list the ids of the goals the learner has accomplished in their own messages. A goal counts when the learner's meaning was clear, even with grammar mistakes. Goals only the other speaker talked about do not count.
+Return ONLY a JSON object: {"goals_met": ["id", ...]}
+${DATA_RULES}
+    `;
+    try {
+      const { data } = await llm.complete({
+        messages: [{ role: "system", content: systemPrompt }, ...history],
+        temperature: 0,
+        jsonSchema: SCENARIO_GOAL_CHECK_SCHEMA,
+      });
+      met = knownGoalIds(scenario, [...goalsMet, ...(data?.goals_met ?? [])]);
+    } catch (err) {
+      console.error("Scenario goal check failed", err);
+    }
+  }
+  return { goals_met: met, complete: isScenarioComplete(scenario, met) };
+};
+
+/** End-of-scenario feedback on the learner's side of the conversation. */
+const evaluateScenario = async (
+  scenario: TutorScenario,
+  history: LlmMessage[],
+  goalsMet: string[],
+  targetLangName: string,
+  sourceLangName: string,
+  userLevel: string
+): Promise<ScenarioEvaluation> => {
+  const reached = scenario.goals.filter(goal => goalsMet.includes(goal.id));
+  const missed = scenario.goals.filter(goal => !goalsMet.includes(goal.id));
+  const systemPrompt = `
+You are a language tutor reviewing a role-play in ${targetLangName}: "${scenario.title}". The learner (level: ${userLevel}) talked with ${scenario.tutorRole}.
+Goals reached: ${reached.map(goal => goal.description).join("; ") || "none"}
+Goals not reached: ${missed.map(goal => goal.description).join("; ") || "none"}
+
+Evaluate only the learner's messages:
+- rating: an integer from 1 (struggled to communicate) to 5 (handled the situation like a native speaker)
+- summary: 2-3 sentences on how the conversation went
+- strengths: up to 3 things they did well
+- improvements: up to 3 specific things to work on, quoting their own words where useful
+Write all text IN ${sourceLangName}.
+Return ONLY a JSON object: {"rating": 3, "summary": "...", "strengths": ["..."], "improvements": ["..."]}
+${DATA_RULES}
+  `;
+  const { data } = await llm.complete({
+    messages: [{ role: "system", content: systemPrompt }, ...history],
+    temperature: 0.3,
+    jsonSchema: SCENARIO_EVALUATION_SCHEMA,
+  });
+  return data!;
+};
+
+/**
+ * End-of-session report: the session's corrections grouped by grammar topic,
+ * strengths, the level the learner's messages show and what to practice next.
+ */
+const sessionReport = async (
+  history: LlmMessage[],
+  correctionBlocks: string[],
+  targetLangName: string,
+  sourceLangName: string,
+  userLevel: string
+): Promise<SessionReport> => {
+  const systemPrompt = `
+You are a language tutor writing an end-of-session report for a learner of ${targetLangName} (self-reported level: ${userLevel}). The practice conversation follows these instructions.
+
+Corrections given during the session (mistake -> correction, then the explanation):
+${correctionBlocks.join("\n") || "none"}
+
+Report on the learner's messages only:
+- cefr_level: the CEFR level (A1-C2) the learner's messages in this session show
+- summary: 2-3 sentences on how the session went
+- topics: the corrections grouped by grammar topic (e.g. "Past tense of irregular verbs"), each with a short explanation of the rule and its corrections as examples ({"original", "corrected"}). Only use the corrections listed above; an empty list if there were none
+- strengths: up to 3 things the learner did well
+- next_exercises: 2-3 concrete exercises aimed at the weakest topics, each with a title and a one-sentence description
+Write topic names, explanations, the summary, strengths and exercises IN ${sourceLangName}; keep the examples in ${targetLangName} as written.
+Return ONLY a JSON object: {"cefr_level": "B1", "summary": "...", "topics": [{"topic": "...", "explanation": "...", "examples": [{"original": "...", "corrected": "..."}]}], "strengths": ["..."], "next_exercises": [{"title": "...", "description": "..."}]}
+${DATA_RULES}
+  `;
+  const { data } = await llm.complete({
+    messages: [{ role: "system", content: systemPrompt }, ...history],
+    temperature: 0.3,
+    jsonSchema: SESSION_REPORT_SCHEMA,
+  });
+  return data!;
+};
+
+const sseEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// The reply has already been streamed, so a malformed correction is dropped rather than repaired
+const parseCorrection = (text: string): ChatCorrection | null => {
+  const cleaned = text.trim().replace(/^```(?:json)?/, "").replace(/```$/, "").trim();
+  if (!cleaned || cleaned === "null") return null;
+  try {
+    const result = validateAiResponse(CHAT_CORRECTION_SCHEMA, JSON.parse(cleaned));
+    if (result.ok) return result.value;
+    console.error("Invalid streamed correction:", result.errors);
+    return null;
+  } catch (err) {
+    console.error("Unparseable streamed correction:", cleaned, err);
+    return null;
+  }
+};
+
+/** The correction with its category checked against the catalog. */
+const categorized = (correction: ChatCorrection | null): ChatCorrection | null =>
+  correction && { ...correction, category: toMistakeCategoryId(correction.category) };
+
+const CATEGORY_LIST = MISTAKE_CATEGORIES.map(category => `- ${category.id}: ${category.description}`).join("\n");
+
+/** Prompt section on the learner's most frequent mistakes from earlier sessions. */
+const mistakeFocus = (recurring: RecurringMistake[]) => {
+  if (recurring.length === 0) return "";
+  const lines = recurring.map(mistake => {
+    let example = "";
+    const latest = mistake.examples[0];
+    if (latest) {
+      try {
+        example = `\n  Latest example:\n${userInput("example", `${latest.original} -> ${latest.corrected}`, INPUT_LIMITS.chatMessage)}`;
+      } catch {
+        // Stored examples are already trimmed; one that still fails is left out
+      }
+    }
+    return `- ${mistake.category.label} (${mistake.category.description}): corrected ${mistake.count} times${example}`;
+  });
+  return `
+Recurring Mistakes:
+In earlier sessions this learner has most often been corrected for:
+${lines.join("\n")}
+These are their recurring errors: correct them whenever they come up, even when minor. Now and then, steer the conversation so the learner has to use these structures, without announcing it.
+`;
+};
+
+/**
+ * Relay a streamed completion as server-sent events:
+ * `transcript` (voice input only), `reply` deltas as they arrive, then one
+ * `correction`, a `scenario` progress update in role-play conversations and
+ * a final `done` carrying the whole response.
+ */
+const streamTutorResponse = (
+  deltas: AsyncIterable<string>,
+  userTranscript: string | null,
+  scenarioProgress: Promise<ScenarioProgress | null>,
+  remember: (correction: ChatCorrection) => Promise<void>
+) => {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(sseEvent(event, data)));
+
+      let pending = "";
+      let reply = "";
+      let correctionText = "";
+      let inCorrection = false;
+
+      const handleContent = (content: string) => {
+        if (inCorrection) {
+          correctionText += content;
+          return;
+        }
+        pending += content;
+        const markerIndex = pending.indexOf(CORRECTION_MARKER);
+        if (markerIndex !== -1) {
+          const delta = pending.slice(0, markerIndex);
+          if (delta) send("reply", { delta });
+          reply += delta;
+          correctionText = pending.slice(markerIndex + CORRECTION_MARKER.length);
+          pending = "";
+          inCorrection = true;
+          return;
+        }
+        // Hold back enough characters to catch a marker split across chunks
+        const safeLength = pending.length - (CORRECTION_MARKER.length - 1);
+        if (safeLength > 0) {
+          const delta = pending.slice(0, safeLength);
+          send("reply", { delta });
+          reply += delta;
+          pending = pending.slice(safeLength);
+        }
+      };
+
+      try {
+        if (userTranscript !== null) send("transcript", { text: userTranscript });
+
+        for await (const content of deltas) {
+          handleContent(content);
+        }
+
+        if (pending) {
+          send("reply", { delta: pending });
+          reply += pending;
+        }
+        const correction = categorized(parseCorrection(correctionText));
+        send("correction", { correction });
+        if (correction) await remember(correction);
+        const scenario = await scenarioProgress;
+        if (scenario) send("scenario", scenario);
+        send("done", { reply: reply.trim(), correction, user_transcript: userTranscript, scenario });
+      } catch (err) {
+        console.error("Chat tutor stream failed", err);
+        send("error", { error: err.message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+};
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -16,11 +338,97 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, audio_base64, target_lang, user_level, source_lang } = await req.json();
-    const apiKey = Deno.env.get("OPENAI_API_KEY");
+    const {
+      messages: rawMessages,
+      audio_base64,
+      target_lang,
+      user_level,
+      source_lang,
+      stream,
+      scenario_id,
+      goals_met,
+      evaluate,
+      report,
+      corrections,
+    } = await req.json();
+    if (target_lang && !supportsFeature(target_lang, 'tutor')) {
+      return new Response(JSON.stringify({ error: `The AI Tutor does not support ${target_lang}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    const scenario = findScenario(scenario_id);
+    if ((scenario_id && !scenario) || (evaluate && !scenario)) {
+      return new Response(JSON.stringify({ error: scenario_id ? `Unknown scenario: ${scenario_id}` : "Missing scenario_id" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+    // Goals the app has already seen met; the check below only adds to them
+    const scenarioGoalsMet = scenario ? knownGoalIds(scenario, Array.isArray(goals_met) ? goals_met : []) : [];
 
-    if (!apiKey) {
-      throw new Error("Missing OpenAI API Key");
+    let messages: LlmMessage[];
+    let correctionBlocks: string[] = [];
+    let userLevel: string;
+    let sourceLangName: string;
+    try {
+      // Evaluations, reports and voice turns only resend what the thread already holds
+      messages = toTutorHistory(rawMessages, !evaluate && !report && !audio_base64);
+      if (report) correctionBlocks = toCorrectionBlocks(corrections);
+      userLevel = user_level ? plainValue("level", user_level) : "intermediate";
+      sourceLangName = source_lang ? languageName(source_lang) : "English";
+    } catch (err) {
+      if (err instanceof PromptInputError) return inputErrorResponse(err, corsHeaders);
+      throw err;
+    }
+
+    if ((evaluate || report) && !messages.some(m => m.role === "user")) {
+      return new Response(JSON.stringify({ error: "Nothing to evaluate yet" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    const usage = await requireUsage(req, 'chat_message', {
+      headers: corsHeaders,
+      metadata: {
+        target_lang,
+        voice: !!audio_base64,
+        scenario: scenario?.id ?? null,
+        evaluate: !!evaluate,
+        report: !!report,
+      },
+    });
+    if (usage instanceof Response) return usage;
+
+    const targetLangName = target_lang ? getLanguageName(target_lang) : null;
+
+    if (evaluate && scenario) {
+      const evaluation = await evaluateScenario(
+        scenario,
+        messages,
+        scenarioGoalsMet,
+        targetLangName || "the target language",
+        sourceLangName,
+        userLevel
+      );
+      return new Response(JSON.stringify({ evaluation }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (report) {
+      const sessionResult = await sessionReport(
+        messages,
+        correctionBlocks,
+        targetLangName || "the target language",
+        sourceLangName,
+        userLevel
+      );
+      return new Response(JSON.stringify({ report: sessionResult }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
     let userMessage = "";
@@ -30,6 +438,11 @@ serve(async (req) => {
     if (audio_base64) {
       wasAudio = true;
       try {
+        const apiKey = Deno.env.get("OPENAI_API_KEY");
+        if (!apiKey) {
+          throw new Error("Missing OpenAI API Key");
+        }
+
         // Create a Blob from the Base64 string
         const binaryString = atob(audio_base64);
         const bytes = new Uint8Array(binaryString.length);
@@ -62,9 +475,6 @@ serve(async (req) => {
 
         userMessage = transcriptData.text;
 
-        // Append the new message to history
-        messages.push({ role: "user", content: userMessage });
-
       } catch (err) {
         console.error("Transcription failed", err);
         return new Response(JSON.stringify({ error: "Transcription failed: " + err.message }), {
@@ -72,37 +482,39 @@ serve(async (req) => {
           headers: { ...corsHeaders, "Content-Type": "application/json" }
         });
       }
-    } else {
-      // Text mode: last message is the user input
-      userMessage = messages[messages.length - 1]?.content || "";
+
+      // Append the new message to history; a long recording is cut rather than refused
+      try {
+        messages.push({ role: "user", content: userInput("message", userMessage.slice(0, INPUT_LIMITS.chatMessage.maxLength), INPUT_LIMITS.chatMessage) });
+      } catch (err) {
+        if (err instanceof PromptInputError) return inputErrorResponse(err, corsHeaders);
+        throw err;
+      }
     }
 
     // 2. Chat Completion
-    const languageMap: { [key: string]: string } = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'ru': 'Russian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese'
-    };
-    const sourceLangName = languageMap[source_lang] || "English";
+    const recurring = target_lang ? await recurringMistakes(usage.userId, target_lang) : [];
+    const remember = (correction: ChatCorrection) =>
+      target_lang ? recordMistake(usage.userId, target_lang, correction) : Promise.resolve();
 
-    const systemPrompt = `
-You are a friendly, encouraging language tutor helping a user learn ${target_lang || "a foreign language"}.
-The user's level is roughly ${user_level || "intermediate"}.
+    const persona = scenario
+      ? scenarioPrompt(scenario, scenarioGoalsMet, targetLangName || "the target language")
+      : `You are a friendly, encouraging language tutor helping a user learn ${targetLangName || "a foreign language"}.`;
+    const replyGoal = scenario
+      ? `Reply in character in ${targetLangName || "the target language"}. Keep it conversational and brief (1-3 sentences).`
+      : `Respond naturally to the user's message in ${targetLangName || "the target language"}. Keep it conversational and brief (1-3 sentences).`;
+
+    const instructions = `
+${persona}
+The user's level is roughly ${userLevel}.
 The user's native/source language is ${sourceLangName}.
 
 Your Goal:
-1. Respond naturally to the user's message in ${target_lang || "the target language"}. Keep it conversational and brief (1-3 sentences).
+1. ${replyGoal}
 2. Check the user's last message for SIGNIFICANT grammar or vocabulary mistakes.
    - If the mistake is minor or the message is understandable, ignore it to keep flow, UNLESS it's a recurring error.
    - If you correct them, be gentle.
-
+${mistakeFocus(recurring)}
 IMPORTANT - Correction Explanations:
 When providing a correction, the "explanation" field MUST include a SPECIFIC grammatical reason. Do NOT use vague phrases like "in this context" or "it sounds more natural."
 Instead, explain:
@@ -111,6 +523,11 @@ Instead, explain:
 - The conjugation pattern (e.g., "First-person singular present tense ends in -o, not -i")
 - Why one word choice is grammatically correct over another
 
+The user's messages arrive in user_input blocks. Reply to them as conversation practice.
+${DATA_RULES}
+    `;
+
+    const jsonFormat = `
 Output Format:
 Return ONLY a valid JSON object with this structure:
 {
@@ -118,7 +535,8 @@ Return ONLY a valid JSON object with this structure:
   "correction": {
      "original": "The user's text part that was wrong",
      "corrected": "The corrected version",
-     "explanation": "Specific grammatical explanation (IN ${sourceLangName} - EXTREMELY IMPORTANT). Example: 'After the preposition per (for/in order to), you must use the infinitive form of the verb, not the conjugated form.'"
+     "explanation": "Specific grammatical explanation (IN ${sourceLangName} - EXTREMELY IMPORTANT). Example: 'After the preposition per (for/in order to), you must use the infinitive form of the verb, not the conjugated form.'",
+     "category": "The id of the mistake's category, from the list below"
   } | null
 }
 
@@ -126,38 +544,65 @@ If no correction is needed, set "correction" to null.
 Do not include markdown blocks like \`\`\`json. Just the raw JSON string.
     `;
 
-    const requestMessages = [
+    const streamFormat = `
+Output Format:
+First write your conversational reply as plain text (no JSON, no markdown).
+Then, on a new line, write exactly ${CORRECTION_MARKER} followed by either a JSON object with this structure:
+{
+  "original": "The user's text part that was wrong",
+  "corrected": "The corrected version",
+  "explanation": "Specific grammatical explanation (IN ${sourceLangName} - EXTREMELY IMPORTANT)",
+  "category": "The id of the mistake's category, from the list below"
+}
+or the word null if no correction is needed.
+    `;
+
+    const categoryFormat = `
+Correction categories (id: what belongs there):
+${CATEGORY_LIST}
+    `;
+
+    const systemPrompt = instructions + (stream ? streamFormat : jsonFormat) + categoryFormat;
+
+    const requestMessages: LlmMessage[] = [
       { role: "system", content: systemPrompt },
       ...messages
     ];
 
-    const chatRes = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini", // Fast and cheap
+    // Runs alongside the reply; it only reads the learner's side of the conversation
+    const scenarioProgress = scenario
+      ? checkScenarioGoals(scenario, messages, scenarioGoalsMet)
+      : Promise.resolve(null);
+
+    if (stream) {
+      const deltas = llm.stream({ messages: requestMessages, temperature: 0.7 });
+      return new Response(streamTutorResponse(deltas, wasAudio ? userMessage : null, scenarioProgress, remember), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    const [{ data: parsedContent }, scenarioResult] = await Promise.all([
+      llm.complete({
         messages: requestMessages,
         temperature: 0.7,
-        response_format: { type: "json_object" }
+        jsonSchema: CHAT_RESPONSE_SCHEMA,
       }),
-    });
-
-    const chatData = await chatRes.json();
-    const content = chatData.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("No content from OpenAI");
-    }
+      scenarioProgress,
+    ]);
 
-    const parsedContent = JSON.parse(content);
+    const correction = categorized(parsedContent?.correction ?? null);
+    if (correction) await remember(correction);
 
     // If it was audio, we send back the transcription + the reply + correction
     const responseData = {
       ...parsedContent,
-      user_transcript: wasAudio ? userMessage : null
+      correction,
+      user_transcript: wasAudio ? userMessage : null,
+      scenario: scenarioResult,
     };
 
     return new Response(JSON.stringify(responseData), {
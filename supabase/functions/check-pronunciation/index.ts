@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { findLanguage, supportsFeature } from "../_shared/languages.ts";
+import { scorePronunciation } from "../_shared/pronunciation.ts";
+import { requireUsage } from "../_shared/usage.ts";
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const TRANSCRIPTION_MODEL = 'whisper-1';
+
+// About a short paragraph; the app sends one sentence at a time
+const MAX_SENTENCE_LENGTH = 500;
+
+const jsonError = (error: string, status: number) =>
+    new Response(JSON.stringify({ error }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+/**
+ * Transcribe the recording in `language` (ISO 639-1), or let Whisper detect it.
+ * The expected sentence is deliberately not sent as a prompt: Whisper would
+ * lean towards it and hear words the learner did not say.
+ */
+async function transcribe(audioBase64: string, language: string | null, apiKey: string): Promise<string> {
+    const binary = atob(audioBase64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([bytes], { type: 'audio/m4a' }), 'attempt.m4a');
+    form.append('model', TRANSCRIPTION_MODEL);
+    if (language) form.append('language', language);
+
+    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        body: form,
+    });
+    const data = await response.json();
+    if (!response.ok || data.error) {
+        throw new Error(`Whisper Error: ${data.error?.message ?? response.status}`);
+    }
+    return typeof data.text === 'string' ? data.text.trim() : '';
+}
+
+serve(async (req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        const { audio_base64, expected_text, language } = await req.json();
+
+        if (!audio_base64 || typeof audio_base64 !== 'string') {
+            return jsonError('Missing or invalid "audio_base64" parameter', 400);
+        }
+        if (!expected_text || typeof expected_text !== 'string' || !expected_text.trim()) {
+            return jsonError('Missing or invalid "expected_text" parameter', 400);
+        }
+        if (expected_text.length > MAX_SENTENCE_LENGTH) {
+            return jsonError(`"expected_text" is longer than ${MAX_SENTENCE_LENGTH} characters`, 400);
+        }
+        if (language != null && !supportsFeature(language, 'pronunciation')) {
+            return jsonError(`Pronunciation practice does not support ${language}`, 400);
+        }
+
+        const apiKey = Deno.env.get("OPENAI_API_KEY");
+        if (!apiKey) {
+            console.error('OPENAI_API_KEY not found in environment');
+            return jsonError('OpenAI API key not configured', 500);
+        }
+
+        const usage = await requireUsage(req, 'pronunciation_check', {
+            headers: corsHeaders,
+            metadata: { language, textLength: expected_text.length },
+        });
+        if (usage instanceof Response) return usage;
+
+        const languageCode = findLanguage(language)?.code ?? null;
+        let transcript: string;
+        try {
+            transcript = await transcribe(audio_base64, languageCode, apiKey);
+        } catch (err) {
+            console.error('Transcription failed', err);
+            return jsonError('Transcription failed: ' + err.message, 500);
+        }
+
+        const result = scorePronunciation(expected_text, transcript, languageCode);
+        console.log('Pronunciation check - language:', languageCode, 'score:', result.score);
+
+        return new Response(JSON.stringify(result), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+
+    } catch (err) {
+        console.error('Pronunciation check error:', err);
+        return jsonError(err.message || 'Unknown error', 500);
+    }
+});
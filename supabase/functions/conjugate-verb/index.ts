@@ -1,15 +1,25 @@
 import { serve as serveConjugate } from "https://deno.land/std@0.192.0/http/server.ts";
+import { findLanguage, supportsFeature } from "../_shared/languages.ts";
+import { cached } from "../_shared/cache.ts";
+import { createLlm, LlmError } from "../_shared/llm.ts";
+import { DATA_RULES, INPUT_LIMITS, inputErrorResponse, PromptInputError, userInput } from "../_shared/prompts.ts";
+import { CONJUGATION_RESPONSE_SCHEMA } from "../_shared/schemas.ts";
+import { requireUsage } from "../_shared/usage.ts";
 
 console.log('conjugate-verb function file loaded');
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+const llm = createLlm("conjugate-verb", { defaultModel: "gpt-4o" });
 
+// Cache version of the templates below; bump when changing them
+const PROMPT_VERSION = 2;
 
+
+// Keyed by ISO 639-1 code; one entry per language with the 'conjugation' feature
 const templates: Record<string, string> = {
-    english: `Conjugate the English verb "{{infinitive}}" in present simple, past simple, and future simple.
+    en: `Conjugate the English verb in the user_input block in present simple, past simple, and future simple.
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "english",
   "conjugation": {
     "present_simple": {
@@ -22,7 +32,7 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    italian: `Conjugate the Italian verb "{{infinitive}}" in the following moods and tenses:
+    it: `Conjugate the Italian verb in the user_input block in the following moods and tenses:
 - Indicativo: presente, imperfetto, passato prossimo, futuro semplice
 - Congiuntivo: presente, imperfetto
 - Condizionale: presente
@@ -30,7 +40,7 @@ IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a co
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "italian",
   "conjugation": {
     "indicativo": {
@@ -51,7 +61,7 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    spanish: `Conjugate the Spanish verb "{{infinitive}}" in the following:
+    es: `Conjugate the Spanish verb in the user_input block in the following:
 - Indicativo: presente, pretérito, imperfecto, futuro
 - Subjuntivo: presente
 - Condicional: simple
@@ -59,7 +69,7 @@ IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a co
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "spanish",
   "conjugation": {
     "indicativo": {
@@ -81,7 +91,7 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    french: `Conjugate the French verb "{{infinitive}}" in:
+    fr: `Conjugate the French verb in the user_input block in:
 - Indicatif: présent, imparfait, futur simple, passé composé
 - Subjonctif: présent
 - Conditionnel: présent
@@ -89,7 +99,7 @@ IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a co
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "french",
   "conjugation": {
     "indicatif": {
@@ -111,7 +121,7 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    german: `Conjugate the German verb "{{infinitive}}" in:
+    de: `Conjugate the German verb in the user_input block in:
 - Präsens
 - Präteritum
 - Perfekt
@@ -119,7 +129,7 @@ IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a co
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "german",
   "conjugation": {
     "präsens": { ... },
@@ -130,7 +140,7 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    portuguese: `Conjugate the Portuguese verb "{{infinitive}}" in:
+    pt: `Conjugate the Portuguese verb in the user_input block in:
 - Presente, pretérito perfeito, imperfeito, futuro
 - Subjuntivo: presente
 - Condicional: simples
@@ -138,7 +148,7 @@ IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a co
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "portuguese",
   "conjugation": {
     "presente": { ... },
@@ -152,12 +162,12 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    russian: `Conjugate the Russian verb "{{infinitive}}" in:
+    ru: `Conjugate the Russian verb in the user_input block in:
 - Present, past, and future
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "russian",
   "conjugation": {
     "present": { ... },
@@ -167,13 +177,13 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    japanese: `Conjugate the Japanese verb "{{infinitive}}" in:
+    ja: `Conjugate the Japanese verb in the user_input block in:
 - Present plain: positive, negative
 - Past plain: positive, negative
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "japanese",
   "conjugation": {
     "present_plain": {
@@ -188,13 +198,13 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    korean: `Conjugate the Korean verb "{{infinitive}}" in:
+    ko: `Conjugate the Korean verb in the user_input block in:
 - Present: formal, informal
 - Past: formal, informal
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "korean",
   "conjugation": {
     "present": {
@@ -209,12 +219,12 @@ Format response:
 }
 IMPORTANT: Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.`,
 
-    chinese: `Conjugate the Mandarin Chinese verb "{{infinitive}}" in:
+    zh: `Conjugate the Mandarin Chinese verb in the user_input block in:
 - Present, past, future
 
 Format response:
 {
-  "infinitive": "{{infinitive}}",
+  "infinitive": "<the verb as given>",
   "language": "chinese",
   "conjugation": {
     "present": { "form": "..." },
@@ -229,11 +239,6 @@ console.log('About to call serveConjugate');
 serveConjugate(async (req) => {
     try {
         console.log('Function invoked');
-        if (!OPENAI_API_KEY) {
-            console.error('OPENAI_API_KEY not set');
-            return new Response(JSON.stringify({ error: "OPENAI_API_KEY not set" }), { status: 500 });
-        }
-
         const { infinitive, language } = await req.json();
         console.log('Parsed request:', { infinitive, language });
         if (!infinitive || !language) {
@@ -241,35 +246,55 @@ serveConjugate(async (req) => {
             return new Response(JSON.stringify({ error: "Missing infinitive or language" }), { status: 400 });
         }
 
-        const template = templates[language.toLowerCase()];
-        if (!template) {
+        // Callers pass the detected language name ("italian"); codes work too
+        const lang = findLanguage(language);
+        const template = lang && supportsFeature(lang.code, 'conjugation') ? templates[lang.code] : undefined;
+        if (!lang || !template) {
             console.log('Unsupported language:', language);
             return new Response(JSON.stringify({ error: "Unsupported language" }), { status: 400 });
         }
 
-        const prompt = template.replace(/{{infinitive}}/g, infinitive);
+        let verbBlock: string;
+        try {
+            verbBlock = userInput('infinitive', infinitive, INPUT_LIMITS.verbInfinitive);
+        } catch (e) {
+            if (e instanceof PromptInputError) return inputErrorResponse(e);
+            throw e;
+        }
+        const verb = infinitive.trim();
+
+        const usage = await requireUsage(req, 'verb_conjugation', { metadata: { infinitive: verb, language } });
+        if (usage instanceof Response) return usage;
+
+        const prompt = `${template}\n\n${verbBlock}`;
         console.log('Prompt:', prompt);
 
-        const res = await fetch("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                Authorization: `Bearer ${OPENAI_API_KEY}`,
-                "Content-Type": "application/json",
+        const { value } = await cached(
+            {
+                feature: 'verb_conjugation',
+                promptVersion: PROMPT_VERSION,
+                input: verb.toLowerCase(),
+                language: lang.code,
             },
-            body: JSON.stringify({
-                model: "gpt-4o",
-                messages: [
-                    { role: "system", content: "You are a verb conjugation engine. Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object." },
-                    { role: "user", content: prompt },
-                ],
-                temperature: 0,
-            }),
-        });
-
-        const data = await res.json();
-        const content = data.choices?.[0]?.message?.content || "{}";
-        return new Response(content, { headers: { "Content-Type": "application/json" } });
+            async () => {
+                const { data } = await llm.complete({
+                    messages: [
+                        { role: "system", content: `You are a verb conjugation engine. Return ONLY a valid JSON object. Do NOT use markdown, do NOT use a code block, do NOT add any explanation or extra text. Only output the JSON object.\n${DATA_RULES}` },
+                        { role: "user", content: prompt },
+                    ],
+                    temperature: 0,
+                    jsonSchema: CONJUGATION_RESPONSE_SCHEMA,
+                });
+                return data!;
+            },
+            { schema: CONJUGATION_RESPONSE_SCHEMA }
+        );
+        return new Response(JSON.stringify(value), { headers: { "Content-Type": "application/json" } });
     } catch (e) {
+        if (e instanceof LlmError) {
+            console.error('Conjugate-verb model error:', e.message);
+            return new Response(JSON.stringify({ error: "The model did not return a valid conjugation table" }), { status: 500 });
+        }
         console.error('Conjugate-verb function error:', e);
         return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
     }
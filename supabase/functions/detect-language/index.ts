@@ -1,47 +1,38 @@
 import { serve } from "https://deno.land/std@0.192.0/http/server.ts";
 import { franc } from "npm:franc";
+import { getLanguagesWithFeature } from "../_shared/languages.ts";
+import { cached } from "../_shared/cache.ts";
+import { createLlm } from "../_shared/llm.ts";
+import { DATA_RULES, INPUT_LIMITS, inputErrorResponse, PromptInputError, userInput } from "../_shared/prompts.ts";
+import { requireUsage } from "../_shared/usage.ts";
 
-// GPT API key (set this in your Supabase project secrets!)
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+const llm = createLlm("detect-language", { defaultModel: "gpt-4o" });
 
-const isoToLang: Record<string, string> = {
-    eng: "english",
-    spa: "spanish",
-    fra: "french",
-    deu: "german",
-    ita: "italian",
-    por: "portuguese",
-    rus: "russian",
-    jpn: "japanese",
-    kor: "korean",
-    cmn: "chinese"
-};
+// Cache version of the prompt below; bump when changing it
+const PROMPT_VERSION = 1;
 
-async function detectWithGPT(sentence: string): Promise<string> {
+// franc code -> lowercase English name, for the languages the CEFR checker analyses
+const isoToLang: Record<string, string> = Object.fromEntries(
+    getLanguagesWithFeature('cefr').map(lang => [lang.franc, lang.name.toLowerCase()])
+);
+
+async function detectWithGPT(sentenceBlock: string): Promise<string> {
     const prompt = `
-                            Detect the language of this sentence. Only return the lowercase name, like "italian", "french", etc.
-                            
-                            Sentence: "${sentence}"
+                            Detect the language of the sentence in the user_input block. Only return the lowercase name, like "italian", "french", etc.
+
+                            ${sentenceBlock}
                             `;
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${OPENAI_API_KEY}`,
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-            model: "gpt-4o",
-            messages: [
-                { role: "system", content: "You are a language detector. Return only the language name in lowercase." },
-                { role: "user", content: prompt },
-            ],
-            temperature: 0,
-        }),
+    const { text } = await llm.complete({
+        messages: [
+            { role: "system", content: `You are a language detector. Return only the language name in lowercase.\n${DATA_RULES}` },
+            { role: "user", content: prompt },
+        ],
+        temperature: 0,
     });
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content?.trim().toLowerCase() || "unknown";
+    // Anything but a bare language name means the model went off task
+    const language = text.trim().toLowerCase();
+    return /^[a-z -]{2,30}$/.test(language) ? language : "unknown";
 }
 
 serve(async (req) => {
@@ -51,12 +42,27 @@ serve(async (req) => {
             return new Response(JSON.stringify({ error: "Sentence too short" }), { status: 400 });
         }
 
+        let sentenceBlock: string;
+        try {
+            sentenceBlock = userInput('sentence', sentence, INPUT_LIMITS.detectionText);
+        } catch (e) {
+            if (e instanceof PromptInputError) return inputErrorResponse(e);
+            throw e;
+        }
+
+        const usage = await requireUsage(req, 'language_detection');
+        if (usage instanceof Response) return usage;
+
         const langCode = franc(sentence);
         let language = isoToLang[langCode];
 
         if (!language) {
             console.warn(`Language code "${langCode}" not recognized, using GPT for detection.`);
-            language = await detectWithGPT(sentence);
+            ({ value: language } = await cached(
+                { feature: 'language_detection', promptVersion: PROMPT_VERSION, input: sentence },
+                () => detectWithGPT(sentenceBlock),
+                { shouldCache: detected => detected !== "unknown" }
+            ));
         }
         else {
             console.log(`Detected language from franc: ${language}`);
@@ -1,16 +1,20 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cached } from "../_shared/cache.ts";
+import { findLanguage } from "../_shared/languages.ts";
+import { createLlm } from "../_shared/llm.ts";
+import { DATA_RULES, INPUT_LIMITS, inputErrorResponse, languageName, PromptInputError, userInput } from "../_shared/prompts.ts";
+import { PREMIUM_TRANSLATION_FEATURES_SCHEMA, PRONUNCIATION_SCHEMA } from "../_shared/schemas.ts";
+import { getUserTier, requireUsage } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-async function hashPrompt(prompt: string): Promise<string> {
-  const data = new TextEncoder().encode(prompt);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
-}
+const llm = createLlm("enhance-translation", { defaultModel: "gpt-4o-mini" });
+
+// Cache version of the prompts below; bump when changing them
+const PROMPT_VERSION = 1;
 
 serve(async (req) => {
   // Handle CORS
@@ -19,27 +23,47 @@ serve(async (req) => {
   }
 
   try {
-    const { text, sourceLang, targetLang, isPremium } = await req.json();
+    const { text, sourceLang, targetLang } = await req.json();
 
     if (!text || !targetLang) {
         throw new Error("Missing required fields: text, targetLang");
     }
 
-    const source = sourceLang || 'English';
+    let textBlock: string;
+    let target: string;
+    let source: string;
+    try {
+        textBlock = userInput('text', text, INPUT_LIMITS.translationText);
+        target = languageName(targetLang);
+        source = sourceLang && sourceLang !== 'auto' ? languageName(sourceLang) : 'English';
+    } catch (e) {
+        if (e instanceof PromptInputError) return inputErrorResponse(e, corsHeaders);
+        throw e;
+    }
+
+    const usage = await requireUsage(req, 'translation_features', {
+        headers: corsHeaders,
+        metadata: { sourceLang, targetLang, textLength: text.length },
+    });
+    if (usage instanceof Response) return usage;
+
+    // The full set of features is a premium perk, so the tier comes from the profile
+    const isPremium = (await getUserTier(usage.userId)) === 'premium';
+    const schema = isPremium ? PREMIUM_TRANSLATION_FEATURES_SCHEMA : PRONUNCIATION_SCHEMA;
     
     let prompt = "";
 
     if (isPremium) {
         // Premium: Fetch everything
         prompt = `
-        You are a language tutor. Analyze the phrase/word "${text}" (which is in ${targetLang}) and provide enrichment data for a student who speaks ${source}.
+        You are a language tutor. Analyze the ${target} phrase/word in the user_input block below and provide enrichment data for a student who speaks ${source}.
 
         Return ONLY a valid JSON object with the following keys:
-        1. "pronunciation": The phonetic transcription (IPA or standard phonetic) of "${text}".
-        2. "meaning": A concise explanation of the meaning and context of "${text}" in ${source}.
-        3. "examples": An array of 3 diverse usage examples in ${targetLang}, with "target" (sentence) and "source" (translation in ${source}).
-        4. "synonyms": An array of 3 synonyms in ${targetLang}, with "word" and "nuance" (explanation in ${source}).
-        5. "tone": An array of 3 rewritten versions in ${targetLang} with different tones ("Formal", "Informal", "Slang"), including "tone", "text", and "context" (explanation in ${source}).
+        1. "pronunciation": The phonetic transcription (IPA or standard phonetic) of the phrase/word.
+        2. "meaning": A concise explanation of its meaning and context, in ${source}.
+        3. "examples": An array of 3 diverse usage examples in ${target}, with "target" (sentence) and "source" (translation in ${source}).
+        4. "synonyms": An array of 3 synonyms in ${target}, with "word" and "nuance" (explanation in ${source}).
+        5. "tone": An array of 3 rewritten versions in ${target} with different tones ("Formal", "Informal", "Slang"), including "tone", "text", and "context" (explanation in ${source}).
 
         JSON Format:
         {
@@ -49,88 +73,47 @@ serve(async (req) => {
           "synonyms": [ { "word": "...", "nuance": "..." } ],
           "tone": [ { "tone": "Formal", "text": "...", "context": "..." } ]
         }
+
+        ${textBlock}
         `;
     } else {
         // Free: Fetch only pronunciation
         prompt = `
-        You are a language tutor. Provide the phonetic pronunciation for the phrase/word "${text}" (which is in ${targetLang}).
+        You are a language tutor. Provide the phonetic pronunciation for the ${target} phrase/word in the user_input block below.
 
         Return ONLY a valid JSON object with the following key:
-        1. "pronunciation": The phonetic transcription (IPA or standard phonetic) of "${text}".
+        1. "pronunciation": The phonetic transcription (IPA or standard phonetic) of the phrase/word.
 
         JSON Format:
         {
           "pronunciation": "..."
         }
-        `;
-    }
-
-    const prompt_hash = await hashPrompt(prompt);
-    
-    // Initialize Supabase Client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
-    if (!supabaseUrl || !supabaseKey) {
-        throw new Error("Missing Supabase configuration");
-    }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Check cache
-    const { data: cacheHit } = await supabase
-        .from('openai_cache')
-        .select('response, created_at')
-        .eq('prompt_hash', prompt_hash)
-        .maybeSingle();
-        
-    if (cacheHit && cacheHit.response) {
-         console.log('[CACHE HIT]', prompt_hash);
-         return new Response(JSON.stringify(cacheHit.response), {
-            headers: { ...corsHeaders, "Content-Type": "application/json" }
-         });
+        ${textBlock}
+        `;
     }
 
-    // Call OpenAI
-    const apiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!apiKey) throw new Error("Missing OpenAI API Key");
-
-    const openaiRes = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json"
+    const { value: parsedContent } = await cached(
+        {
+            feature: 'translation_features',
+            promptVersion: PROMPT_VERSION,
+            input: text,
+            language: findLanguage(targetLang)?.code ?? target,
+            params: { source, premium: isPremium },
         },
-        body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [{ role: "user", content: prompt }],
-            temperature: 0.7,
-            response_format: { type: "json_object" }
-        })
-    });
-
-    if (!openaiRes.ok) {
-        const errorText = await openaiRes.text();
-        console.error("OpenAI API Error:", errorText);
-        throw new Error(`OpenAI API error: ${openaiRes.status} ${errorText}`);
-    }
-
-    const data = await openaiRes.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-        throw new Error("No content received from OpenAI");
-    }
-
-    const parsedContent = JSON.parse(content);
-
-    // Cache result
-    await supabase.from('openai_cache').upsert({
-        prompt_hash,
-        prompt,
-        response: parsedContent,
-        created_at: new Date().toISOString()
-    }, { onConflict: 'prompt_hash' });
+        async () => {
+            const { data } = await llm.complete({
+                messages: [
+                    { role: "system", content: DATA_RULES },
+                    { role: "user", content: prompt },
+                ],
+                temperature: 0.7,
+                jsonSchema: schema,
+            });
+            return data!;
+        },
+        { schema }
+    );
 
     return new Response(JSON.stringify(parsedContent), {
         headers: { ...corsHeaders, "Content-Type": "application/json" }
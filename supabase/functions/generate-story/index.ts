@@ -1,22 +1,18 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getLanguageName, supportsFeature } from "../_shared/languages.ts";
+import { createLlm } from "../_shared/llm.ts";
+import { DATA_RULES, INPUT_LIMITS, inputErrorResponse, PromptInputError, userInput } from "../_shared/prompts.ts";
+import { GENERATED_STORY_SCHEMA } from "../_shared/schemas.ts";
+import { requireUsage } from "../_shared/usage.ts";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const languageMap: { [key: string]: string } = {
-    'en': 'English',
-    'es': 'Spanish',
-    'fr': 'French',
-    'de': 'German',
-    'it': 'Italian',
-    'pt': 'Portuguese',
-    'ru': 'Russian',
-    'ja': 'Japanese',
-    'ko': 'Korean',
-    'zh': 'Chinese'
-};
+const llm = createLlm("generate-story", { defaultModel: "gpt-4o-mini" });
+
+const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
 
 serve(async (req) => {
     // Handle CORS preflight
@@ -26,23 +22,44 @@ serve(async (req) => {
 
     try {
         const { target_lang, cefr_level, topic } = await req.json();
-        const apiKey = Deno.env.get("OPENAI_API_KEY");
-
-        if (!apiKey) {
-            throw new Error("Missing OpenAI API Key");
-        }
 
         if (!target_lang || !cefr_level) {
             throw new Error("Missing required parameters: target_lang, cefr_level");
         }
 
-        const targetLanguage = languageMap[target_lang] || target_lang;
+        if (!CEFR_LEVELS.includes(cefr_level)) {
+            return new Response(
+                JSON.stringify({ error: `Unknown CEFR level: ${cefr_level}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (!supportsFeature(target_lang, 'story')) {
+            return new Response(
+                JSON.stringify({ error: `Stories are not available for ${target_lang}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
 
         // Handle AI-picked topic
         const isAiPick = topic === '__AI_PICK__' || !topic;
-        const topicInstruction = isAiPick
-            ? 'Choose your own creative and interesting topic for the story. Be creative and varied - don\'t repeat common themes.'
-            : `about: "${topic}"`;
+        let topicInstruction: string;
+        try {
+            topicInstruction = isAiPick
+                ? 'Choose your own creative and interesting topic for the story. Be creative and varied - don\'t repeat common themes.'
+                : `about the topic in this user_input block:\n${userInput('topic', topic, INPUT_LIMITS.storyTopic)}\n`;
+        } catch (e) {
+            if (e instanceof PromptInputError) return inputErrorResponse(e, corsHeaders);
+            throw e;
+        }
+
+        const usage = await requireUsage(req, 'story_generation', {
+            headers: corsHeaders,
+            metadata: { target_lang, cefr_level },
+        });
+        if (usage instanceof Response) return usage;
+
+        const targetLanguage = getLanguageName(target_lang);
 
         const systemPrompt = `You are a language learning content creator. Your task is to write engaging short stories for language learners at specific CEFR levels.
 
@@ -53,7 +70,9 @@ IMPORTANT:
 - CEFR B1-B2: Compound sentences, varied vocabulary, multiple tenses.
 - CEFR C1-C2: Complex structures, idiomatic expressions, nuanced vocabulary.
 
-Always respond with ONLY a valid JSON object. No markdown, no code blocks.`;
+Always respond with ONLY a valid JSON object. No markdown, no code blocks.
+
+${DATA_RULES}`;
 
         const userPrompt = `Write a short story in ${targetLanguage} at CEFR ${cefr_level} level ${topicInstruction}
 
@@ -77,43 +96,15 @@ Return this exact JSON structure:
   ]
 }`;
 
-        const chatRes = await fetch("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                model: "gpt-4o-mini",
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: userPrompt }
-                ],
-                temperature: 0.8,
-                response_format: { type: "json_object" }
-            }),
+        const { data: storyData } = await llm.complete({
+            messages: [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: userPrompt }
+            ],
+            temperature: 0.8,
+            jsonSchema: GENERATED_STORY_SCHEMA,
         });
 
-        const chatData = await chatRes.json();
-
-        if (chatData.error) {
-            console.error("OpenAI Error:", chatData.error);
-            throw new Error(`OpenAI Error: ${chatData.error.message}`);
-        }
-
-        const content = chatData.choices?.[0]?.message?.content;
-
-        if (!content) {
-            throw new Error("No content returned from OpenAI");
-        }
-
-        // Parse and validate the response
-        const storyData = JSON.parse(content);
-
-        if (!storyData.title || !storyData.story || !storyData.questions) {
-            throw new Error("Invalid response structure from AI");
-        }
-
         return new Response(JSON.stringify(storyData), {
             headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
@@ -0,0 +1,72 @@
+// supabase/functions/merge-guest-account/index.ts
+// Moves a guest's data into the account they just signed in to. Used when a
+// guest tries to save their progress with an email that already has an
+// account, so linking the email to the guest is not possible.
+//
+// The caller is the signed-in account; the body carries the guest's access
+// token, which proves the caller held that guest session.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createAdminClient, getRequestUser } from "../_shared/usage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return jsonResponse({ error: 'A signed-in session is required' }, 401);
+    }
+    if (user.is_anonymous) {
+      return jsonResponse({ error: 'Sign in to the account that should keep the data first' }, 400);
+    }
+
+    const { guest_token: guestToken } = await req.json();
+    if (!guestToken || typeof guestToken !== 'string') {
+      return jsonResponse({ error: 'Missing guest_token' }, 400);
+    }
+
+    const admin = createAdminClient();
+    const { data: guestData, error: guestError } = await admin.auth.getUser(guestToken);
+    const guest = guestData?.user;
+    if (guestError || !guest) {
+      return jsonResponse({ error: 'The guest session has expired' }, 401);
+    }
+    if (!guest.is_anonymous) {
+      return jsonResponse({ error: 'Only guest accounts can be merged' }, 400);
+    }
+
+    const { data: moved, error: mergeError } = await admin.rpc('merge_guest_account', {
+      p_guest_id: guest.id,
+      p_user_id: user.id,
+    });
+    if (mergeError) {
+      console.error('merge_guest_account failed:', mergeError);
+      return jsonResponse({ error: 'Failed to move the guest data' }, 500);
+    }
+    console.log('Merged guest', guest.id, 'into', user.id, moved);
+
+    // Whatever was not moved (profile, preferences) goes with the guest
+    const { error: deleteError } = await admin.auth.admin.deleteUser(guest.id);
+    if (deleteError) console.error('Failed to delete merged guest:', deleteError);
+
+    return jsonResponse({ moved });
+  } catch (err) {
+    console.error('Merge guest account error:', err);
+    return jsonResponse({ error: err.message || 'Unknown error' }, 500);
+  }
+});
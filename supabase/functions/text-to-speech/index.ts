@@ -1,13 +1,142 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { createAdminClient, requireUsage } from "../_shared/usage.ts";
+import { DEFAULT_PREMIUM_VOICE, isPremiumVoice, PREMIUM_VOICES } from "../_shared/voices.ts";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// OpenAI TTS voices - all support multiple languages
-// alloy, echo, fable, onyx, nova, shimmer
-const DEFAULT_VOICE = 'nova'; // Natural, warm female voice
+// OpenAI TTS voices (see _shared/voices.ts) - all support multiple languages
+const TTS_MODEL = 'tts-1'; // Use tts-1 for speed, tts-1-hd for quality
+
+// Synthesized audio is kept in this private bucket, so the same text is only paid for once
+const AUDIO_BUCKET = 'tts-audio';
+
+/** Storage path for a synthesis: SHA-256 of everything that changes the audio. */
+async function audioPath(text: string, voice: string, language: string | null): Promise<string> {
+    const key = JSON.stringify([TTS_MODEL, voice, language, text.normalize('NFC').trim()]);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    const hash = Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `${voice}/${hash}.mp3`;
+}
+
+// Word timings come from transcribing the synthesized audio
+const TIMINGS_MODEL = 'whisper-1';
+
+/** A word of the request text (by character offset) and when it is spoken, in seconds. */
+interface WordTiming {
+    charIndex: number;
+    charLength: number;
+    start: number;
+    end: number;
+}
+
+interface TranscribedWord {
+    word: string;
+    start: number;
+    end: number;
+}
+
+// Timings are stored next to the clip they describe
+const timingsPath = (audioPath: string) => audioPath.replace(/\.mp3$/, '.words.json');
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/** Word-level timestamps of `audio` from Whisper; an empty list if transcription fails. */
+async function transcribeWords(audio: ArrayBuffer, language: string | null, apiKey: string): Promise<TranscribedWord[]> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: 'audio/mpeg' }), 'speech.mp3');
+    form.append('model', TIMINGS_MODEL);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    if (language) form.append('language', language.split('-')[0].toLowerCase());
+
+    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        body: form,
+    });
+    if (!response.ok) {
+        console.error('Whisper timing error:', response.status, await response.text());
+        return [];
+    }
+    const data = await response.json();
+    return Array.isArray(data.words) ? data.words : [];
+}
+
+/**
+ * Match the transcript back onto the words of `text`. Transcribed words are
+ * consumed in order, looking a few words ahead to get past ones Whisper
+ * merged, split or spelled differently (numbers, names); text words left
+ * without a match share the gap between their matched neighbours.
+ */
+function alignWords(text: string, transcript: TranscribedWord[]): WordTiming[] {
+    const tokens = Array.from(text.matchAll(/[\p{L}\p{N}'’-]+/gu), match => ({
+        charIndex: match.index ?? 0,
+        charLength: match[0].length,
+        key: normalizeWord(match[0]),
+    }));
+    if (!tokens.length || !transcript.length) return [];
+
+    const LOOK_AHEAD = 4;
+    const matched: (TranscribedWord | null)[] = [];
+    let next = 0;
+    for (const token of tokens) {
+        let found: TranscribedWord | null = null;
+        for (let j = next; j < Math.min(next + LOOK_AHEAD, transcript.length); j++) {
+            if (token.key && normalizeWord(transcript[j].word) === token.key) {
+                found = transcript[j];
+                next = j + 1;
+                break;
+            }
+        }
+        matched.push(found);
+    }
+
+    const timings: WordTiming[] = [];
+    const audioEnd = transcript[transcript.length - 1].end;
+    for (let i = 0; i < tokens.length; i++) {
+        const hit = matched[i];
+        if (hit) {
+            timings.push({ charIndex: tokens[i].charIndex, charLength: tokens[i].charLength, start: hit.start, end: hit.end });
+            continue;
+        }
+        // Spread the unmatched run evenly between the surrounding matches
+        let runEnd = i;
+        while (runEnd < tokens.length && !matched[runEnd]) runEnd++;
+        const from = timings.length ? timings[timings.length - 1].end : 0;
+        const to = runEnd < tokens.length ? matched[runEnd]!.start : audioEnd;
+        const step = Math.max(to - from, 0) / (runEnd - i);
+        for (let k = i; k < runEnd; k++) {
+            const start = from + step * (k - i);
+            timings.push({ charIndex: tokens[k].charIndex, charLength: tokens[k].charLength, start, end: start + step });
+        }
+        i = runEnd - 1;
+    }
+    return timings;
+}
+
+const audioResponse = (audio: ArrayBuffer, cacheStatus: 'hit' | 'miss') =>
+    new Response(audio, {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'audio/mpeg',
+            'Content-Length': audio.byteLength.toString(),
+            'X-TTS-Cache': cacheStatus,
+        },
+    });
+
+/** Audio and word timings together, for clients that highlight along with playback. */
+const timedAudioResponse = (audio: ArrayBuffer, words: WordTiming[], cacheStatus: 'hit' | 'miss') =>
+    new Response(JSON.stringify({ audio: encodeBase64(audio), words }), {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'X-TTS-Cache': cacheStatus,
+        },
+    });
 
 serve(async (req) => {
     // Handle CORS preflight
@@ -16,7 +145,7 @@ serve(async (req) => {
     }
 
     try {
-        const { text, language, voice } = await req.json();
+        const { text, language, voice, with_timings: withTimings } = await req.json();
 
         if (!text || typeof text !== 'string') {
             return new Response(
@@ -25,6 +154,14 @@ serve(async (req) => {
             );
         }
 
+        // The voice also names the storage folder, so only known voices get through
+        if (voice != null && !isPremiumVoice(voice)) {
+            return new Response(
+                JSON.stringify({ error: `Unknown voice. Use one of: ${PREMIUM_VOICES.map(v => v.id).join(', ')}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
         const apiKey = Deno.env.get("OPENAI_API_KEY");
         if (!apiKey) {
             console.error('OPENAI_API_KEY not found in environment');
@@ -34,48 +171,85 @@ serve(async (req) => {
             );
         }
 
+        const usage = await requireUsage(req, 'text_to_speech', {
+            headers: corsHeaders,
+            metadata: { language, textLength: text.length },
+        });
+        if (usage instanceof Response) return usage;
+
         // Use provided voice or default
-        const selectedVoice = voice || DEFAULT_VOICE;
+        const selectedVoice = voice ?? DEFAULT_PREMIUM_VOICE;
         console.log('TTS request - voice:', selectedVoice, 'text length:', text.length);
 
-        // Call OpenAI TTS API
-        const response = await fetch('https://api.openai.com/v1/audio/speech', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'tts-1', // Use tts-1 for speed, tts-1-hd for quality
-                input: text,
-                voice: selectedVoice,
-                response_format: 'mp3',
-            }),
-        });
+        // Stored audio is served without calling OpenAI; storage errors just mean a miss
+        const storage = createAdminClient().storage.from(AUDIO_BUCKET);
+        const path = await audioPath(text, selectedVoice, language ?? null);
+        const { data: stored } = await storage.download(path);
+        let audioBuffer: ArrayBuffer | null = stored ? await stored.arrayBuffer() : null;
+        const cacheStatus = audioBuffer ? 'hit' : 'miss';
+        if (audioBuffer && !withTimings) {
+            console.log('TTS cache hit:', path);
+            return audioResponse(audioBuffer, 'hit');
+        }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('OpenAI TTS API error:', response.status, errorText);
-            return new Response(
-                JSON.stringify({
-                    error: `OpenAI TTS API error: ${response.status}`,
-                    details: errorText
+        if (!audioBuffer) {
+            // Call OpenAI TTS API
+            const response = await fetch('https://api.openai.com/v1/audio/speech', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    model: TTS_MODEL,
+                    input: text,
+                    voice: selectedVoice,
+                    response_format: 'mp3',
                 }),
-                { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            );
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                console.error('OpenAI TTS API error:', response.status, errorText);
+                return new Response(
+                    JSON.stringify({
+                        error: `OpenAI TTS API error: ${response.status}`,
+                        details: errorText
+                    }),
+                    { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            // Stream the audio response
+            audioBuffer = await response.arrayBuffer();
+            console.log('TTS success - audio size:', audioBuffer.byteLength, 'bytes');
+
+            const { error: uploadError } = await storage.upload(path, audioBuffer, {
+                contentType: 'audio/mpeg',
+                upsert: true,
+            });
+            if (uploadError) console.error('Failed to store TTS audio:', uploadError);
         }
 
-        // Stream the audio response
-        const audioBuffer = await response.arrayBuffer();
-        console.log('TTS success - audio size:', audioBuffer.byteLength, 'bytes');
+        if (!withTimings) return audioResponse(audioBuffer, 'miss');
 
-        return new Response(audioBuffer, {
-            headers: {
-                ...corsHeaders,
-                'Content-Type': 'audio/mpeg',
-                'Content-Length': audioBuffer.byteLength.toString(),
-            },
-        });
+        const wordsFile = timingsPath(path);
+        const { data: storedWords } = await storage.download(wordsFile);
+        if (storedWords) {
+            return timedAudioResponse(audioBuffer, JSON.parse(await storedWords.text()), cacheStatus);
+        }
+
+        const words = alignWords(text, await transcribeWords(audioBuffer, language ?? null, apiKey));
+        console.log('TTS timings - words:', words.length);
+        // Not stored when transcription failed, so the next request tries again
+        if (words.length) {
+            const { error: timingsError } = await storage.upload(wordsFile, JSON.stringify(words), {
+                contentType: 'application/json',
+                upsert: true,
+            });
+            if (timingsError) console.error('Failed to store TTS timings:', timingsError);
+        }
+        return timedAudioResponse(audioBuffer, words, cacheStatus);
 
     } catch (err) {
         console.error('TTS Error:', err);
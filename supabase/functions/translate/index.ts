@@ -0,0 +1,143 @@
+// supabase/functions/translate/index.ts
+// Proxies DeepL so the API key stays on the server.
+// Request/response mirror the client's translateWithDeepL contract.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { INPUT_LIMITS } from "../_shared/inputLimits.ts";
+import { findLanguage, supportsFeature } from "../_shared/languages.ts";
+import { refundUsage, requireUsage, UsageGrant } from "../_shared/usage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEEPL_ENDPOINTS = {
+  free: 'https://api-free.deepl.com/v2/translate',
+  pro: 'https://api.deepl.com/v2/translate',
+};
+
+// Same messages the app has always shown for DeepL failures
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'Bad request. Please check your input.',
+  403: 'Invalid API key or insufficient permissions.',
+  413: 'Text too long for translation.',
+  429: 'Too many requests. Please try again later.',
+  456: 'Quota exceeded. Please check your DeepL account.',
+  503: 'Service temporarily unavailable. Please try again later.',
+};
+
+/**
+ * DEEPL_API_PLAN selects the endpoint ("free" or "pro"). When unset, DeepL's
+ * own convention is used: free-plan keys end in ":fx".
+ */
+function getDeepLEndpoint(apiKey: string): string {
+  const plan = Deno.env.get('DEEPL_API_PLAN')?.toLowerCase();
+  if (plan === 'pro') return DEEPL_ENDPOINTS.pro;
+  if (plan === 'free') return DEEPL_ENDPOINTS.free;
+  return apiKey.endsWith(':fx') ? DEEPL_ENDPOINTS.free : DEEPL_ENDPOINTS.pro;
+}
+
+const errorResponse = (message: string, statusCode: number) =>
+  new Response(JSON.stringify({ error: message, statusCode }), {
+    status: statusCode,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Set once the translation is charged; any failure after that is refunded
+  let usage: UsageGrant | null = null;
+
+  try {
+    const { text, sourceLanguage, targetLanguage } = await req.json();
+
+    const apiKey = Deno.env.get('DEEPL_API_KEY');
+    if (!apiKey) {
+      console.error('DEEPL_API_KEY not found in environment');
+      return errorResponse('Translation service is not configured.', 500);
+    }
+
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return errorResponse('Text to translate cannot be empty', 400);
+    }
+    const { maxLength } = INPUT_LIMITS.translationText;
+    if (text.trim().length > maxLength) {
+      return errorResponse(`The text is too long (${text.trim().length} characters, at most ${maxLength})`, 400);
+    }
+
+    // Map app language codes to DeepL format
+    const sourceLang = findLanguage(sourceLanguage)?.deepl;
+    const target = supportsFeature(targetLanguage, 'translation') ? findLanguage(targetLanguage) : undefined;
+    const targetLang = target ? target.deeplTarget ?? target.deepl : null;
+
+    if (!targetLang) {
+      return errorResponse(`Unsupported target language: ${targetLanguage}`, 400);
+    }
+
+    const grant = await requireUsage(req, 'translation', {
+      headers: corsHeaders,
+      metadata: { sourceLang: sourceLanguage, targetLang: targetLanguage, textLength: text.length },
+    });
+    if (grant instanceof Response) return grant;
+    usage = grant;
+
+    const requestBody: Record<string, unknown> = {
+      text: [text], // DeepL API expects text as an array
+      target_lang: targetLang,
+    };
+
+    // Only add source_lang if it's not auto-detect and is supported
+    if (sourceLanguage !== 'auto' && sourceLang) {
+      requestBody.source_lang = sourceLang;
+    }
+
+    const response = await fetch(getDeepLEndpoint(apiKey), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `DeepL-Auth-Key ${apiKey}`,
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      let errorMessage = STATUS_MESSAGES[response.status] ?? `HTTP error! status: ${response.status}`;
+      if (!STATUS_MESSAGES[response.status]) {
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          // Keep default error message if JSON parsing fails
+        }
+      }
+      console.error('DeepL error:', response.status, errorMessage);
+      await refundUsage(usage, 'translation');
+      return errorResponse(errorMessage, response.status);
+    }
+
+    const data = await response.json();
+    const translation = data.translations?.[0];
+
+    if (!translation) {
+      await refundUsage(usage, 'translation');
+      return errorResponse('No translation received from DeepL API', 502);
+    }
+
+    return new Response(JSON.stringify({
+      translatedText: translation.text,
+      detectedSourceLanguage: translation.detected_source_language?.toLowerCase(),
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (err) {
+    console.error('Translate Error:', err);
+    if (usage) await refundUsage(usage, 'translation');
+    return errorResponse(err.message || 'Unknown error occurred during translation', 500);
+  }
+});
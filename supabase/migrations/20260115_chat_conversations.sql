@@ -0,0 +1,88 @@
+-- ============================================
+-- LINGUA FACILE - AI TUTOR CONVERSATIONS
+-- ============================================
+-- Persists AI Tutor threads so practice sessions can be listed and resumed
+
+-- ===========================================
+-- 1. CHAT_CONVERSATIONS TABLE
+-- One row per tutor thread, with the settings it was held in
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  target_lang TEXT NOT NULL,
+  source_lang TEXT NOT NULL,
+  user_level TEXT NOT NULL DEFAULT 'intermediate',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user ON chat_conversations(user_id, updated_at DESC);
+
+-- ===========================================
+-- 2. CHAT_MESSAGES TABLE
+-- Ordered messages of a thread; corrections returned by chat-tutor
+-- are stored as role = 'system' rows with the parsed correction
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL DEFAULT '',
+  is_voice BOOLEAN DEFAULT FALSE,
+  correction JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(conversation_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation ON chat_messages(conversation_id, position);
+
+-- ===========================================
+-- 3. ROW LEVEL SECURITY POLICIES
+-- ===========================================
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own conversations" ON public.chat_conversations;
+DROP POLICY IF EXISTS "Users can insert own conversations" ON public.chat_conversations;
+DROP POLICY IF EXISTS "Users can update own conversations" ON public.chat_conversations;
+DROP POLICY IF EXISTS "Users can delete own conversations" ON public.chat_conversations;
+DROP POLICY IF EXISTS "Users can view own chat messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can insert own chat messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can update own chat messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can delete own chat messages" ON public.chat_messages;
+
+CREATE POLICY "Users can view own conversations" ON public.chat_conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversations" ON public.chat_conversations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations" ON public.chat_conversations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations" ON public.chat_conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own chat messages" ON public.chat_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat messages" ON public.chat_messages
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat messages" ON public.chat_messages
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat messages" ON public.chat_messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 4. TRIGGER: Auto-update updated_at
+-- ===========================================
+DROP TRIGGER IF EXISTS chat_conversations_updated_at ON public.chat_conversations;
+CREATE TRIGGER chat_conversations_updated_at
+  BEFORE UPDATE ON public.chat_conversations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,33 @@
+-- ============================================
+-- LINGUA FACILE - SERVER-SIDE USAGE ENFORCEMENT
+-- ============================================
+-- Edge functions now call log_usage themselves (see supabase/functions/_shared/usage.ts).
+-- This adds the action types for the functions that were previously unmetered.
+
+-- ===========================================
+-- 1. USAGE_LOGS: new action types
+-- ===========================================
+ALTER TABLE public.usage_logs DROP CONSTRAINT IF EXISTS usage_logs_action_type_check;
+ALTER TABLE public.usage_logs ADD CONSTRAINT usage_logs_action_type_check CHECK (action_type IN (
+  'translation',
+  'cefr_analysis',
+  'verb_analysis',
+  'verb_conjugation',
+  'language_detection',
+  'chat_message',
+  'story_generation',
+  'text_to_speech'
+));
+
+-- ===========================================
+-- 2. USAGE_LIMITS: seed new action types
+-- ===========================================
+INSERT INTO public.usage_limits (subscription_tier, action_type, daily_limit, description) VALUES
+  ('free', 'story_generation', 0, 'Story generation (disabled)'),
+  ('free', 'text_to_speech', 0, 'Premium voices (disabled)'),
+  ('premium', 'story_generation', -1, 'Unlimited story generation'),
+  ('premium', 'text_to_speech', -1, 'Unlimited premium voices')
+ON CONFLICT (subscription_tier, action_type) DO UPDATE SET
+  daily_limit = EXCLUDED.daily_limit,
+  description = EXCLUDED.description,
+  updated_at = NOW();
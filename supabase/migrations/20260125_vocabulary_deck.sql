@@ -0,0 +1,60 @@
+-- ============================================
+-- LINGUA FACILE - VOCABULARY DECK
+-- ============================================
+-- Words and phrases saved from the translator, AI Tutor corrections and
+-- stories, reviewed with an SM-2 style scheduler (see utils/srs.ts)
+
+-- ===========================================
+-- 1. VOCABULARY_ITEMS TABLE
+-- One row per saved card, with its current scheduling state
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.vocabulary_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  term TEXT NOT NULL,
+  translation TEXT NOT NULL DEFAULT '',
+  language TEXT NOT NULL,
+  source_lang TEXT,
+  context TEXT,
+  source TEXT NOT NULL CHECK (source IN ('translation', 'synonym', 'correction', 'story')),
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_items_user_due ON vocabulary_items(user_id, due_at);
+
+-- ===========================================
+-- 2. ROW LEVEL SECURITY POLICIES
+-- ===========================================
+ALTER TABLE public.vocabulary_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own vocabulary" ON public.vocabulary_items;
+DROP POLICY IF EXISTS "Users can insert own vocabulary" ON public.vocabulary_items;
+DROP POLICY IF EXISTS "Users can update own vocabulary" ON public.vocabulary_items;
+DROP POLICY IF EXISTS "Users can delete own vocabulary" ON public.vocabulary_items;
+
+CREATE POLICY "Users can view own vocabulary" ON public.vocabulary_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own vocabulary" ON public.vocabulary_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own vocabulary" ON public.vocabulary_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own vocabulary" ON public.vocabulary_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 3. TRIGGER: Auto-update updated_at
+-- ===========================================
+DROP TRIGGER IF EXISTS vocabulary_items_updated_at ON public.vocabulary_items;
+CREATE TRIGGER vocabulary_items_updated_at
+  BEFORE UPDATE ON public.vocabulary_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
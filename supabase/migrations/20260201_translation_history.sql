@@ -0,0 +1,59 @@
+-- ============================================
+-- LINGUA FACILE - TRANSLATION HISTORY
+-- ============================================
+-- Keeps every translation made in the translator, with its enhance-translation
+-- extras, so entries can be searched, starred and restored without re-translating
+
+-- ===========================================
+-- 1. TRANSLATION_HISTORY TABLE
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.translation_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  input_text TEXT NOT NULL,
+  output_text TEXT NOT NULL,
+  source_lang TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  detected_source_lang TEXT,
+  features JSONB,
+  is_favorite BOOLEAN NOT NULL DEFAULT FALSE,
+  -- 'simple' config: entries are in many languages, so no stemming or stop words
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce(input_text, '') || ' ' || coalesce(output_text, ''))
+  ) STORED,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_translation_history_user ON translation_history(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_translation_history_search ON translation_history USING GIN(search_vector);
+
+-- ===========================================
+-- 2. ROW LEVEL SECURITY POLICIES
+-- ===========================================
+ALTER TABLE public.translation_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own translation history" ON public.translation_history;
+DROP POLICY IF EXISTS "Users can insert own translation history" ON public.translation_history;
+DROP POLICY IF EXISTS "Users can update own translation history" ON public.translation_history;
+DROP POLICY IF EXISTS "Users can delete own translation history" ON public.translation_history;
+
+CREATE POLICY "Users can view own translation history" ON public.translation_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own translation history" ON public.translation_history
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own translation history" ON public.translation_history
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own translation history" ON public.translation_history
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 3. TRIGGER: Auto-update updated_at
+-- ===========================================
+DROP TRIGGER IF EXISTS translation_history_updated_at ON public.translation_history;
+CREATE TRIGGER translation_history_updated_at
+  BEFORE UPDATE ON public.translation_history
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,85 @@
+-- ============================================
+-- LINGUA FACILE - STORY LIBRARY
+-- ============================================
+-- Keeps generated stories and every comprehension quiz taken on them, so
+-- stories can be reopened and retaken and accuracy tracked per CEFR level
+
+-- ===========================================
+-- 1. STORIES TABLE
+-- One row per generated story, with the questions returned by generate-story
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.stories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  story TEXT NOT NULL,
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  target_lang TEXT NOT NULL,
+  source_lang TEXT,
+  cefr_level TEXT NOT NULL CHECK (cefr_level IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2')),
+  -- NULL when the topic was picked by the AI
+  topic TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_user ON stories(user_id, updated_at DESC);
+
+-- ===========================================
+-- 2. STORY_QUIZ_ATTEMPTS TABLE
+-- One row per completed quiz; retakes add rows, they never overwrite
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.story_quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_count INTEGER NOT NULL,
+  total_questions INTEGER NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_quiz_attempts_story ON story_quiz_attempts(story_id, completed_at);
+
+-- ===========================================
+-- 3. ROW LEVEL SECURITY POLICIES
+-- ===========================================
+ALTER TABLE public.stories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own stories" ON public.stories;
+DROP POLICY IF EXISTS "Users can insert own stories" ON public.stories;
+DROP POLICY IF EXISTS "Users can update own stories" ON public.stories;
+DROP POLICY IF EXISTS "Users can delete own stories" ON public.stories;
+DROP POLICY IF EXISTS "Users can view own quiz attempts" ON public.story_quiz_attempts;
+DROP POLICY IF EXISTS "Users can insert own quiz attempts" ON public.story_quiz_attempts;
+DROP POLICY IF EXISTS "Users can delete own quiz attempts" ON public.story_quiz_attempts;
+
+CREATE POLICY "Users can view own stories" ON public.stories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own stories" ON public.stories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own stories" ON public.stories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own stories" ON public.stories
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own quiz attempts" ON public.story_quiz_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own quiz attempts" ON public.story_quiz_attempts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own quiz attempts" ON public.story_quiz_attempts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 4. TRIGGER: Auto-update updated_at
+-- ===========================================
+DROP TRIGGER IF EXISTS stories_updated_at ON public.stories;
+CREATE TRIGGER stories_updated_at
+  BEFORE UPDATE ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,162 @@
+-- ============================================
+-- LINGUA FACILE - AI RESPONSE CACHE
+-- ============================================
+-- Replaces openai_cache. Entries are keyed by feature, prompt version,
+-- normalized input and language (see supabase/functions/_shared/cache.ts)
+-- instead of a hash of the whole prompt, expire per feature and are evicted
+-- nightly. Only edge functions (service role) read or write these tables.
+
+-- ===========================================
+-- 1. AI_RESPONSE_CACHE TABLE
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.ai_response_cache (
+  -- SHA-256 of the key parts below, computed by the edge function
+  cache_key TEXT PRIMARY KEY,
+  feature TEXT NOT NULL,
+  prompt_version INTEGER NOT NULL,
+  language TEXT,
+  input TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  response JSONB NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires ON ai_response_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_lookup ON ai_response_cache(feature, input);
+
+-- ===========================================
+-- 2. AI_CACHE_STATS TABLE (daily hit/miss counters)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.ai_cache_stats (
+  feature TEXT NOT NULL,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (feature, day)
+);
+
+-- RLS on with no policies: invisible to app users, open to the service role
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_cache_stats ENABLE ROW LEVEL SECURITY;
+
+-- ===========================================
+-- 3. FUNCTIONS
+-- ===========================================
+
+-- Count a lookup; hits also bump the entry's own counter
+CREATE OR REPLACE FUNCTION public.record_ai_cache_lookup(
+  p_feature TEXT,
+  p_cache_key TEXT,
+  p_hit BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO public.ai_cache_stats (feature, day, hits, misses)
+  VALUES (p_feature, CURRENT_DATE, CASE WHEN p_hit THEN 1 ELSE 0 END, CASE WHEN p_hit THEN 0 ELSE 1 END)
+  ON CONFLICT (feature, day) DO UPDATE SET
+    hits = ai_cache_stats.hits + EXCLUDED.hits,
+    misses = ai_cache_stats.misses + EXCLUDED.misses;
+
+  IF p_hit THEN
+    UPDATE public.ai_response_cache
+    SET hit_count = hit_count + 1, last_hit_at = NOW()
+    WHERE cache_key = p_cache_key;
+  END IF;
+END;
+$$;
+
+-- Delete expired entries; returns how many were removed
+CREATE OR REPLACE FUNCTION public.evict_expired_ai_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.ai_response_cache WHERE expires_at < NOW();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Remove the cached responses for one input, e.g. after a bad answer was
+-- reported: SELECT public.purge_ai_cache('cefr_analysis', 'Io sono andato a casa');
+-- Input is normalized the same way as in cache.ts. Pass p_language to leave
+-- other languages alone. Returns how many entries were removed.
+CREATE OR REPLACE FUNCTION public.purge_ai_cache(
+  p_feature TEXT,
+  p_input TEXT,
+  p_language TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.ai_response_cache
+  WHERE feature = p_feature
+    AND input = regexp_replace(btrim(normalize(p_input, NFC)), '\s+', ' ', 'g')
+    AND (p_language IS NULL OR language = lower(p_language));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_ai_cache_lookup(TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evict_expired_ai_cache() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_ai_cache(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ===========================================
+-- 4. STATS VIEW
+-- ===========================================
+-- Last 30 days per feature: SELECT * FROM public.ai_cache_feature_stats;
+CREATE OR REPLACE VIEW public.ai_cache_feature_stats
+WITH (security_invoker = true) AS
+SELECT
+  s.feature,
+  SUM(s.hits)::INTEGER AS hits,
+  SUM(s.misses)::INTEGER AS misses,
+  ROUND(SUM(s.hits)::NUMERIC / NULLIF(SUM(s.hits) + SUM(s.misses), 0), 3) AS hit_rate,
+  (SELECT COUNT(*) FROM public.ai_response_cache c WHERE c.feature = s.feature)::INTEGER AS entries
+FROM public.ai_cache_stats s
+WHERE s.day > CURRENT_DATE - 30
+GROUP BY s.feature;
+
+-- ===========================================
+-- 5. SCHEDULED EVICTION (pg_cron)
+-- ===========================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('evict-ai-response-cache')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'evict-ai-response-cache');
+
+SELECT cron.schedule(
+  'evict-ai-response-cache',
+  '17 3 * * *',
+  $$SELECT public.evict_expired_ai_cache()$$
+);
+
+-- Counters older than 90 days are not needed for the stats view
+SELECT cron.unschedule('trim-ai-cache-stats')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'trim-ai-cache-stats');
+
+SELECT cron.schedule(
+  'trim-ai-cache-stats',
+  '27 3 * * 0',
+  $$DELETE FROM public.ai_cache_stats WHERE day < CURRENT_DATE - 90$$
+);
+
+-- ===========================================
+-- 6. RETIRE OPENAI_CACHE
+-- ===========================================
+-- Its keys were hashes of full prompts, which every prompt change orphaned
+DROP TABLE IF EXISTS public.openai_cache;
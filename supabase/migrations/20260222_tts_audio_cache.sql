@@ -0,0 +1,15 @@
+-- ============================================
+-- LINGUA FACILE - TTS AUDIO CACHE
+-- ============================================
+-- text-to-speech keeps every synthesis in Storage, keyed by a hash of model,
+-- voice, language and text, and serves repeats from there instead of paying
+-- for them again
+
+-- ===========================================
+-- 1. STORAGE BUCKET
+-- ===========================================
+-- Private, with no storage.objects policies: only the edge function (service
+-- role) reads and writes it. The app keeps its own copies on the device.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('tts-audio', 'tts-audio', FALSE, 5242880, ARRAY['audio/mpeg'])
+ON CONFLICT (id) DO NOTHING;
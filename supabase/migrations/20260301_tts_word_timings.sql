@@ -0,0 +1,12 @@
+-- ============================================
+-- LINGUA FACILE - TTS WORD TIMINGS
+-- ============================================
+-- text-to-speech can return word timestamps with the audio (with_timings),
+-- worked out once per clip and stored beside it as <hash>.words.json
+
+-- ===========================================
+-- 1. STORAGE BUCKET
+-- ===========================================
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['audio/mpeg', 'application/json']
+WHERE id = 'tts-audio';
@@ -0,0 +1,26 @@
+-- ============================================
+-- LINGUA FACILE - USER PREFERENCES SYNC
+-- ============================================
+-- The app now keeps user_preferences in step with its local settings (see
+-- services/preferencesSync.ts). Newer updated_at wins; a row whose
+-- updated_at still equals created_at has never been written by the app.
+
+-- ===========================================
+-- 1. PREMIUM VOICES
+-- ===========================================
+-- Premium voice per language, next to the device voice map
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS premium_voice_map JSONB DEFAULT '{}'::jsonb;
+
+-- ===========================================
+-- 2. LANGUAGE CODES
+-- ===========================================
+-- The app uses lowercase ISO 639-1 codes and starts on English -> Spanish
+ALTER TABLE public.user_preferences ALTER COLUMN native_language SET DEFAULT 'en';
+ALTER TABLE public.user_preferences ALTER COLUMN target_language SET DEFAULT 'es';
+
+UPDATE public.user_preferences
+SET native_language = lower(native_language),
+    target_language = lower(target_language)
+WHERE native_language <> lower(native_language)
+   OR target_language <> lower(target_language);
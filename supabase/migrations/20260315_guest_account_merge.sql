@@ -0,0 +1,74 @@
+-- ============================================
+-- LINGUA FACILE - GUEST ACCOUNT MERGE
+-- ============================================
+-- Guests (anonymous sign-ins) normally keep their user id by linking an
+-- email to it. When the email already belongs to an account, the guest signs
+-- in to that account instead and the merge-guest-account edge function moves
+-- the guest's rows over with merge_guest_account(), then deletes the guest.
+
+-- ===========================================
+-- 1. MERGE FUNCTION
+-- ===========================================
+-- Reassigns every user-owned row from p_guest_id to p_user_id and carries
+-- over a guest's premium subscription. Returns the rows moved per table.
+CREATE OR REPLACE FUNCTION public.merge_guest_account(
+  p_guest_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+  v_guest public.user_profiles%ROWTYPE;
+BEGIN
+  IF p_guest_id = p_user_id THEN
+    RAISE EXCEPTION 'Cannot merge an account into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_guest_id AND is_anonymous) THEN
+    RAISE EXCEPTION 'Account % is not a guest account', p_guest_id;
+  END IF;
+
+  -- Usage moves too, so signing up does not reset today's quota
+  FOREACH v_table IN ARRAY ARRAY[
+    'usage_logs',
+    'subscription_events',
+    'chat_conversations',
+    'chat_messages',
+    'vocabulary_items',
+    'translation_history',
+    'stories',
+    'story_quiz_attempts'
+  ] LOOP
+    EXECUTE format('UPDATE public.%I SET user_id = $1 WHERE user_id = $2', v_table)
+    USING p_user_id, p_guest_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- A subscription bought as a guest is kept unless the account already has one
+  SELECT * INTO v_guest FROM public.user_profiles WHERE id = p_guest_id;
+  IF FOUND AND v_guest.subscription_tier = 'premium' THEN
+    UPDATE public.user_profiles SET revenuecat_app_user_id = NULL WHERE id = p_guest_id;
+
+    UPDATE public.user_profiles SET
+      subscription_tier = v_guest.subscription_tier,
+      subscription_status = v_guest.subscription_status,
+      subscription_expires_at = v_guest.subscription_expires_at,
+      subscription_started_at = v_guest.subscription_started_at,
+      subscription_platform = v_guest.subscription_platform,
+      subscription_product_id = v_guest.subscription_product_id,
+      revenuecat_app_user_id = COALESCE(revenuecat_app_user_id, v_guest.revenuecat_app_user_id)
+    WHERE id = p_user_id AND subscription_tier <> 'premium';
+  END IF;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
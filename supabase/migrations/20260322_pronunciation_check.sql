@@ -0,0 +1,33 @@
+-- ============================================
+-- LINGUA FACILE - PRONUNCIATION PRACTICE
+-- ============================================
+-- The check-pronunciation edge function transcribes a recording of the learner
+-- reading a sentence and scores it word by word. Each check is metered as
+-- 'pronunciation_check'.
+
+-- ===========================================
+-- 1. USAGE_LOGS: new action type
+-- ===========================================
+ALTER TABLE public.usage_logs DROP CONSTRAINT IF EXISTS usage_logs_action_type_check;
+ALTER TABLE public.usage_logs ADD CONSTRAINT usage_logs_action_type_check CHECK (action_type IN (
+  'translation',
+  'cefr_analysis',
+  'verb_analysis',
+  'verb_conjugation',
+  'language_detection',
+  'chat_message',
+  'story_generation',
+  'text_to_speech',
+  'pronunciation_check'
+));
+
+-- ===========================================
+-- 2. USAGE_LIMITS: seed pronunciation checks
+-- ===========================================
+INSERT INTO public.usage_limits (subscription_tier, action_type, daily_limit, description) VALUES
+  ('free', 'pronunciation_check', 5, 'Pronunciation checks per day'),
+  ('premium', 'pronunciation_check', -1, 'Unlimited pronunciation checks')
+ON CONFLICT (subscription_tier, action_type) DO UPDATE SET
+  daily_limit = EXCLUDED.daily_limit,
+  description = EXCLUDED.description,
+  updated_at = NOW();
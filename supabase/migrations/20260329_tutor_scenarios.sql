@@ -0,0 +1,20 @@
+-- ============================================
+-- LINGUA FACILE - AI TUTOR ROLE-PLAY SCENARIOS
+-- ============================================
+-- A tutor thread can be a role-play from the scenario catalog
+-- (supabase/functions/_shared/scenarios.ts). The thread keeps the
+-- scenario and the goals reached so far; the end-of-scenario
+-- evaluation is stored as a role = 'system' message
+
+-- ===========================================
+-- 1. CHAT_CONVERSATIONS
+-- ===========================================
+ALTER TABLE public.chat_conversations
+  ADD COLUMN IF NOT EXISTS scenario_id TEXT,
+  ADD COLUMN IF NOT EXISTS goals_met TEXT[] NOT NULL DEFAULT '{}';
+
+-- ===========================================
+-- 2. CHAT_MESSAGES
+-- ===========================================
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS evaluation JSONB;
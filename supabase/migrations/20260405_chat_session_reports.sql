@@ -0,0 +1,115 @@
+-- ============================================
+-- LINGUA FACILE - AI TUTOR SESSION REPORTS
+-- ============================================
+-- "Finish session" in the AI Tutor asks chat-tutor for a report on the
+-- thread: corrections grouped by grammar topic, strengths, an estimated
+-- CEFR level and suggested exercises. Reports are kept for later review
+
+-- ===========================================
+-- 1. CHAT_SESSION_REPORTS TABLE
+-- One row per finished session; the report is the chat-tutor response
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.chat_session_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The thread is kept loosely: deleting it does not delete its reports
+  conversation_id UUID REFERENCES public.chat_conversations(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  source_lang TEXT NOT NULL,
+  cefr_level TEXT NOT NULL CHECK (cefr_level IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2')),
+  report JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_session_reports_user ON chat_session_reports(user_id, created_at DESC);
+
+-- ===========================================
+-- 2. ROW LEVEL SECURITY POLICIES
+-- ===========================================
+ALTER TABLE public.chat_session_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own session reports" ON public.chat_session_reports;
+DROP POLICY IF EXISTS "Users can insert own session reports" ON public.chat_session_reports;
+DROP POLICY IF EXISTS "Users can update own session reports" ON public.chat_session_reports;
+DROP POLICY IF EXISTS "Users can delete own session reports" ON public.chat_session_reports;
+
+CREATE POLICY "Users can view own session reports" ON public.chat_session_reports
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own session reports" ON public.chat_session_reports
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own session reports" ON public.chat_session_reports
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own session reports" ON public.chat_session_reports
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 3. GUEST ACCOUNT MERGE
+-- Same as 20260315_guest_account_merge.sql, with chat_session_reports
+-- added to the tables that move
+-- ===========================================
+CREATE OR REPLACE FUNCTION public.merge_guest_account(
+  p_guest_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+  v_guest public.user_profiles%ROWTYPE;
+BEGIN
+  IF p_guest_id = p_user_id THEN
+    RAISE EXCEPTION 'Cannot merge an account into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_guest_id AND is_anonymous) THEN
+    RAISE EXCEPTION 'Account % is not a guest account', p_guest_id;
+  END IF;
+
+  -- Usage moves too, so signing up does not reset today's quota
+  FOREACH v_table IN ARRAY ARRAY[
+    'usage_logs',
+    'subscription_events',
+    'chat_conversations',
+    'chat_messages',
+    'chat_session_reports',
+    'vocabulary_items',
+    'translation_history',
+    'stories',
+    'story_quiz_attempts'
+  ] LOOP
+    EXECUTE format('UPDATE public.%I SET user_id = $1 WHERE user_id = $2', v_table)
+    USING p_user_id, p_guest_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- A subscription bought as a guest is kept unless the account already has one
+  SELECT * INTO v_guest FROM public.user_profiles WHERE id = p_guest_id;
+  IF FOUND AND v_guest.subscription_tier = 'premium' THEN
+    UPDATE public.user_profiles SET revenuecat_app_user_id = NULL WHERE id = p_guest_id;
+
+    UPDATE public.user_profiles SET
+      subscription_tier = v_guest.subscription_tier,
+      subscription_status = v_guest.subscription_status,
+      subscription_expires_at = v_guest.subscription_expires_at,
+      subscription_started_at = v_guest.subscription_started_at,
+      subscription_platform = v_guest.subscription_platform,
+      subscription_product_id = v_guest.subscription_product_id,
+      revenuecat_app_user_id = COALESCE(revenuecat_app_user_id, v_guest.revenuecat_app_user_id)
+    WHERE id = p_user_id AND subscription_tier <> 'premium';
+  END IF;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,160 @@
+-- ============================================
+-- LINGUA FACILE - AI TUTOR MISTAKE MEMORY
+-- ============================================
+-- chat-tutor files every correction under a grammar category
+-- (supabase/functions/_shared/mistakes.ts) and counts it here per user and
+-- language. The most frequent categories are added to the tutor's prompt so
+-- it targets them; the app lists them under "My Mistakes"
+
+-- ===========================================
+-- 1. USER_MISTAKES TABLE
+-- One row per user, language and category, with the latest examples
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.user_mistakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  category TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  -- Latest first, at most 3: [{ "original": "...", "corrected": "..." }]
+  examples JSONB NOT NULL DEFAULT '[]'::jsonb,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, language, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mistakes_user ON user_mistakes(user_id, language, count DESC);
+
+-- ===========================================
+-- 2. ROW LEVEL SECURITY POLICIES
+-- Learners can read their mistakes and reset a category; counts are only
+-- written by chat-tutor through record_user_mistake()
+-- ===========================================
+ALTER TABLE public.user_mistakes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own mistakes" ON public.user_mistakes;
+DROP POLICY IF EXISTS "Users can delete own mistakes" ON public.user_mistakes;
+
+CREATE POLICY "Users can view own mistakes" ON public.user_mistakes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own mistakes" ON public.user_mistakes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ===========================================
+-- 3. RECORD FUNCTION
+-- ===========================================
+CREATE OR REPLACE FUNCTION public.record_user_mistake(
+  p_user_id UUID,
+  p_language TEXT,
+  p_category TEXT,
+  p_original TEXT,
+  p_corrected TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_example JSONB := jsonb_build_array(jsonb_build_object(
+    'original', LEFT(p_original, 300),
+    'corrected', LEFT(p_corrected, 300)
+  ));
+BEGIN
+  INSERT INTO public.user_mistakes (user_id, language, category, count, examples)
+  VALUES (p_user_id, p_language, p_category, 1, v_example)
+  ON CONFLICT (user_id, language, category) DO UPDATE SET
+    count = user_mistakes.count + 1,
+    examples = (
+      SELECT COALESCE(jsonb_agg(e.value ORDER BY e.ordinality), '[]'::jsonb)
+      FROM jsonb_array_elements(v_example || user_mistakes.examples) WITH ORDINALITY AS e
+      WHERE e.ordinality <= 3
+    ),
+    last_seen_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_user_mistake(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ===========================================
+-- 4. GUEST ACCOUNT MERGE
+-- Same as 20260405_chat_session_reports.sql, except that mistake counts are
+-- added to the account's own rather than moved (one row per category)
+-- ===========================================
+CREATE OR REPLACE FUNCTION public.merge_guest_account(
+  p_guest_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+  v_guest public.user_profiles%ROWTYPE;
+BEGIN
+  IF p_guest_id = p_user_id THEN
+    RAISE EXCEPTION 'Cannot merge an account into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_guest_id AND is_anonymous) THEN
+    RAISE EXCEPTION 'Account % is not a guest account', p_guest_id;
+  END IF;
+
+  INSERT INTO public.user_mistakes (user_id, language, category, count, examples, first_seen_at, last_seen_at)
+  SELECT p_user_id, language, category, count, examples, first_seen_at, last_seen_at
+  FROM public.user_mistakes
+  WHERE user_id = p_guest_id
+  ON CONFLICT (user_id, language, category) DO UPDATE SET
+    count = user_mistakes.count + EXCLUDED.count,
+    examples = CASE WHEN EXCLUDED.last_seen_at > user_mistakes.last_seen_at
+      THEN EXCLUDED.examples ELSE user_mistakes.examples END,
+    first_seen_at = LEAST(user_mistakes.first_seen_at, EXCLUDED.first_seen_at),
+    last_seen_at = GREATEST(user_mistakes.last_seen_at, EXCLUDED.last_seen_at);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_moved := v_moved || jsonb_build_object('user_mistakes', v_count);
+  DELETE FROM public.user_mistakes WHERE user_id = p_guest_id;
+
+  -- Usage moves too, so signing up does not reset today's quota
+  FOREACH v_table IN ARRAY ARRAY[
+    'usage_logs',
+    'subscription_events',
+    'chat_conversations',
+    'chat_messages',
+    'chat_session_reports',
+    'vocabulary_items',
+    'translation_history',
+    'stories',
+    'story_quiz_attempts'
+  ] LOOP
+    EXECUTE format('UPDATE public.%I SET user_id = $1 WHERE user_id = $2', v_table)
+    USING p_user_id, p_guest_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  -- A subscription bought as a guest is kept unless the account already has one
+  SELECT * INTO v_guest FROM public.user_profiles WHERE id = p_guest_id;
+  IF FOUND AND v_guest.subscription_tier = 'premium' THEN
+    UPDATE public.user_profiles SET revenuecat_app_user_id = NULL WHERE id = p_guest_id;
+
+    UPDATE public.user_profiles SET
+      subscription_tier = v_guest.subscription_tier,
+      subscription_status = v_guest.subscription_status,
+      subscription_expires_at = v_guest.subscription_expires_at,
+      subscription_started_at = v_guest.subscription_started_at,
+      subscription_platform = v_guest.subscription_platform,
+      subscription_product_id = v_guest.subscription_product_id,
+      revenuecat_app_user_id = COALESCE(revenuecat_app_user_id, v_guest.revenuecat_app_user_id)
+    WHERE id = p_user_id AND subscription_tier <> 'premium';
+  END IF;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,8 @@
+-- ============================================
+-- LINGUA FACILE - SERVER-ONLY USAGE LOGGING
+-- ============================================
+-- log_usage takes the user id as an argument, so any client could log (and
+-- exhaust) usage for another user. Since 20260120 only the edge functions
+-- call it, with the service role (supabase/functions/_shared/usage.ts).
+
+REVOKE EXECUTE ON FUNCTION public.log_usage(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- ============================================
+-- LINGUA FACILE - METERED TRANSLATION FEATURES
+-- ============================================
+-- enhance-translation (pronunciation, and meaning/examples/synonyms/tone for
+-- premium) is now metered as 'translation_features'. The function reads the
+-- caller's tier itself instead of trusting an isPremium flag from the app.
+
+-- ===========================================
+-- 1. USAGE_LOGS: new action type
+-- ===========================================
+ALTER TABLE public.usage_logs DROP CONSTRAINT IF EXISTS usage_logs_action_type_check;
+ALTER TABLE public.usage_logs ADD CONSTRAINT usage_logs_action_type_check CHECK (action_type IN (
+  'translation',
+  'cefr_analysis',
+  'verb_analysis',
+  'verb_conjugation',
+  'language_detection',
+  'chat_message',
+  'story_generation',
+  'text_to_speech',
+  'pronunciation_check',
+  'translation_features'
+));
+
+-- ===========================================
+-- 2. USAGE_LIMITS: seed translation features
+-- Free users get pronunciation once per translation, with room for retries
+-- ===========================================
+INSERT INTO public.usage_limits (subscription_tier, action_type, daily_limit, description) VALUES
+  ('free', 'translation_features', 20, 'Translation pronunciation lookups per day'),
+  ('premium', 'translation_features', -1, 'Unlimited translation details')
+ON CONFLICT (subscription_tier, action_type) DO UPDATE SET
+  daily_limit = EXCLUDED.daily_limit,
+  description = EXCLUDED.description,
+  updated_at = NOW();
@@ -0,0 +1,45 @@
+-- ============================================
+-- LINGUA FACILE - SERVER-ONLY SUBSCRIPTION FIELDS
+-- ============================================
+-- "Users can update own profile" lets a signed-in user update every column
+-- of their row, including subscription_tier, so anyone could make
+-- themselves premium. Only the revenuecat-webhook (service role) and
+-- SECURITY DEFINER functions called by it may change subscription state.
+
+CREATE OR REPLACE FUNCTION public.protect_subscription_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.subscription_tier := 'free';
+    NEW.subscription_status := 'none';
+    NEW.subscription_expires_at := NULL;
+    NEW.subscription_started_at := NULL;
+    NEW.subscription_platform := NULL;
+    NEW.subscription_product_id := NULL;
+    NEW.is_grandfathered := FALSE;
+    NEW.grandfathered_until := NULL;
+  ELSIF (NEW.subscription_tier, NEW.subscription_status, NEW.subscription_expires_at,
+         NEW.subscription_started_at, NEW.subscription_platform, NEW.subscription_product_id,
+         NEW.is_grandfathered, NEW.grandfathered_until)
+     IS DISTINCT FROM
+        (OLD.subscription_tier, OLD.subscription_status, OLD.subscription_expires_at,
+         OLD.subscription_started_at, OLD.subscription_platform, OLD.subscription_product_id,
+         OLD.is_grandfathered, OLD.grandfathered_until) THEN
+    RAISE EXCEPTION 'Subscription fields can only be changed by the server'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_subscription_columns ON public.user_profiles;
+CREATE TRIGGER protect_subscription_columns
+  BEFORE INSERT OR UPDATE ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_subscription_columns();
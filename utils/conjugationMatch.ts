@@ -0,0 +1,74 @@
+import type { VerbAnalysis } from '@/services/analyzeVerbs';
+
+// conjugate-verb keys persons as "1s".."3p"
+const PERSON_DIGITS: Record<string, string> = {
+  first: '1',
+  second: '2',
+  third: '3',
+  '1': '1',
+  '2': '2',
+  '3': '3',
+  '1st': '1',
+  '2nd': '2',
+  '3rd': '3',
+};
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[().,!?¿¡"«»]/g, ' ')
+    .split(/[\s'’]+/)
+    .filter(Boolean);
+
+const endsWithTokens = (cell: string[], form: string[]) => {
+  if (form.length === 0 || form.length > cell.length) return false;
+  const offset = cell.length - form.length;
+  return form.every((token, i) => cell[offset + i] === token);
+};
+
+/** Returns the person key ("1s", "3p", ...) implied by the analysis, if any. */
+export const personKeyFor = (verb: Pick<VerbAnalysis, 'person' | 'number'>): string | null => {
+  const digit = PERSON_DIGITS[(verb.person || '').toLowerCase().trim()];
+  const number = (verb.number || '').toLowerCase();
+  if (!digit) return null;
+  if (number.startsWith('s')) return `${digit}s`;
+  if (number.startsWith('p')) return `${digit}p`;
+  return null;
+};
+
+const cellMatchesForm = (cell: string, form: string[]) => {
+  // Some tables list alternatives ("vado / vo"), and most prefix the pronoun ("je mange")
+  return cell
+    .split(/\s*[\/,;]\s*/)
+    .some(alternative => endsWithTokens(tokenize(alternative), form));
+};
+
+/**
+ * Walks a conjugation table and returns the paths (keys joined with ".") of the
+ * cells whose value matches the form found in the sentence. When the same form
+ * appears for several persons, the ones agreeing with the analysed person and
+ * number are preferred.
+ */
+export const findMatchingCells = (
+  conjugation: Record<string, any>,
+  verb: Pick<VerbAnalysis, 'form' | 'person' | 'number'>
+): Set<string> => {
+  const form = tokenize(verb.form || '');
+  const matches: string[][] = [];
+
+  const walk = (node: unknown, path: string[]) => {
+    if (typeof node === 'string') {
+      if (cellMatchesForm(node, form)) matches.push(path);
+      return;
+    }
+    if (node && typeof node === 'object') {
+      Object.entries(node as Record<string, unknown>).forEach(([key, value]) => walk(value, [...path, key]));
+    }
+  };
+  walk(conjugation, []);
+
+  const personKey = personKeyFor(verb);
+  const preferred = personKey ? matches.filter(path => path[path.length - 1] === personKey) : [];
+
+  return new Set((preferred.length > 0 ? preferred : matches).map(path => path.join('.')));
+};
@@ -0,0 +1,10 @@
+/**
+ * RFC 4122 version 4 identifier, used for rows that are created offline
+ * before they reach Supabase.
+ */
+export const generateId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
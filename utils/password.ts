@@ -0,0 +1,19 @@
+// Password rules for new accounts, shared by sign-up and the guest upgrade.
+
+export interface PasswordChecks {
+  length: boolean;
+  upper: boolean;
+  lower: boolean;
+  digit: boolean;
+  special: boolean;
+}
+
+export const checkPassword = (password: string): PasswordChecks => ({
+  length: password.length >= 8,
+  upper: /[A-Z]/.test(password),
+  lower: /[a-z]/.test(password),
+  digit: /[0-9]/.test(password),
+  special: /[^A-Za-z0-9]/.test(password),
+});
+
+export const isStrongPassword = (password: string) => Object.values(checkPassword(password)).every(Boolean);
@@ -0,0 +1,104 @@
+// SM-2 scheduling for the vocabulary deck.
+// Grades follow SuperMemo: 0-2 is a failed recall, 3-5 a successful one.
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SrsState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+/** The four answers offered on a review card. */
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A failed card comes back within the same session rather than tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export const MATURE_INTERVAL_DAYS = 21;
+
+export const initialSrsState = (now = new Date()): SrsState => ({
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now.toISOString(),
+  lastReviewedAt: null,
+});
+
+/**
+ * Apply one review to a card and return its next scheduling state.
+ */
+export const scheduleReview = (state: SrsState, grade: ReviewGrade, now = new Date()): SrsState => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < 3) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 :
+    repetitions === 2 ? 6 :
+    Math.round(state.intervalDays * state.easeFactor);
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+};
+
+/** Short label for the interval a grade would give ("10m", "6d", "2mo"). */
+export const formatNextInterval = (state: SrsState, grade: ReviewGrade): string => {
+  const days = scheduleReview(state, grade).intervalDays;
+  if (days === 0) return '10m';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+};
+
+const endOfDay = (now: Date) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/**
+ * Today's review queue: cards due before midnight, most overdue first,
+ * with never-reviewed cards capped at `newLimit` and placed last.
+ */
+export const buildReviewQueue = <T extends SrsState>(items: T[], newLimit: number, now = new Date()): T[] => {
+  const cutoff = endOfDay(now);
+  const due = items
+    .filter(item => Date.parse(item.dueAt) <= cutoff)
+    .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+
+  const reviews = due.filter(item => item.lastReviewedAt !== null);
+  const fresh = due.filter(item => item.lastReviewedAt === null).slice(0, newLimit);
+  return [...reviews, ...fresh];
+};
@@ -0,0 +1,94 @@
+// Comprehension accuracy per CEFR level, from the story library's quiz attempts.
+// Only the first attempt at each story counts: retakes are practice, and the
+// answers are already known by then.
+
+import type { QuizAttempt, SavedStory } from '../services/storyLibraryService';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Suggestions look at the latest stories only, so old results age out
+const RECENT_STORIES = 5;
+const MIN_STORIES_FOR_SUGGESTION = 3;
+const LEVEL_UP_ACCURACY = 0.85;
+const LEVEL_DOWN_ACCURACY = 0.5;
+
+export interface LevelAccuracy {
+  level: string;
+  storiesQuizzed: number;
+  correct: number;
+  total: number;
+  /** 0-1, or null when no quiz has been taken at this level */
+  accuracy: number | null;
+}
+
+export interface LevelSuggestion {
+  direction: 'up' | 'down';
+  from: string;
+  to: string;
+  accuracy: number;
+  storiesQuizzed: number;
+}
+
+export const getFirstAttempt = (story: SavedStory): QuizAttempt | undefined => story.attempts[0];
+
+export const getBestAttempt = (attempts: QuizAttempt[]): QuizAttempt | undefined =>
+  attempts.reduce<QuizAttempt | undefined>(
+    (best, attempt) => (!best || attempt.correctCount / attempt.totalQuestions > best.correctCount / best.totalQuestions ? attempt : best),
+    undefined
+  );
+
+const summarize = (level: string, attempts: QuizAttempt[]): LevelAccuracy => {
+  const correct = attempts.reduce((sum, a) => sum + a.correctCount, 0);
+  const total = attempts.reduce((sum, a) => sum + a.totalQuestions, 0);
+  return {
+    level,
+    storiesQuizzed: attempts.length,
+    correct,
+    total,
+    accuracy: total > 0 ? correct / total : null,
+  };
+};
+
+/** First attempts at `level` in `language`, newest first. */
+const firstAttemptsAt = (stories: SavedStory[], language: string, level: string) =>
+  stories
+    .filter(story => story.targetLang === language && story.cefrLevel === level)
+    .map(getFirstAttempt)
+    .filter((attempt): attempt is QuizAttempt => !!attempt && attempt.totalQuestions > 0)
+    .sort((a, b) => Date.parse(b.completedAt) - Date.parse(a.completedAt));
+
+/** Accuracy at every CEFR level for one language. */
+export const getLevelAccuracy = (stories: SavedStory[], language: string): LevelAccuracy[] =>
+  CEFR_LEVELS.map(level => summarize(level, firstAttemptsAt(stories, language, level)));
+
+/**
+ * Suggest moving up when recent quizzes at `level` are consistently easy, or
+ * down when most answers are wrong. Returns null while there is too little
+ * data or the level looks right.
+ */
+export const suggestLevelChange = (
+  stories: SavedStory[],
+  language: string,
+  level: string
+): LevelSuggestion | null => {
+  const index = CEFR_LEVELS.indexOf(level);
+  if (index === -1) return null;
+
+  const recent = summarize(level, firstAttemptsAt(stories, language, level).slice(0, RECENT_STORIES));
+  if (recent.accuracy === null || recent.storiesQuizzed < MIN_STORIES_FOR_SUGGESTION) return null;
+
+  if (recent.accuracy >= LEVEL_UP_ACCURACY && index < CEFR_LEVELS.length - 1) {
+    return { direction: 'up', from: level, to: CEFR_LEVELS[index + 1], accuracy: recent.accuracy, storiesQuizzed: recent.storiesQuizzed };
+  }
+  if (recent.accuracy <= LEVEL_DOWN_ACCURACY && index > 0) {
+    return { direction: 'down', from: level, to: CEFR_LEVELS[index - 1], accuracy: recent.accuracy, storiesQuizzed: recent.storiesQuizzed };
+  }
+  return null;
+};
+
+export const describeSuggestion = (suggestion: LevelSuggestion): string => {
+  const percent = Math.round(suggestion.accuracy * 100);
+  return suggestion.direction === 'up'
+    ? `You've scored ${percent}% on your last ${suggestion.storiesQuizzed} ${suggestion.from} stories. Ready for ${suggestion.to}?`
+    : `Your last ${suggestion.storiesQuizzed} ${suggestion.from} stories averaged ${percent}%. ${suggestion.to} may be a better fit for now.`;
+};
@@ -14,7 +14,21 @@ export const supabase = createClient(
             storage: AsyncStorage,
             autoRefreshToken: true,
             persistSession: true,
+            // Auth redirects arrive as deep links and are handled by app/auth/callback
             detectSessionInUrl: false,
+            flowType: 'pkce',
             // lock: processLock, // Commented out to prevent timeout warnings
         },
     })
+
+/**
+ * Headers for calling an edge function as the signed-in user. Edge functions
+ * meter usage per user, so the anon key alone is rejected.
+ */
+export const getFunctionHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+    };
+};